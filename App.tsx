@@ -2,24 +2,46 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useEffect } from 'react';
+import React, { useState, ChangeEvent, useEffect, useMemo, useReducer, useRef } from 'react';
 import { motion, Reorder } from 'framer-motion';
-import { generateDecadeImage } from './services/geminiService';
+import { getActiveModel, refineDecadeImage } from './services/geminiService';
+import { generateValidated } from './services/validatedGeneration';
+import { toGenerationError } from './services/errors';
 import PolaroidCard from './components/PolaroidCard';
-import { createAlbumPage, dataUrlToFile } from './lib/albumUtils';
+import { createAlbumPage, createDecadeAnimation, dataUrlToFile } from './lib/albumUtils';
+import { createAlbumPdf } from './lib/albumPdf';
+import { createAlbumBundle } from './lib/albumBundle';
 import Footer from './components/Footer';
+import AlbumsGallery from './components/AlbumsGallery';
+import EraPicker from './components/EraPicker';
+import SubjectPicker from './components/SubjectPicker';
+import PromptSettings from './components/PromptSettings';
+import { eraFileSlug, type Era } from './lib/eras';
+import { loadPromptSelection, MAX_REFERENCE_PHOTOS, renderPrompt, resolvePromptSelection, savePromptSelection, type PromptSelection } from './lib/promptTemplates';
+import { createSessionId, defaultSessionName, getSession, saveSession } from './services/sessionStore';
+import { createProjectFile, PROJECT_FILE_EXTENSION, ProjectFileError, projectFileName, projectToSession, readProjectFile } from './lib/projectFile';
+import { appReducer, createAppStore, selectAlbumImageData, selectCanRedo, selectCanUndo, selectEra, selectHasPendingWork, selectRedoLabel, selectUndoLabel } from './lib/appStore';
+import { AppStoreContext, CardActionsContext, type CardActions } from './components/AppStoreContext';
+import ContactSheet from './components/ContactSheet';
+import Lightbox from './components/Lightbox';
+import ReferenceStack from './components/ReferenceStack';
+import ImageCropper from './components/ImageCropper';
+import AlbumDesigner, { DEFAULT_ANIMATION_SETTINGS, type AnimationSettings } from './components/AlbumDesigner';
+import { loadAlbumLayoutSelection, saveAlbumLayoutSelection, type AlbumLayoutSelection } from './lib/albumLayouts';
+import { loadAlbumBranding, saveAlbumBranding, type AlbumBranding } from './lib/albumBranding';
+import { cropImage, ImagePreprocessingError, preprocessImage, type CropArea } from './lib/imagePreprocessing';
+import GenerationProgress from './components/GenerationProgress';
+import type { JobPriority } from './services/generationScheduler';
+import { applyFilmSettings } from './lib/filmEffects';
+import { getRefinementHistory, getSelectedUrl } from './lib/generatedImages';
 
-const DECADES = ['1950s', '1960s', '1970s', '1980s', '1990s', '2000s'];
+// Pre-defined tilts for a scattered look on desktop, repeated when there are more eras than entries
+const CARD_ROTATIONS = [-8, 5, 3, 10, -12, -3];
 
-// Pre-defined positions for a scattered look on desktop
-const POSITIONS = [
-    { top: '5%', left: '10%', rotate: -8 },
-    { top: '15%', left: '60%', rotate: 5 },
-    { top: '45%', left: '5%', rotate: 3 },
-    { top: '2%', left: '35%', rotate: 10 },
-    { top: '40%', left: '70%', rotate: -12 },
-    { top: '50%', left: '38%', rotate: -3 },
-];
+const CANDIDATE_COUNTS = [1, 2, 3, 4];
+
+// Wait for a burst of state updates to settle before writing the session to IndexedDB.
+const AUTOSAVE_DELAY_MS = 500;
 
 const GHOST_POLAROIDS_CONFIG = [
   { initial: { x: "-150%", y: "-100%", rotate: -30 }, transition: { delay: 0.2 } },
@@ -31,15 +53,9 @@ const GHOST_POLAROIDS_CONFIG = [
 ];
 
 
-type ImageStatus = 'pending' | 'done' | 'error';
-interface GeneratedImage {
-    status: ImageStatus;
-    url?: string;
-    error?: string;
-}
-
 const primaryButtonClasses = "font-permanent-marker text-xl text-center text-black bg-yellow-400 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-yellow-300 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.2)]";
 const secondaryButtonClasses = "font-permanent-marker text-xl text-center text-white bg-white/10 backdrop-blur-sm border-2 border-white/80 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:rotate-2 hover:bg-white hover:text-black";
+const toolbarButtonClasses = "font-permanent-marker text-sm sm:text-base text-white bg-white/10 backdrop-blur-sm border border-white/50 py-2 px-4 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:rotate-2 hover:bg-white hover:text-black";
 
 const useMediaQuery = (query: string) => {
     const [matches, setMatches] = useState(false);
@@ -56,14 +72,35 @@ const useMediaQuery = (query: string) => {
 };
 
 function App() {
-    const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImage>>({});
-    const [customCaptions, setCustomCaptions] = useState<Record<string, string>>({});
+    // The open album lives in one store, so every change to it goes through the reducer and can be undone.
+    const [store, dispatch] = useReducer(appReducer, undefined, createAppStore);
+    const { sessionId, uploadedImage, sourceImage, referenceImages, eras, subject, generatedImages, customCaptions, filmSettings, orderedDecades } = store.present;
+    const appState = store.present.phase;
+    const [chainMode, setChainMode] = useState(false);
+    const [showCropper, setShowCropper] = useState(false);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isDownloading, setIsDownloading] = useState<boolean>(false);
-    const [appState, setAppState] = useState<'idle' | 'image-uploaded' | 'generating' | 'results-shown'>('idle');
-    const [orderedDecades, setOrderedDecades] = useState(DECADES);
     const [canShare, setCanShare] = useState(false);
+    const [showAlbums, setShowAlbums] = useState(false);
+    const [promptSelection, setPromptSelection] = useState<PromptSelection>(loadPromptSelection);
+    const [showPromptSettings, setShowPromptSettings] = useState(false);
+    const [candidateCount, setCandidateCount] = useState(1);
+    const [useCache, setUseCache] = useState(true);
+    const [contactSheetDecade, setContactSheetDecade] = useState<string | null>(null);
+    // The era open in the lightbox, and the version its card was showing when it was opened.
+    const [lightbox, setLightbox] = useState<{ decade: string; versionIndex?: number } | null>(null);
+    const [albumLayout, setAlbumLayout] = useState<AlbumLayoutSelection>(loadAlbumLayoutSelection);
+    const [albumBranding, setAlbumBranding] = useState<AlbumBranding>(loadAlbumBranding);
+    const [showAlbumDesigner, setShowAlbumDesigner] = useState(false);
+    const [animationSettings, setAnimationSettings] = useState<AnimationSettings>(DEFAULT_ANIMATION_SETTINGS);
+    // One controller per era batch. Results are only written while their controller is
+    // still the registered one, so nothing from a reset or replaced batch reaches state.
+    const eraControllersRef = useRef(new Map<string, AbortController>());
+    // Bumped on every reset so a finished worker pool doesn't flip a new session's state.
+    const generationRunRef = useRef(0);
+    // The latest session, for checks that run after an await and would otherwise see a stale render.
+    const sessionRef = useRef(store.present);
+    sessionRef.current = store.present;
     const isMobile = useMediaQuery('(max-width: 768px)');
 
     useEffect(() => {
@@ -74,133 +111,408 @@ function App() {
         }
     }, []);
 
-    const handleImageUpload = (e: ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                setUploadedImage(reader.result as string);
-                setAppState('image-uploaded');
-                setGeneratedImages({}); // Clear previous results
-            };
-            reader.readAsDataURL(file);
+    // Save the current session automatically whenever any part of it changes.
+    useEffect(() => {
+        if (!sessionId || !uploadedImage) return;
+        const timer = setTimeout(() => {
+            const now = Date.now();
+            saveSession({
+                id: sessionId,
+                name: defaultSessionName(now),
+                createdAt: now,
+                updatedAt: now,
+                uploadedImage,
+                sourceImage: sourceImage && sourceImage !== uploadedImage ? sourceImage : undefined,
+                referenceImages,
+                eras,
+                subject,
+                generatedImages,
+                customCaptions,
+                orderedDecades,
+                filmSettings,
+            }).catch(error => console.error("Failed to save session:", error));
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [sessionId, uploadedImage, sourceImage, referenceImages, eras, subject, generatedImages, customCaptions, orderedDecades, filmSettings]);
+
+    const handlePromptSelectionChange = (selection: PromptSelection) => {
+        setPromptSelection(selection);
+        savePromptSelection(selection);
+    };
+
+    const buildPrompt = (era: Era) => renderPrompt(resolvePromptSelection(promptSelection), era, subject);
+
+    // Normalizes each photo, skipping (and reporting) any that can't be used.
+    const preprocessFiles = async (files: File[]): Promise<string[]> => {
+        const dataUrls: string[] = [];
+        const problems: string[] = [];
+        for (const file of files) {
+            try {
+                dataUrls.push((await preprocessImage(file)).dataUrl);
+            } catch (error) {
+                console.error(`Failed to process ${file.name}:`, error);
+                problems.push(error instanceof ImagePreprocessingError ? error.message : `Sorry, there was an error reading ${file.name}. Please try another one.`);
+            }
+        }
+        if (problems.length > 0) {
+            alert(problems.join('\n'));
         }
+        return dataUrls;
     };
 
-    const handleGenerateClick = async () => {
-        if (!uploadedImage) return;
+    const handleImageUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = ''; // Let the same file be picked again after a rejection
+        if (files.length === 0) return;
+        if (files.length > MAX_REFERENCE_PHOTOS) {
+            alert(`Only the first ${MAX_REFERENCE_PHOTOS} photos will be used.`);
+        }
+        // The first photo is the one that gets restyled; the rest help keep the likeness.
+        const [primary, ...references] = await preprocessFiles(files.slice(0, MAX_REFERENCE_PHOTOS));
+        if (!primary) return;
+        dispatch({ type: 'photoUploaded', sessionId: createSessionId(), image: primary, referenceImages: references });
+    };
 
-        setIsLoading(true);
-        setAppState('generating');
-        
-        const initialImages: Record<string, GeneratedImage> = {};
-        DECADES.forEach(decade => {
-            initialImages[decade] = { status: 'pending' };
-        });
-        setGeneratedImages(initialImages);
+    const handleAddReferences = async (files: File[]) => {
+        const room = MAX_REFERENCE_PHOTOS - 1 - referenceImages.length;
+        if (files.length > room) {
+            alert(`Only ${MAX_REFERENCE_PHOTOS} photos can be used in total.`);
+        }
+        const added = await preprocessFiles(files.slice(0, Math.max(0, room)));
+        dispatch({ type: 'referencesAdded', images: added });
+    };
 
-        const concurrencyLimit = 2; // Process two decades at a time
-        const decadesQueue = [...DECADES];
+    const handleRemoveReference = (index: number) => {
+        dispatch({ type: 'referenceRemoved', index });
+    };
 
-        const processDecade = async (decade: string) => {
-            try {
-                const prompt = `Reimagine the person in this photo in the style of the ${decade}. This includes clothing, hairstyle, photo quality, and the overall aesthetic of that decade. The output must be a photorealistic image showing the person clearly.`;
-                const resultUrl = await generateDecadeImage(uploadedImage, prompt);
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [decade]: { status: 'done', url: resultUrl },
-                }));
-            } catch (err) {
-                const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [decade]: { status: 'error', error: errorMessage },
-                }));
-                console.error(`Failed to generate image for ${decade}:`, err);
-            }
+    const handleApplyCrop = async (crop: CropArea) => {
+        if (!sourceImage) return;
+        try {
+            dispatch({ type: 'photoCropped', image: await cropImage(sourceImage, crop) });
+            setShowCropper(false);
+        } catch (error) {
+            console.error("Failed to crop image:", error);
+            alert("Sorry, there was an error cropping your photo.");
+        }
+    };
+
+    const startEraController = (eraId: string) => {
+        const controller = new AbortController();
+        eraControllersRef.current.set(eraId, controller);
+        return controller;
+    };
+
+    const cancelAllGenerations = () => {
+        eraControllersRef.current.forEach(controller => controller.abort());
+        eraControllersRef.current.clear();
+        generationRunRef.current++;
+    };
+
+    // Generates one candidate for an era and files the result (or failure) into its history.
+    // `slot` numbers the candidates so each is cached separately. Resolves to the image, if one was made.
+    const generateCandidate = async (
+        era: Era,
+        sourceImage: string,
+        controller: AbortController,
+        slot: number,
+        bypassCache: boolean,
+        priority: JobPriority = 'normal',
+        chainImage?: string
+    ): Promise<string | undefined> => {
+        const { signal } = controller;
+        const isCurrent = () => eraControllersRef.current.get(era.id) === controller;
+        const markCancelled = () => {
+            if (!isCurrent()) return;
+            dispatch({ type: 'attemptCancelled', decade: era.id });
         };
 
-        const workers = Array(concurrencyLimit).fill(null).map(async () => {
-            while (decadesQueue.length > 0) {
-                const decade = decadesQueue.shift();
-                if (decade) {
-                    await processDecade(decade);
-                }
+        if (signal.aborted) {
+            markCancelled();
+            return;
+        }
+        try {
+            const prompt = buildPrompt(era);
+            // Other eras' results, to catch the same image coming back for several eras.
+            const compareWith = () => eras
+                .filter(other => other.id !== era.id)
+                .map(other => getSelectedUrl(sessionRef.current.generatedImages[other.id]))
+                .filter((url): url is string => Boolean(url));
+            const result = await generateValidated(sourceImage, prompt, era, { signal, priority, subject, slot, bypassCache, referenceImages, chainImage, compareWith });
+            signal.throwIfAborted();
+            if (!isCurrent()) return;
+            dispatch({
+                type: 'attemptAdded',
+                decade: era.id,
+                attempt: {
+                    url: result.url,
+                    createdAt: Date.now(),
+                    promptTemplateId: prompt.templateId,
+                    promptTemplateVersion: prompt.templateVersion,
+                    prompt: prompt.text,
+                    model: result.model,
+                    cached: result.cached,
+                    lowConfidence: result.lowConfidence || undefined,
+                    validationIssues: result.issues.length > 0 ? result.issues : undefined,
+                },
+            });
+            return result.url;
+        } catch (err) {
+            if (signal.aborted) {
+                console.log(`Generation for ${era.id} was cancelled.`);
+                markCancelled();
+                return;
             }
-        });
+            if (!isCurrent()) return;
+            const failure = toGenerationError(err).toFailure();
+            dispatch({ type: 'attemptFailed', decade: era.id, failure });
+            console.error(`Failed to generate image for ${era.id}:`, err);
+        }
+    };
 
-        await Promise.all(workers);
+    const handleGenerateClick = async () => {
+        if (!uploadedImage || eras.length === 0) return;
+
+        setIsLoading(true);
+        const runId = generationRunRef.current;
+
+        const controllers = new Map<string, AbortController>();
+        eras.forEach(era => controllers.set(era.id, startEraController(era.id)));
+        dispatch({ type: 'generationStarted', candidateCount });
+
+        if (chainMode) {
+            // One era at a time: the first result of each era goes along as a reference for the next.
+            let chainImage: string | undefined;
+            for (const era of eras) {
+                let accepted: string | undefined;
+                await Promise.all(Array.from({ length: candidateCount }, (_, slot) =>
+                    generateCandidate(era, uploadedImage, controllers.get(era.id)!, slot, !useCache, 'normal', chainImage)
+                        .then(url => { accepted ??= url; })
+                ));
+                if (generationRunRef.current !== runId) return;
+                chainImage = accepted ?? chainImage;
+            }
+        } else {
+            // The shared scheduler decides how many of these actually run at once.
+            const candidates = eras.flatMap(era => Array.from({ length: candidateCount }, (_, slot) => ({ era, slot })));
+            await Promise.all(candidates.map(({ era, slot }) => generateCandidate(era, uploadedImage, controllers.get(era.id)!, slot, !useCache)));
+        }
+        if (generationRunRef.current !== runId) return; // The session was reset meanwhile
 
         setIsLoading(false);
-        setAppState('results-shown');
+        dispatch({ type: 'generationFinished' });
+    };
+
+    // In chain mode an era is anchored to the accepted result of the era before it (or after it, for the first).
+    const getChainImage = (eraId: string): string | undefined => {
+        const index = eras.findIndex(era => era.id === eraId);
+        const neighbour = eras[index - 1] ?? eras[index + 1];
+        return neighbour ? getSelectedUrl(generatedImages[neighbour.id]) : undefined;
     };
 
     const handleRegenerateDecade = async (decade: string) => {
-        if (!uploadedImage) return;
+        const era = selectEra(store.present, decade);
+        if (!uploadedImage || !era) return;
 
         // Prevent re-triggering if a generation is already in progress
-        if (generatedImages[decade]?.status === 'pending') {
+        const current = generatedImages[decade];
+        if (current?.status === 'pending' || (current?.pendingCount ?? 0) > 0) {
             return;
         }
         
-        console.log(`Regenerating image for ${decade}...`);
+        console.log(`Regenerating ${candidateCount} candidate(s) for ${decade}...`);
+
+        dispatch({ type: 'regenerationStarted', decade, candidateCount });
+
+        const controller = startEraController(decade);
+        const chainImage = chainMode ? getChainImage(decade) : undefined;
+        // User-triggered, so it jumps ahead of anything still queued from the initial run.
+        // Asking for a new version means a fresh generation, never a cached one.
+        await Promise.all(Array.from({ length: candidateCount }, (_, slot) => generateCandidate(era, uploadedImage, controller, slot, true, 'high', chainImage)));
+    };
+
+    const handleCancelDecade = (decade: string) => {
+        eraControllersRef.current.get(decade)?.abort();
+    };
+
+    const handleCancelAll = () => {
+        eraControllersRef.current.forEach(controller => controller.abort());
+    };
+
+    const handleSelectVersion = (decade: string, index: number) => {
+        dispatch({ type: 'versionSelected', decade, index });
+    };
 
-        // Set the specific decade to 'pending' to show the loading spinner
-        setGeneratedImages(prev => ({
-            ...prev,
-            [decade]: { status: 'pending' },
-        }));
+    const handleRefine = async (decade: string, versionIndex: number, instruction: string, keepLikeness: boolean) => {
+        const era = selectEra(store.present, decade);
+        const image = generatedImages[decade];
+        const base = image?.attempts[versionIndex];
+        if (!uploadedImage || !era || !image || !base) return;
+        // One job per card at a time, so the era's controller cancels exactly this refinement.
+        if (image.status === 'pending' || image.pendingCount > 0 || image.refining) return;
+
+        const controller = startEraController(decade);
+        const { signal } = controller;
+        const isCurrent = () => eraControllersRef.current.get(decade) === controller;
+        dispatch({ type: 'refinementStarted', decade });
 
-        // Call the generation service for the specific decade
         try {
-            const prompt = `Reimagine the person in this photo in the style of the ${decade}. This includes clothing, hairstyle, photo quality, and the overall aesthetic of that decade. The output must be a photorealistic image showing the person clearly.`;
-            const resultUrl = await generateDecadeImage(uploadedImage, prompt);
-            setGeneratedImages(prev => ({
-                ...prev,
-                [decade]: { status: 'done', url: resultUrl },
-            }));
+            const url = await refineDecadeImage(base.url, instruction, era, {
+                signal,
+                history: getRefinementHistory(image, versionIndex),
+                sourceImage: keepLikeness ? uploadedImage : undefined,
+                subject,
+            });
+            signal.throwIfAborted();
+            if (!isCurrent()) return; // The session was reset meanwhile
+            dispatch({
+                type: 'refinementAdded',
+                decade,
+                attempt: {
+                    url,
+                    createdAt: Date.now(),
+                    promptTemplateId: base.promptTemplateId,
+                    promptTemplateVersion: base.promptTemplateVersion,
+                    prompt: base.prompt,
+                    model: getActiveModel(),
+                    refinedFrom: versionIndex,
+                    instruction,
+                },
+            });
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
-            setGeneratedImages(prev => ({
-                ...prev,
-                [decade]: { status: 'error', error: errorMessage },
-            }));
-            console.error(`Failed to regenerate image for ${decade}:`, err);
+            if (isCurrent()) dispatch({ type: 'refinementEnded', decade });
+            if (signal.aborted || !isCurrent()) {
+                console.log(`Refinement for ${decade} was cancelled.`);
+                return;
+            }
+            console.error(`Failed to refine image for ${decade}:`, err);
+            const failure = toGenerationError(err).toFailure();
+            alert(`Sorry, there was an error refining the image. ${failure.title}: ${failure.suggestion}`);
+            throw err;
         }
     };
 
-    const handleCaptionChange = (decade: string, newCaption: string) => {
-        setCustomCaptions(prev => ({
-            ...prev,
-            [decade]: newCaption,
-        }));
-    };
-    
     const handleReset = () => {
-        setUploadedImage(null);
-        setGeneratedImages({});
-        setCustomCaptions({});
-        setAppState('idle');
-        setOrderedDecades(DECADES); // Reset order
+        cancelAllGenerations(); // Stop spending quota on a session that's being thrown away
+        setIsLoading(false);
+        dispatch({ type: 'reset' }); // Undoable, in case it was a slip
     };
 
-    const handleDownloadIndividualImage = (decade: string) => {
-        const image = generatedImages[decade];
-        if (image?.status === 'done' && image.url) {
+    const handleOpenSession = async (id: string) => {
+        try {
+            const session = await getSession(id);
+            if (!session) {
+                alert("Sorry, that album could not be found.");
+                return;
+            }
+            cancelAllGenerations();
+            setIsLoading(false);
+            dispatch({ type: 'sessionOpened', session });
+            setShowAlbums(false);
+        } catch (error) {
+            console.error("Failed to open session:", error);
+            alert("Sorry, there was an error opening that album.");
+        }
+    };
+
+    const handleSaveProject = async () => {
+        if (!sessionId || !uploadedImage) return;
+
+        setIsDownloading(true);
+        try {
+            // The name may have been changed in My Albums; a session that hasn't been autosaved yet has none.
+            const saved = await getSession(sessionId);
+            const now = Date.now();
+            const name = saved?.name ?? defaultSessionName(now);
+            const file = await createProjectFile({
+                name,
+                createdAt: saved?.createdAt ?? now,
+                uploadedImage,
+                sourceImage: sourceImage && sourceImage !== uploadedImage ? sourceImage : undefined,
+                referenceImages,
+                eras,
+                subject,
+                generatedImages,
+                customCaptions,
+                orderedDecades,
+                filmSettings,
+            }, getActiveModel());
+            const url = URL.createObjectURL(file);
             const link = document.createElement('a');
-            link.href = image.url;
-            link.download = `past-forward-${decade}.jpg`;
+            link.href = url;
+            link.download = projectFileName(name);
             document.body.appendChild(link);
             link.click();
             document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error("Failed to save project file:", error);
+            alert("Sorry, there was an error saving your project. Please try again.");
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    const handleOpenProject = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Let the same file be picked again after a fix
+        if (!file) return;
+        try {
+            const project = await readProjectFile(file);
+            // Opened as a new album, so it never overwrites the one it was saved from. Saved
+            // before autosave runs so it keeps the project's name and creation date.
+            const session = projectToSession(project, createSessionId());
+            await saveSession(session);
+            cancelAllGenerations();
+            setIsLoading(false);
+            dispatch({ type: 'sessionOpened', session });
+            setShowAlbums(false);
+        } catch (error) {
+            console.error("Failed to open project file:", error);
+            alert(error instanceof ProjectFileError ? error.message : "Sorry, there was an error opening that project.");
+        }
+    };
+
+    const handleSessionDeleted = (id: string) => {
+        // Deleting the open session would otherwise be undone by the next autosave.
+        if (id === sessionId) {
+            cancelAllGenerations();
+            setIsLoading(false);
+            dispatch({ type: 'sessionDeleted' }); // Not undoable: undo would bring the album back
+        }
+    };
+
+    // The image as it should leave the app: with the card's film look, if it's turned on.
+    const withFilmLook = (decade: string, url: string) =>
+        applyFilmSettings(url, selectEra(store.present, decade), filmSettings[decade]);
+
+    const withFilmLooks = async (imageData: Record<string, string>) => {
+        const entries = await Promise.all(Object.entries(imageData).map(async ([decade, url]) => [decade, await withFilmLook(decade, url)]));
+        return Object.fromEntries(entries) as Record<string, string>;
+    };
+
+    const handleDownloadIndividualImage = async (decade: string) => {
+        const url = getSelectedUrl(generatedImages[decade]);
+        if (url) {
+            try {
+                const link = document.createElement('a');
+                link.href = await withFilmLook(decade, url);
+                link.download = `past-forward-${eraFileSlug(decade)}.jpg`;
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+            } catch (error) {
+                console.error("Failed to apply the film look:", error);
+                alert("Sorry, there was an error preparing your image. Please try again.");
+            }
         }
     };
 
      const handleShareIndividualImage = async (decade: string) => {
-        const image = generatedImages[decade];
-        if (image?.status === 'done' && image.url && navigator.share) {
+        const url = getSelectedUrl(generatedImages[decade]);
+        if (url && navigator.share) {
             try {
-                const file = await dataUrlToFile(image.url, `past-forward-${decade}.jpg`);
+                const file = await dataUrlToFile(await withFilmLook(decade, url), `past-forward-${eraFileSlug(decade)}.jpg`);
                 if (navigator.canShare && navigator.canShare({ files: [file] })) {
                     await navigator.share({
                         files: [file],
@@ -219,29 +531,53 @@ function App() {
         }
     };
 
+    // Follow the on-screen order so the album matches what the user arranged.
+    const albumImageData = useMemo(() => selectAlbumImageData(store.present), [orderedDecades, generatedImages]);
+
+    // The album designer previews the film looks too; it shows the plain images until they're ready.
+    const [designerImageData, setDesignerImageData] = useState<Record<string, string> | null>(null);
+    useEffect(() => {
+        if (!showAlbumDesigner) return;
+        let cancelled = false;
+        setDesignerImageData(null);
+        withFilmLooks(albumImageData)
+            .then(imageData => { if (!cancelled) setDesignerImageData(imageData); })
+            .catch(error => console.warn("Could not preview the film looks in the album:", error));
+        return () => { cancelled = true; };
+    }, [showAlbumDesigner, albumImageData, filmSettings]);
+
     const prepareAlbumData = () => {
-        // FIX: Cast 'image' to GeneratedImage to fix type errors with Object.entries.
-        const imageData = Object.entries(generatedImages)
-            .filter(([, image]) => (image as GeneratedImage).status === 'done' && (image as GeneratedImage).url)
-            .reduce((acc, [decade, image]) => {
-                acc[decade] = (image as GeneratedImage).url!;
-                return acc;
-            }, {} as Record<string, string>);
-
-        if (Object.keys(imageData).length < DECADES.length) {
+        if (Object.keys(albumImageData).length < orderedDecades.length) {
             alert("Please wait for all images to finish generating.");
             return null;
         }
-        return imageData;
+        return albumImageData;
     }
 
+    // Group photos are captioned with the group's name, e.g. "The Smiths, 1970s".
+    const groupName = subject.mode === 'group' ? subject.groupName : undefined;
+
+    const handleOpenAlbumDesigner = () => {
+        if (prepareAlbumData()) setShowAlbumDesigner(true);
+    };
+
+    const handleAlbumLayoutChange = (layout: AlbumLayoutSelection) => {
+        setAlbumLayout(layout);
+        saveAlbumLayoutSelection(layout);
+    };
+
+    const handleAlbumBrandingChange = (branding: AlbumBranding) => {
+        setAlbumBranding(branding);
+        saveAlbumBranding(branding);
+    };
+
     const handleDownloadAlbum = async () => {
         const imageData = prepareAlbumData();
         if (!imageData) return;
 
         setIsDownloading(true);
         try {
-            const albumDataUrl = await createAlbumPage(imageData, customCaptions);
+            const albumDataUrl = await createAlbumPage(await withFilmLooks(imageData), customCaptions, { groupName, layout: albumLayout, branding: albumBranding });
             const link = document.createElement('a');
             link.href = albumDataUrl;
             link.download = 'past-forward-album.jpg';
@@ -256,16 +592,128 @@ function App() {
         }
     };
 
+    const handleDownloadPdf = async () => {
+        const imageData = prepareAlbumData();
+        if (!imageData || !uploadedImage) return;
+
+        setIsDownloading(true);
+        try {
+            const pdf = await createAlbumPdf(await withFilmLooks(imageData), customCaptions, uploadedImage, { groupName, layout: albumLayout, branding: albumBranding });
+            const url = URL.createObjectURL(pdf);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = 'past-forward-album.pdf';
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error("Failed to create or download PDF album:", error);
+            alert("Sorry, there was an error creating your PDF. Please try again.");
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    const handleDownloadBundle = async () => {
+        if (!prepareAlbumData() || !uploadedImage) return;
+
+        setIsDownloading(true);
+        try {
+            const bundle = await createAlbumBundle({
+                sourceImage: uploadedImage,
+                decades: orderedDecades,
+                generatedImages,
+                exportImages: await withFilmLooks(albumImageData),
+                customCaptions,
+                subject,
+                layout: albumLayout,
+                branding: albumBranding,
+                model: getActiveModel(),
+            });
+            const url = URL.createObjectURL(bundle);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = 'past-forward-album.zip';
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error("Failed to create or download album bundle:", error);
+            alert("Sorry, there was an error packaging your album. Please try again.");
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    const createAnimation = async (imageData: Record<string, string>) => {
+        const { format, ...options } = animationSettings;
+        return createDecadeAnimation(format, await withFilmLooks(imageData), customCaptions, { ...options, groupName, branding: albumBranding });
+    };
+
+    const handleDownloadAnimation = async () => {
+        const imageData = prepareAlbumData();
+        if (!imageData) return;
+
+        setIsDownloading(true);
+        try {
+            const animation = await createAnimation(imageData);
+            const url = URL.createObjectURL(animation);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `past-forward-through-the-decades.${animationSettings.format}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error("Failed to create or download animation:", error);
+            alert(`Sorry, there was an error creating your animation. ${error instanceof Error ? error.message : ''}`.trim());
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    const handleShareAnimation = async () => {
+        const imageData = prepareAlbumData();
+        if (!imageData) return;
+
+        setIsDownloading(true);
+        try {
+            const animation = await createAnimation(imageData);
+            const file = new File([animation], `past-forward-through-the-decades.${animationSettings.format}`, { type: animation.type });
+
+            if (navigator.canShare && navigator.canShare({ files: [file] })) {
+                await navigator.share({
+                    files: [file],
+                    title: 'Through the decades with Past Forward',
+                    text: 'I traveled through time with Past Forward! Watch me go through the decades.',
+                });
+            } else {
+                console.error("This animation file can't be shared by the browser.");
+                alert("Your browser can't share this file. Try downloading it instead.");
+            }
+        } catch (error) {
+            if ((error as DOMException).name !== 'AbortError') {
+                console.error("Error sharing animation:", error);
+                alert("Sorry, there was an error preparing your animation for sharing.");
+            }
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
     const handleShareAlbum = async () => {
         const imageData = prepareAlbumData();
         if (!imageData) return;
 
         setIsDownloading(true); // Reuse isDownloading state to show loading on share button
         try {
-            const albumDataUrl = await createAlbumPage(imageData, customCaptions);
+            const albumDataUrl = await createAlbumPage(await withFilmLooks(imageData), customCaptions, { groupName, layout: albumLayout, branding: albumBranding });
 
             const decadesInAlbum = Object.keys(imageData);
-            const fileName = `past-forward-album-${decadesInAlbum[0]}-${decadesInAlbum[decadesInAlbum.length - 1]}.jpg`;
+            const fileName = `past-forward-album-${eraFileSlug(decadesInAlbum[0])}-${eraFileSlug(decadesInAlbum[decadesInAlbum.length - 1])}.jpg`;
             const shareTitle = `My Past Forward Album: ${decadesInAlbum[0]} - ${decadesInAlbum[decadesInAlbum.length - 1]}`;
 
             const file = await dataUrlToFile(albumDataUrl, fileName);
@@ -289,168 +737,360 @@ function App() {
         }
     };
 
+    const hasPendingWork = selectHasPendingWork(store.present);
+    const canUndo = selectCanUndo(store);
+    const canRedo = selectCanRedo(store);
+
+    // Text fields keep their own undo; everywhere else the shortcuts undo album changes.
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+            if (e.target instanceof HTMLInputElement && e.target.type !== 'range' && e.target.type !== 'checkbox') return;
+            if (e.target instanceof HTMLTextAreaElement) return;
+            e.preventDefault();
+            dispatch({ type: e.shiftKey ? 'redo' : 'undo' });
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, []);
+
+    const cardActions: CardActions = {
+        canShare,
+        onRegenerate: handleRegenerateDecade,
+        onRefine: handleRefine,
+        onCancel: handleCancelDecade,
+        onDownload: handleDownloadIndividualImage,
+        onShare: handleShareIndividualImage,
+        onOpen: (decade, versionIndex) => setLightbox({ decade, versionIndex }),
+        onOpenContactSheet: setContactSheetDecade,
+    };
 
     return (
-        <main className="bg-black text-neutral-200 min-h-screen w-full flex flex-col items-center justify-center p-4 pb-24 overflow-hidden relative">
-            <div className="absolute top-0 left-0 w-full h-full bg-grid-white/[0.05]"></div>
-            
-            <div className="z-10 flex flex-col items-center justify-center w-full h-full flex-1 min-h-0">
-                <div className="text-center mb-10">
-                    <h1 className="text-6xl md:text-8xl font-caveat font-bold text-neutral-100">Past Forward</h1>
-                    <p className="font-permanent-marker text-neutral-300 mt-2 text-xl tracking-wide">Generate yourself through the decades.</p>
-                </div>
-
-                {appState === 'idle' && (
-                     <div className="relative flex flex-col items-center justify-center w-full">
-                        {/* Ghost polaroids for intro animation */}
-                        {GHOST_POLAROIDS_CONFIG.map((config, index) => (
-                             <motion.div
-                                key={index}
-                                className="absolute w-80 h-[26rem] rounded-md p-4 bg-neutral-100/10 blur-sm"
-                                initial={config.initial}
-                                animate={{
-                                    x: "0%", y: "0%", rotate: (Math.random() - 0.5) * 20,
-                                    scale: 0,
-                                    opacity: 0,
-                                }}
-                                transition={{
-                                    ...config.transition,
-                                    ease: "circOut",
-                                    duration: 2,
-                                }}
-                            />
-                        ))}
-                        <motion.div
-                             initial={{ opacity: 0, scale: 0.8 }}
-                             animate={{ opacity: 1, scale: 1 }}
-                             transition={{ delay: 2, duration: 0.8, type: 'spring' }}
-                             className="flex flex-col items-center"
-                        >
-                            <label htmlFor="file-upload" className="cursor-pointer group transform hover:scale-105 transition-transform duration-300">
-                                 <PolaroidCard 
-                                     caption="Click to begin"
-                                     status="done"
-                                 />
-                            </label>
-                            <input id="file-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleImageUpload} />
-                            <p className="mt-8 font-permanent-marker text-neutral-500 text-center max-w-xs text-lg">
-                                Click the polaroid to upload your photo and start your journey through time.
-                            </p>
-                        </motion.div>
-                    </div>
-                )}
-
-                {appState === 'image-uploaded' && uploadedImage && (
-                    <div className="flex flex-col items-center gap-6">
-                         <PolaroidCard 
-                            imageUrl={uploadedImage} 
-                            caption="Your Photo" 
-                            status="done"
-                         />
-                         <div className="flex items-center gap-4 mt-4">
-                            <button onClick={handleReset} className={secondaryButtonClasses}>
-                                Different Photo
+        <AppStoreContext.Provider value={{ store, dispatch }}>
+            <CardActionsContext.Provider value={cardActions}>
+                <main className="bg-black text-neutral-200 min-h-screen w-full flex flex-col items-center justify-center p-4 pb-24 overflow-hidden relative">
+                    <div className="absolute top-0 left-0 w-full h-full bg-grid-white/[0.05]"></div>
+
+                    {appState !== 'generating' && (
+                        <div className="absolute top-4 right-4 z-20 flex gap-2">
+                            {(canUndo || canRedo) && (
+                                <>
+                                    <button
+                                        onClick={() => dispatch({ type: 'undo' })}
+                                        disabled={!canUndo}
+                                        className={`${toolbarButtonClasses} disabled:opacity-40 disabled:pointer-events-none`}
+                                        title={canUndo ? `Undo ${selectUndoLabel(store)} (Ctrl+Z)` : undefined}
+                                    >
+                                        Undo
+                                    </button>
+                                    <button
+                                        onClick={() => dispatch({ type: 'redo' })}
+                                        disabled={!canRedo}
+                                        className={`${toolbarButtonClasses} disabled:opacity-40 disabled:pointer-events-none`}
+                                        title={canRedo ? `Redo ${selectRedoLabel(store)} (Ctrl+Shift+Z)` : undefined}
+                                    >
+                                        Redo
+                                    </button>
+                                </>
+                            )}
+                            <button onClick={() => setShowPromptSettings(true)} className={toolbarButtonClasses}>
+                                Prompt Settings
                             </button>
-                            <button onClick={handleGenerateClick} className={primaryButtonClasses}>
-                                Generate
+                            <button onClick={() => setShowAlbums(true)} className={toolbarButtonClasses}>
+                                My Albums
                             </button>
-                         </div>
-                    </div>
-                )}
-
-                {(appState === 'generating' || appState === 'results-shown') && (
-                     <>
-                        {isMobile ? (
-                            <div className="w-full max-w-sm flex-1 overflow-y-auto mt-4 space-y-8 p-4">
-                                {DECADES.map((decade) => (
-                                    <div key={decade} className="flex justify-center">
-                                         <PolaroidCard
-                                            caption={decade}
-                                            status={generatedImages[decade]?.status || 'pending'}
-                                            imageUrl={generatedImages[decade]?.url}
-                                            error={generatedImages[decade]?.error}
-                                            onShake={handleRegenerateDecade}
-                                            onDownload={handleDownloadIndividualImage}
-                                            onShare={handleShareIndividualImage}
-                                            canShare={canShare}
-                                            isMobile={isMobile}
-                                            customCaption={customCaptions[decade]}
-                                            onCaptionChange={handleCaptionChange}
-                                        />
-                                    </div>
+                            {uploadedImage && (
+                                <button onClick={handleSaveProject} disabled={isDownloading} className={`${toolbarButtonClasses} disabled:opacity-40 disabled:pointer-events-none`}>
+                                    Save Project
+                                </button>
+                            )}
+                            <label className={`${toolbarButtonClasses} cursor-pointer`}>
+                                Open Project
+                                <input type="file" className="hidden" accept={PROJECT_FILE_EXTENSION} onChange={handleOpenProject} />
+                            </label>
+                        </div>
+                    )}
+                    {showAlbums && (
+                        <AlbumsGallery
+                            currentSessionId={sessionId}
+                            onOpen={handleOpenSession}
+                            onDeleted={handleSessionDeleted}
+                            onClose={() => setShowAlbums(false)}
+                        />
+                    )}
+                    {contactSheetDecade && generatedImages[contactSheetDecade] && (
+                        <ContactSheet
+                            caption={contactSheetDecade}
+                            urls={generatedImages[contactSheetDecade].attempts.map(attempt => attempt.url)}
+                            selectedIndex={generatedImages[contactSheetDecade].selectedIndex}
+                            pendingCount={generatedImages[contactSheetDecade].pendingCount}
+                            onSelect={(index) => handleSelectVersion(contactSheetDecade, index)}
+                            onClose={() => setContactSheetDecade(null)}
+                        />
+                    )}
+                    {lightbox && (
+                        <Lightbox
+                            items={orderedDecades.map(decade => ({
+                                caption: decade,
+                                url: (decade === lightbox.decade && lightbox.versionIndex !== undefined
+                                    ? generatedImages[decade]?.attempts[lightbox.versionIndex]?.url
+                                    : undefined) ?? getSelectedUrl(generatedImages[decade]),
+                                status: generatedImages[decade]?.status || 'pending',
+                            }))}
+                            index={orderedDecades.indexOf(lightbox.decade)}
+                            originalUrl={uploadedImage ?? undefined}
+                            onNavigate={(index) => setLightbox({ decade: orderedDecades[index] })}
+                            onClose={() => setLightbox(null)}
+                            onDownload={handleDownloadIndividualImage}
+                            onShare={handleShareIndividualImage}
+                            canShare={canShare}
+                            onRegenerate={handleRegenerateDecade}
+                        />
+                    )}
+                    {showAlbumDesigner && (
+                        <AlbumDesigner
+                            imageData={designerImageData ?? albumImageData}
+                            customCaptions={customCaptions}
+                            groupName={groupName}
+                            layout={albumLayout}
+                            branding={albumBranding}
+                            onBrandingChange={handleAlbumBrandingChange}
+                            onLayoutChange={handleAlbumLayoutChange}
+                            onDownload={handleDownloadAlbum}
+                            onDownloadPdf={handleDownloadPdf}
+                            onShare={canShare ? handleShareAlbum : undefined}
+                            animationSettings={animationSettings}
+                            onAnimationSettingsChange={setAnimationSettings}
+                            onDownloadAnimation={handleDownloadAnimation}
+                            onShareAnimation={canShare ? handleShareAnimation : undefined}
+                            isBusy={isDownloading}
+                            onClose={() => setShowAlbumDesigner(false)}
+                        />
+                    )}
+
+                    {showCropper && sourceImage && (
+                        <ImageCropper
+                            imageUrl={sourceImage}
+                            onApply={handleApplyCrop}
+                            onClose={() => setShowCropper(false)}
+                        />
+                    )}
+
+                    {showPromptSettings && (
+                        <PromptSettings
+                            selection={promptSelection}
+                            eras={eras}
+                            subject={subject}
+                            onChange={handlePromptSelectionChange}
+                            onClose={() => setShowPromptSettings(false)}
+                        />
+                    )}
+            
+                    <div className="z-10 flex flex-col items-center justify-center w-full h-full flex-1 min-h-0">
+                        <div className="text-center mb-10">
+                            <h1 className="text-6xl md:text-8xl font-caveat font-bold text-neutral-100">Past Forward</h1>
+                            <p className="font-permanent-marker text-neutral-300 mt-2 text-xl tracking-wide">Generate yourself through the decades.</p>
+                        </div>
+
+                        {appState === 'idle' && (
+                             <div className="relative flex flex-col items-center justify-center w-full">
+                                {/* Ghost polaroids for intro animation */}
+                                {GHOST_POLAROIDS_CONFIG.map((config, index) => (
+                                     <motion.div
+                                        key={index}
+                                        className="absolute w-80 h-[26rem] rounded-md p-4 bg-neutral-100/10 blur-sm"
+                                        initial={config.initial}
+                                        animate={{
+                                            x: "0%", y: "0%", rotate: (Math.random() - 0.5) * 20,
+                                            scale: 0,
+                                            opacity: 0,
+                                        }}
+                                        transition={{
+                                            ...config.transition,
+                                            ease: "circOut",
+                                            duration: 2,
+                                        }}
+                                    />
                                 ))}
+                                <motion.div
+                                     initial={{ opacity: 0, scale: 0.8 }}
+                                     animate={{ opacity: 1, scale: 1 }}
+                                     transition={{ delay: 2, duration: 0.8, type: 'spring' }}
+                                     className="flex flex-col items-center"
+                                >
+                                    <label htmlFor="file-upload" className="cursor-pointer group transform hover:scale-105 transition-transform duration-300">
+                                         <PolaroidCard 
+                                             caption="Click to begin"
+                                             status="done"
+                                         />
+                                    </label>
+                                    <input id="file-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp" multiple onChange={handleImageUpload} />
+                                    <p className="mt-8 font-permanent-marker text-neutral-500 text-center max-w-xs text-lg">
+                                        Click the polaroid to upload your photo and start your journey through time. Pick up to {MAX_REFERENCE_PHOTOS} photos of the same person for a closer likeness.
+                                    </p>
+                                </motion.div>
                             </div>
-                        ) : (
-                            <Reorder.Group
-                                as="div"
-                                axis="x"
-                                values={orderedDecades}
-                                onReorder={setOrderedDecades}
-                                className="w-full max-w-6xl h-auto py-8 grid grid-cols-2 lg:grid-cols-3 gap-x-4 gap-y-12 place-items-center"
-                            >
-                                {orderedDecades.map((decade) => {
-                                    const originalIndex = DECADES.indexOf(decade);
-                                    const { rotate } = POSITIONS[originalIndex];
-                                    return (
-                                        <Reorder.Item
-                                            key={decade}
-                                            value={decade}
-                                            className="cursor-grab active:cursor-grabbing relative z-10 hover:z-20"
-                                            style={{ rotate: `${rotate}deg` }}
-                                            initial={{ opacity: 0, scale: 0.5, y: 100 }}
-                                            animate={{ opacity: 1, scale: 1, y: 0 }}
-                                            transition={{ type: 'spring', stiffness: 100, damping: 20, delay: originalIndex * 0.1 }}
-                                            whileDrag={{ scale: 1.1, zIndex: 30, rotate: `${rotate}deg`}}
-                                        >
-                                            <PolaroidCard 
-                                                enableDragging={false}
-                                                caption={decade}
-                                                status={generatedImages[decade]?.status || 'pending'}
-                                                imageUrl={generatedImages[decade]?.url}
-                                                error={generatedImages[decade]?.error}
-                                                onShake={handleRegenerateDecade}
-                                                onDownload={handleDownloadIndividualImage}
-                                                onShare={handleShareIndividualImage}
-                                                canShare={canShare}
-                                                isMobile={isMobile}
-                                                customCaption={customCaptions[decade]}
-                                                onCaptionChange={handleCaptionChange}
-                                            />
-                                        </Reorder.Item>
-                                    );
-                                })}
-                            </Reorder.Group>
                         )}
-                         <div className="h-20 mt-4 flex items-center justify-center">
-                            {appState === 'results-shown' && (
-                                <div className="flex flex-col sm:flex-row items-center gap-4">
-                                    <button 
-                                        onClick={handleDownloadAlbum} 
-                                        disabled={isDownloading} 
+
+                        {appState === 'image-uploaded' && uploadedImage && (
+                            <div className="flex flex-col items-center gap-6">
+                                 <PolaroidCard 
+                                    imageUrl={uploadedImage} 
+                                    caption="Your Photo" 
+                                    status="done"
+                                    onCrop={() => setShowCropper(true)}
+                                 />
+                                 <ReferenceStack
+                                    images={referenceImages}
+                                    max={MAX_REFERENCE_PHOTOS - 1}
+                                    onAdd={handleAddReferences}
+                                    onRemove={handleRemoveReference}
+                                 />
+                                 <SubjectPicker subject={subject} onChange={(subject) => dispatch({ type: 'subjectChanged', subject })} />
+                                 <EraPicker eras={eras} onChange={(eras) => dispatch({ type: 'erasChanged', eras })} />
+                                 <div className="flex items-center gap-2 text-sm text-neutral-400">
+                                    <span>Candidates per era</span>
+                                    {CANDIDATE_COUNTS.map(count => (
+                                        <button
+                                            key={count}
+                                            onClick={() => setCandidateCount(count)}
+                                            className={`w-8 h-8 rounded-sm font-permanent-marker ${count === candidateCount ? 'bg-yellow-400 text-black' : 'border border-white/30 text-neutral-300 hover:bg-white hover:text-black'}`}
+                                            aria-pressed={count === candidateCount}
+                                        >
+                                            {count}
+                                        </button>
+                                    ))}
+                                 </div>
+                                 <label className="flex items-center gap-2 text-sm text-neutral-400 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={useCache}
+                                        onChange={e => setUseCache(e.target.checked)}
+                                        className="accent-yellow-400"
+                                    />
+                                    Reuse cached results
+                                 </label>
+                                 <label className="flex items-center gap-2 text-sm text-neutral-400 cursor-pointer" title="Generates one era at a time, which takes longer.">
+                                    <input
+                                        type="checkbox"
+                                        checked={chainMode}
+                                        onChange={e => setChainMode(e.target.checked)}
+                                        className="accent-yellow-400"
+                                    />
+                                    Chain eras (each era also sees the previous era's result)
+                                 </label>
+                                 <div className="flex items-center gap-4 mt-4">
+                                    <button onClick={handleReset} className={secondaryButtonClasses}>
+                                        Different Photo
+                                    </button>
+                                    <button
+                                        onClick={handleGenerateClick}
+                                        disabled={eras.length === 0}
                                         className={`${primaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
                                     >
-                                        {isDownloading ? 'Creating...' : 'Download Album'}
+                                        Generate
                                     </button>
-                                     {canShare && (
-                                        <button 
-                                            onClick={handleShareAlbum} 
-                                            disabled={isDownloading} 
-                                            className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
-                                        >
-                                            {isDownloading ? 'Preparing...' : 'Share Album'}
+                                 </div>
+                            </div>
+                        )}
+
+                        {(appState === 'generating' || appState === 'results-shown') && (
+                             <>
+                                {isMobile ? (
+                                    <div className="w-full max-w-sm flex-1 overflow-y-auto mt-4 space-y-8 p-4">
+                                        {orderedDecades.map((decade) => (
+                                            <div key={decade} className="flex justify-center">
+                                                 <PolaroidCard
+                                                    decade={decade}
+                                                    isMobile={isMobile}
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <Reorder.Group
+                                        as="div"
+                                        axis="x"
+                                        values={orderedDecades}
+                                        onReorder={(order) => dispatch({ type: 'reordered', order })}
+                                        className="w-full max-w-6xl h-auto py-8 grid grid-cols-2 lg:grid-cols-3 gap-x-4 gap-y-12 place-items-center"
+                                    >
+                                        {orderedDecades.map((decade) => {
+                                            const originalIndex = Math.max(0, eras.findIndex(era => era.id === decade));
+                                            const rotate = CARD_ROTATIONS[originalIndex % CARD_ROTATIONS.length];
+                                            return (
+                                                <Reorder.Item
+                                                    key={decade}
+                                                    value={decade}
+                                                    className="cursor-grab active:cursor-grabbing relative z-10 hover:z-20"
+                                                    style={{ rotate: `${rotate}deg` }}
+                                                    initial={{ opacity: 0, scale: 0.5, y: 100 }}
+                                                    animate={{ opacity: 1, scale: 1, y: 0 }}
+                                                    transition={{ type: 'spring', stiffness: 100, damping: 20, delay: originalIndex * 0.1 }}
+                                                    whileDrag={{ scale: 1.1, zIndex: 30, rotate: `${rotate}deg`}}
+                                                >
+                                                    <PolaroidCard
+                                                        enableDragging={false}
+                                                        decade={decade}
+                                                        isMobile={isMobile}
+                                                    />
+                                                </Reorder.Item>
+                                            );
+                                        })}
+                                    </Reorder.Group>
+                                )}
+                                 <div className="mt-4 flex justify-center">
+                                    <GenerationProgress />
+                                 </div>
+                                 <div className="h-20 mt-4 flex items-center justify-center">
+                                    {appState === 'generating' && hasPendingWork && (
+                                        <button onClick={handleCancelAll} className={secondaryButtonClasses}>
+                                            Cancel All
                                         </button>
                                     )}
-                                    <button onClick={handleReset} className={secondaryButtonClasses}>
-                                        Start Over
-                                    </button>
+                                    {appState === 'results-shown' && (
+                                        <div className="flex flex-col sm:flex-row items-center gap-4">
+                                            {hasPendingWork && (
+                                                <button onClick={handleCancelAll} className={secondaryButtonClasses}>
+                                                    Cancel All
+                                                </button>
+                                            )}
+                                            <button 
+                                                onClick={handleOpenAlbumDesigner} 
+                                                disabled={isDownloading} 
+                                                className={`${primaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                            >
+                                                {isDownloading ? 'Creating...' : 'Download Album'}
+                                            </button>
+                                            <button
+                                                onClick={handleDownloadBundle}
+                                                disabled={isDownloading}
+                                                className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                            >
+                                                {isDownloading ? 'Preparing...' : 'Download Everything'}
+                                            </button>
+                                             {canShare && (
+                                                <button 
+                                                    onClick={handleShareAlbum} 
+                                                    disabled={isDownloading} 
+                                                    className={`${secondaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                                >
+                                                    {isDownloading ? 'Preparing...' : 'Share Album'}
+                                                </button>
+                                            )}
+                                            <button onClick={handleReset} className={secondaryButtonClasses}>
+                                                Start Over
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
-                            )}
-                        </div>
-                    </>
-                )}
-            </div>
-            <Footer />
-        </main>
+                            </>
+                        )}
+                    </div>
+                    <Footer />
+                </main>
+            </CardActionsContext.Provider>
+        </AppStoreContext.Provider>
     );
 }
 
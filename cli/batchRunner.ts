@@ -0,0 +1,336 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createAlbumPage, dataUrlToBytes } from '../lib/albumUtils';
+import { eraFileSlug, type Era } from '../lib/eras';
+import { preprocessImageData } from '../lib/imagePreprocessing';
+import { DEFAULT_PROMPT_SELECTION, renderPrompt, resolvePromptSelection } from '../lib/promptTemplates';
+import { isAbortError } from '../lib/utils';
+import { toGenerationError } from '../services/errors';
+import { generateDecadeImage, getActiveModel } from '../services/geminiService';
+import type { GenerationFailure } from '../types';
+import type { BatchOptions } from './options';
+
+const REPORT_VERSION = 1;
+const REPORT_FILE = 'report.json';
+const ALBUM_FILE = 'album.jpg';
+
+const MIME_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.webp': 'image/webp',
+};
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+};
+
+export interface EraReport {
+    era: string;
+    period: string;
+    region?: string;
+    status: 'done' | 'failed';
+    /** The generated image, relative to the portrait's folder. */
+    file?: string;
+    model?: string;
+    templateId: string;
+    templateVersion: number;
+    prompt: string;
+    generatedAt: string;
+    durationMs: number;
+    error?: GenerationFailure;
+}
+
+export interface PortraitReport {
+    version: number;
+    source: string;
+    /** SHA-256 of the source file. A changed file is processed again from scratch. */
+    sourceHash: string;
+    status: 'done' | 'partial' | 'failed';
+    eras: EraReport[];
+    album?: string;
+    /** Why the album page couldn't be drawn, when the eras themselves were generated. */
+    albumError?: string;
+    /** Why the portrait couldn't be processed at all, e.g. an unreadable file. */
+    error?: string;
+    updatedAt: string;
+}
+
+export interface BatchSummary {
+    version: number;
+    startedAt: string;
+    finishedAt: string;
+    provider: string;
+    /** Left out of dry runs, which never set up the provider. */
+    model?: string;
+    input: string;
+    eras: string[];
+    portraits: {
+        source: string;
+        folder: string;
+        status: PortraitReport['status'] | 'skipped';
+        done: number;
+        failed: number;
+        error?: string;
+    }[];
+}
+
+interface Portrait {
+    source: string;
+    filePath: string;
+    /** Where this portrait's results go, inside the output folder. */
+    folder: string;
+}
+
+/** Writes through a temporary file, so a crash never leaves a half-written file behind. */
+async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+    const temporary = `${filePath}.tmp`;
+    await writeFile(temporary, data);
+    await rename(temporary, filePath);
+}
+
+async function readReport(folder: string): Promise<PortraitReport | null> {
+    try {
+        const report = JSON.parse(await readFile(path.join(folder, REPORT_FILE), 'utf8')) as PortraitReport;
+        return report.version === REPORT_VERSION ? report : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Finds the portraits in the input folder, in name order. Each gets its own
+ * output folder named after the file.
+ */
+async function findPortraits(inputDir: string, outputDir: string): Promise<Portrait[]> {
+    const names = (await readdir(inputDir)).filter(name => MIME_TYPES[path.extname(name).toLowerCase()]).sort();
+    const usedFolders = new Set<string>();
+    return names.map(name => {
+        const base = eraFileSlug(path.parse(name).name) || 'portrait';
+        let folder = base;
+        // "me.jpg" and "me.png" would otherwise share a folder.
+        for (let suffix = 2; usedFolders.has(folder); suffix++) {
+            folder = `${base}-${suffix}`;
+        }
+        usedFolders.add(folder);
+        return { source: name, filePath: path.join(inputDir, name), folder: path.join(outputDir, folder) };
+    });
+}
+
+/** The eras from an earlier run that are finished and still have their image on disk. */
+function finishedEras(report: PortraitReport | null, sourceHash: string, folder: string): Map<string, EraReport> {
+    if (!report || report.sourceHash !== sourceHash) return new Map();
+    return new Map(report.eras
+        .filter(era => era.status === 'done' && era.file && existsSync(path.join(folder, era.file)))
+        .map(era => [era.era, era]));
+}
+
+function mimeTypeOf(file: string): string {
+    return MIME_TYPES[path.extname(file).toLowerCase()];
+}
+
+/** The report for a portrait that couldn't be processed at all. */
+function failedPortrait(portrait: Portrait, sourceHash: string, error: string): PortraitReport {
+    console.warn(`  ${portrait.source}: ${error}`);
+    return {
+        version: REPORT_VERSION,
+        source: portrait.source,
+        sourceHash,
+        status: 'failed',
+        eras: [],
+        error,
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+async function processPortrait(portrait: Portrait, options: BatchOptions, signal: AbortSignal): Promise<PortraitReport> {
+    let bytes: Buffer;
+    try {
+        bytes = await readFile(portrait.filePath);
+    } catch (error) {
+        // One unreadable file shouldn't stop the rest of the batch.
+        return failedPortrait(portrait, '', `The file could not be read: ${error instanceof Error ? error.message : error}`);
+    }
+    const sourceHash = createHash('sha256').update(bytes).digest('hex');
+    let imageDataUrl: string;
+    try {
+        // The same upright, resized and re-encoded photo the app would send for this file.
+        imageDataUrl = (await preprocessImageData(`data:${mimeTypeOf(portrait.source)};base64,${bytes.toString('base64')}`)).dataUrl;
+    } catch (error) {
+        return failedPortrait(portrait, sourceHash, error instanceof Error ? error.message : String(error));
+    }
+    const previous = finishedEras(await readReport(portrait.folder), sourceHash, portrait.folder);
+    const template = resolvePromptSelection(DEFAULT_PROMPT_SELECTION);
+
+    await mkdir(portrait.folder, { recursive: true });
+    const results = new Map<string, EraReport>(previous);
+
+    // Eras finish in any order; reports are written one at a time, in era order.
+    let pendingWrite = Promise.resolve();
+    const saveReport = (extra: Partial<PortraitReport> = {}) => {
+        const eras = options.eras.map(era => results.get(era.id)).filter((era): era is EraReport => Boolean(era));
+        const failed = eras.filter(era => era.status === 'failed').length;
+        const report: PortraitReport = {
+            version: REPORT_VERSION,
+            source: portrait.source,
+            sourceHash,
+            status: failed === 0 && eras.length === options.eras.length ? 'done' : failed === options.eras.length ? 'failed' : 'partial',
+            eras,
+            updatedAt: new Date().toISOString(),
+            ...extra,
+        };
+        pendingWrite = pendingWrite.then(() => writeFileAtomic(path.join(portrait.folder, REPORT_FILE), JSON.stringify(report, null, 2)));
+        return pendingWrite.then(() => report);
+    };
+
+    await Promise.all(options.eras.map(async (era: Era, index) => {
+        if (results.has(era.id)) return;
+        const prompt = renderPrompt(template, era);
+        const startedAt = Date.now();
+        const base = {
+            era: era.id,
+            period: era.period,
+            region: era.region,
+            templateId: prompt.templateId,
+            templateVersion: prompt.templateVersion,
+            prompt: prompt.text,
+        };
+        try {
+            const url = await generateDecadeImage(imageDataUrl, prompt, era, { signal });
+            const { mimeType, bytes: imageBytes } = dataUrlToBytes(url);
+            const file = `${String(index + 1).padStart(2, '0')}-${eraFileSlug(era.id)}.${EXTENSIONS[mimeType] ?? 'png'}`;
+            await writeFileAtomic(path.join(portrait.folder, file), imageBytes);
+            results.set(era.id, {
+                ...base,
+                status: 'done',
+                file,
+                model: getActiveModel(),
+                generatedAt: new Date().toISOString(),
+                durationMs: Date.now() - startedAt,
+            });
+            console.log(`  ${portrait.source} · ${era.id}: done`);
+        } catch (error) {
+            // A cancelled era isn't a failure; the next run picks it up again.
+            if (signal.aborted || isAbortError(error)) return;
+            const failure = toGenerationError(error).toFailure();
+            results.set(era.id, {
+                ...base,
+                status: 'failed',
+                generatedAt: new Date().toISOString(),
+                durationMs: Date.now() - startedAt,
+                error: failure,
+            });
+            console.warn(`  ${portrait.source} · ${era.id}: ${failure.title} (${failure.message})`);
+        }
+        await saveReport();
+    }));
+
+    const albumEras = options.eras
+        .map(era => results.get(era.id))
+        .filter((era): era is EraReport => era?.status === 'done');
+    if (albumEras.length === 0 || signal.aborted) {
+        return saveReport();
+    }
+    try {
+        // The album is drawn by the app's own renderer, from the images on disk so resumed eras are included.
+        const imageData: Record<string, string> = {};
+        for (const era of albumEras) {
+            const image = await readFile(path.join(portrait.folder, era.file!));
+            imageData[era.era] = `data:${mimeTypeOf(era.file!)};base64,${image.toString('base64')}`;
+        }
+        const album = await createAlbumPage(imageData, {});
+        await writeFileAtomic(path.join(portrait.folder, ALBUM_FILE), dataUrlToBytes(album).bytes);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`  ${portrait.source}: the album page could not be drawn (${message})`);
+        return saveReport({ status: 'partial', albumError: `The album page could not be drawn: ${message}` });
+    }
+    return saveReport({ album: ALBUM_FILE });
+}
+
+/**
+ * Runs a batch: generates every era for each portrait in the input folder and
+ * writes the images, an album page and a JSON report per portrait, plus a
+ * summary report for the whole batch. Finished eras from an earlier run of the
+ * same output folder are kept, so an interrupted batch can simply be re-run.
+ * @param options The parsed command-line options.
+ * @param signal Stops the batch, e.g. on Ctrl+C. Finished work is kept.
+ * @returns The summary report.
+ */
+export async function runBatch(options: BatchOptions, signal: AbortSignal): Promise<BatchSummary> {
+    const startedAt = new Date().toISOString();
+    const portraits = await findPortraits(options.inputDir, options.outputDir);
+    if (portraits.length === 0) {
+        console.warn(`No portraits found in ${options.inputDir}.`);
+    }
+
+    if (options.dryRun) {
+        for (const portrait of portraits) {
+            let hash: string;
+            try {
+                hash = createHash('sha256').update(await readFile(portrait.filePath)).digest('hex');
+            } catch (error) {
+                console.log(`${portrait.source}: could not be read (${error instanceof Error ? error.message : error})`);
+                continue;
+            }
+            const previous = finishedEras(await readReport(portrait.folder), hash, portrait.folder);
+            const todo = options.eras.filter(era => !previous.has(era.id)).map(era => era.id);
+            console.log(`${portrait.source} -> ${portrait.folder}: ${todo.length === 0 ? 'finished' : `would generate ${todo.join(', ')}`}`);
+        }
+    }
+
+    const summaries: BatchSummary['portraits'] = [];
+    if (!options.dryRun) {
+        await mkdir(options.outputDir, { recursive: true });
+        // Start a few portraits at once so the generation queue never runs dry between
+        // them, without holding every photo in memory.
+        let next = 0;
+        const worker = async () => {
+            while (next < portraits.length && !signal.aborted) {
+                const portrait = portraits[next++];
+                console.log(`Processing ${portrait.source}...`);
+                const report = await processPortrait(portrait, options, signal);
+                summaries.push({
+                    source: portrait.source,
+                    folder: path.relative(options.outputDir, portrait.folder),
+                    status: report.status,
+                    done: report.eras.filter(era => era.status === 'done').length,
+                    failed: report.eras.filter(era => era.status === 'failed').length,
+                    error: report.error ?? report.albumError,
+                });
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(options.concurrency, portraits.length) }, worker));
+    }
+
+    const summary: BatchSummary = {
+        version: REPORT_VERSION,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        provider: options.provider,
+        // Resolving the model sets up the provider, which needs its API key.
+        model: options.dryRun ? undefined : getActiveModel(),
+        input: path.resolve(options.inputDir),
+        eras: options.eras.map(era => era.id),
+        // Portraits not reached, e.g. after Ctrl+C or in a dry run, are listed as skipped.
+        portraits: portraits.map(portrait => summaries.find(entry => entry.source === portrait.source) ?? {
+            source: portrait.source,
+            folder: path.relative(options.outputDir, portrait.folder),
+            status: 'skipped',
+            done: 0,
+            failed: 0,
+        }),
+    };
+    if (!options.dryRun) {
+        await writeFileAtomic(path.join(options.outputDir, REPORT_FILE), JSON.stringify(summary, null, 2));
+    }
+    return summary;
+}
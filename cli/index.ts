@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import '../server/env';
+import { setCanvasBackend } from '../lib/canvasBackend';
+import { config } from '../services/config';
+import { generationScheduler } from '../services/generationScheduler';
+import { setImageProvider } from '../services/providers';
+import { createStandInProvider } from '../server/standInProvider';
+import { runBatch } from './batchRunner';
+import { createNodeCanvasBackend } from './nodeCanvas';
+import { parseBatchOptions, USAGE, UsageError } from './options';
+
+async function main() {
+    let options;
+    try {
+        options = parseBatchOptions(process.argv.slice(2));
+    } catch (error) {
+        if (!(error instanceof UsageError)) throw error;
+        console.error(`${error.message}\n\n${USAGE}`);
+        process.exitCode = 2;
+        return;
+    }
+    if (!options) {
+        console.log(USAGE);
+        return;
+    }
+
+    config.provider = options.provider;
+    // The browser's local provider draws on a canvas, which Node doesn't have.
+    if (options.provider === 'local') {
+        setImageProvider(createStandInProvider(config.localProviderDelayMs));
+    }
+    generationScheduler.setConcurrency(options.concurrency);
+    setCanvasBackend(createNodeCanvasBackend());
+
+    // The first Ctrl+C lets running generations be recorded as unfinished; a second one quits at once.
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        console.warn('\nStopping. Finished work is kept; run the same command again to resume.');
+        controller.abort();
+    });
+
+    const summary = await runBatch(options, controller.signal);
+    if (options.dryRun) return;
+    const count = (status: string) => summary.portraits.filter(portrait => portrait.status === status).length;
+    console.log(`\n${summary.portraits.length} portraits: ${count('done')} done, ${count('partial')} partial, ${count('failed')} failed, ${count('skipped')} skipped.`);
+    if (count('partial') + count('failed') > 0 || controller.signal.aborted) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch(error => {
+    console.error('Batch failed:', error);
+    process.exitCode = 1;
+});
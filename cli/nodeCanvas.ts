@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import type { CanvasBackend } from '../lib/canvasBackend';
+
+/**
+ * Creates a canvas backend for Node, so the batch runner draws album pages with
+ * the app's own renderer. The Google Fonts the app uses aren't installed here,
+ * so captions fall back to a system font.
+ * @returns The backend, for setCanvasBackend.
+ */
+export function createNodeCanvasBackend(): CanvasBackend {
+    return {
+        createCanvas(width, height) {
+            // The DOM types are what the renderer is written against; this canvas implements the parts it uses.
+            return createCanvas(width, height) as unknown as HTMLCanvasElement;
+        },
+        async loadImage(src) {
+            return await loadImage(src) as unknown as HTMLImageElement;
+        },
+    };
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { parseArgs } from 'node:util';
+import { createEra, DEFAULT_ERAS, parsePeriod, type Era } from '../lib/eras';
+import { config } from '../services/config';
+
+/** The providers the batch runner can use. 'server' is browser-only. */
+export type BatchProviderId = 'gemini' | 'local';
+
+export interface BatchOptions {
+    inputDir: string;
+    outputDir: string;
+    eras: Era[];
+    /** How many generations may run at once. */
+    concurrency: number;
+    provider: BatchProviderId;
+    /** List what would be generated without calling the model or writing anything. */
+    dryRun: boolean;
+}
+
+export const USAGE = `Usage: npm run batch -- --input <dir> [options]
+
+Generates every era for each portrait in a folder, plus an album page and a report.
+Re-running with the same output folder picks up where the last run stopped.
+
+Options:
+  -i, --input <dir>        Folder of portraits (.jpg, .jpeg, .png, .webp). Required.
+  -o, --output <dir>       Where results go. Default: batch-output
+  -e, --eras <list>        Comma-separated eras, with an optional region after a colon,
+                           e.g. "1950s,early 1980s,1970s:Tokyo". Default: 1950s to 2000s
+  -c, --concurrency <n>    Generations to run at once. Default: ${config.generationConcurrency}
+  -p, --provider <id>      gemini or local (an offline stand-in). Default: IMAGE_PROVIDER
+  -n, --dry-run            Show what would be generated, without generating anything.
+  -h, --help               Show this help.`;
+
+// The same limit as the era picker in the app.
+const MAX_REGION_LENGTH = 30;
+
+/** Thrown for bad command-line arguments; the message is shown with the usage text. */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+function parseEras(value: string): Era[] {
+    const eras = value.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+        const [periodText, region] = item.split(':').map(part => part.trim());
+        const parsed = parsePeriod(periodText);
+        if ('error' in parsed) {
+            throw new UsageError(`"${periodText}" is not an era. ${parsed.error}`);
+        }
+        if (region && region.length > MAX_REGION_LENGTH) {
+            throw new UsageError(`The region "${region}" is longer than ${MAX_REGION_LENGTH} characters.`);
+        }
+        return createEra(parsed.period, region || undefined);
+    });
+    if (eras.length === 0) {
+        throw new UsageError('--eras needs at least one era.');
+    }
+    if (new Set(eras.map(era => era.id)).size !== eras.length) {
+        throw new UsageError('--eras lists the same era more than once.');
+    }
+    return eras;
+}
+
+function parseProvider(value: string | undefined): BatchProviderId {
+    const provider = value ?? config.provider;
+    if (provider === 'gemini' || provider === 'local') {
+        return provider;
+    }
+    throw new UsageError(`Unknown provider "${provider}". Use gemini or local.`);
+}
+
+/**
+ * Reads the batch runner's command-line arguments.
+ * @param argv The arguments, without the node and script paths.
+ * @returns The options, or null if help was asked for.
+ * @throws UsageError if an argument is missing or invalid.
+ */
+export function parseBatchOptions(argv: string[]): BatchOptions | null {
+    let values;
+    try {
+        ({ values } = parseArgs({
+            args: argv,
+            options: {
+                input: { type: 'string', short: 'i' },
+                output: { type: 'string', short: 'o', default: 'batch-output' },
+                eras: { type: 'string', short: 'e' },
+                concurrency: { type: 'string', short: 'c' },
+                provider: { type: 'string', short: 'p' },
+                'dry-run': { type: 'boolean', short: 'n', default: false },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        }));
+    } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+
+    if (values.help) return null;
+    if (!values.input) {
+        throw new UsageError('--input is required.');
+    }
+
+    const concurrency = Number(values.concurrency ?? config.generationConcurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new UsageError('--concurrency must be a whole number of at least 1.');
+    }
+
+    return {
+        inputDir: values.input,
+        outputDir: values.output,
+        eras: values.eras ? parseEras(values.eras) : DEFAULT_ERAS,
+        concurrency,
+        provider: parseProvider(values.provider),
+        dryRun: values['dry-run'],
+    };
+}
@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+    createAlbumPage,
+    type AnimationCaptionStyle,
+    type AnimationFormat,
+    type AnimationOptions,
+    type AnimationTransition,
+} from '../lib/albumUtils';
+import { ALBUM_TEMPLATES, PAGE_SIZES, getPageSize, type AlbumLayoutSelection } from '../lib/albumLayouts';
+import type { AlbumBranding } from '../lib/albumBranding';
+import { cn } from '../lib/utils';
+import BrandingSettings from './BrandingSettings';
+
+export interface AnimationSettings extends Required<Pick<AnimationOptions, 'frameDurationMs' | 'transition' | 'caption'>> {
+    format: AnimationFormat;
+}
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = {
+    format: 'gif',
+    frameDurationMs: 1200,
+    transition: 'crossfade',
+    caption: 'banner',
+};
+
+const FRAME_DURATIONS = [800, 1200, 2000, 3000];
+const TRANSITIONS: { id: AnimationTransition; name: string }[] = [
+    { id: 'cut', name: 'Cut' },
+    { id: 'crossfade', name: 'Crossfade' },
+    { id: 'morph', name: 'Morph' },
+];
+const CAPTION_STYLES: { id: AnimationCaptionStyle; name: string }[] = [
+    { id: 'banner', name: 'Banner' },
+    { id: 'polaroid', name: 'Polaroid' },
+    { id: 'none', name: 'None' },
+];
+
+interface AlbumDesignerProps {
+    imageData: Record<string, string>;
+    customCaptions: Record<string, string>;
+    groupName?: string;
+    layout: AlbumLayoutSelection;
+    onLayoutChange: (layout: AlbumLayoutSelection) => void;
+    /** Applied to the album page and every other export. */
+    branding: AlbumBranding;
+    onBrandingChange: (branding: AlbumBranding) => void;
+    onDownload: () => void;
+    /** Downloads a multi-page PDF: cover, one page per era and a timeline. */
+    onDownloadPdf: () => void;
+    onShare?: () => void;
+    animationSettings: AnimationSettings;
+    onAnimationSettingsChange: (settings: AnimationSettings) => void;
+    onDownloadAnimation: () => void;
+    onShareAnimation?: () => void;
+    isBusy: boolean;
+    onClose: () => void;
+}
+
+// The preview only needs to be legible at modal size.
+const PREVIEW_SCALE = 0.2;
+
+const AlbumDesigner: React.FC<AlbumDesignerProps> = ({ imageData, customCaptions, groupName, layout, onLayoutChange, branding, onBrandingChange, onDownload, onDownloadPdf, onShare, animationSettings, onAnimationSettingsChange, onDownloadAnimation, onShareAnimation, isBusy, onClose }) => {
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [previewError, setPreviewError] = useState(false);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [onClose]);
+
+    useEffect(() => {
+        let isCurrent = true;
+        createAlbumPage(imageData, customCaptions, { groupName, layout, branding, scale: PREVIEW_SCALE })
+            .then(url => {
+                if (!isCurrent) return;
+                setPreviewUrl(url);
+                setPreviewError(false);
+            })
+            .catch(error => {
+                console.error("Failed to render album preview:", error);
+                if (isCurrent) setPreviewError(true);
+            });
+        return () => {
+            isCurrent = false;
+        };
+    }, [imageData, customCaptions, groupName, layout, branding]);
+
+    const page = getPageSize(layout.pageSize);
+    const updateAnimation = (changes: Partial<AnimationSettings>) => onAnimationSettingsChange({ ...animationSettings, ...changes });
+    const selectClasses = "bg-white/5 border border-white/20 rounded-sm px-3 py-2 text-neutral-200 focus:outline-none focus:ring-2 focus:ring-yellow-400";
+    const optionClasses = (active: boolean) => cn(
+        "px-3 py-1 rounded-sm text-left",
+        active ? 'bg-yellow-400 text-black' : 'border border-white/30 text-neutral-300 hover:bg-white hover:text-black',
+    );
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-4xl max-h-[90vh] overflow-y-auto flex flex-col gap-4 bg-neutral-900 border border-white/10 rounded-md p-6 shadow-2xl text-sm"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-label="Album designer"
+            >
+                <div className="flex items-center justify-between gap-4">
+                    <h2 className="font-caveat text-5xl font-bold text-neutral-100">Your Album</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white" aria-label="Close album designer">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="flex flex-col md:flex-row gap-6">
+                    <div className="flex flex-col gap-4 md:w-64 shrink-0">
+                        <div className="flex flex-col gap-2">
+                            <span className="text-neutral-400">Layout</span>
+                            {ALBUM_TEMPLATES.map(template => (
+                                <button
+                                    key={template.id}
+                                    onClick={() => onLayoutChange({ ...layout, template: template.id })}
+                                    className={optionClasses(template.id === layout.template)}
+                                    aria-pressed={template.id === layout.template}
+                                    title={template.description}
+                                >
+                                    {template.name}
+                                </button>
+                            ))}
+                        </div>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-neutral-400">Page size</span>
+                            <select
+                                value={layout.pageSize}
+                                onChange={(e) => onLayoutChange({ ...layout, pageSize: e.target.value as AlbumLayoutSelection['pageSize'] })}
+                                className={selectClasses}
+                            >
+                                {PAGE_SIZES.map(size => (
+                                    <option key={size.id} value={size.id} className="bg-neutral-900">{size.name}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+
+                    <div className="flex-1 flex items-center justify-center bg-black/40 border border-white/10 rounded-sm p-4 min-h-[20rem]">
+                        {previewError ? (
+                            <p className="text-red-400">The preview couldn't be rendered.</p>
+                        ) : previewUrl ? (
+                            <img
+                                src={previewUrl}
+                                alt="Album preview"
+                                className="max-h-[60vh] w-auto shadow-lg"
+                                style={{ aspectRatio: `${page.width} / ${page.height}` }}
+                            />
+                        ) : (
+                            <p className="text-neutral-500">Rendering preview...</p>
+                        )}
+                    </div>
+                </div>
+
+                <BrandingSettings branding={branding} onChange={onBrandingChange} />
+
+                <div className="flex flex-col gap-3 border-t border-white/10 pt-4">
+                    <span className="text-neutral-400">Through the decades animation</span>
+                    <div className="flex flex-wrap items-end gap-3">
+                        <label className="flex flex-col gap-1">
+                            <span className="text-neutral-500">Format</span>
+                            <select value={animationSettings.format} onChange={(e) => updateAnimation({ format: e.target.value as AnimationFormat })} className={selectClasses}>
+                                <option value="gif" className="bg-neutral-900">GIF</option>
+                                <option value="webm" className="bg-neutral-900">WebM video</option>
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-neutral-500">Each era</span>
+                            <select value={animationSettings.frameDurationMs} onChange={(e) => updateAnimation({ frameDurationMs: Number(e.target.value) })} className={selectClasses}>
+                                {FRAME_DURATIONS.map(ms => (
+                                    <option key={ms} value={ms} className="bg-neutral-900">{ms / 1000}s</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-neutral-500">Transition</span>
+                            <select value={animationSettings.transition} onChange={(e) => updateAnimation({ transition: e.target.value as AnimationTransition })} className={selectClasses}>
+                                {TRANSITIONS.map(transition => (
+                                    <option key={transition.id} value={transition.id} className="bg-neutral-900">{transition.name}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-neutral-500">Caption</span>
+                            <select value={animationSettings.caption} onChange={(e) => updateAnimation({ caption: e.target.value as AnimationCaptionStyle })} className={selectClasses}>
+                                {CAPTION_STYLES.map(style => (
+                                    <option key={style.id} value={style.id} className="bg-neutral-900">{style.name}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <div className="flex gap-3 ml-auto">
+                            {onShareAnimation && (
+                                <button
+                                    onClick={onShareAnimation}
+                                    disabled={isBusy}
+                                    className="px-4 py-2 rounded-sm border border-white/50 text-white hover:bg-white hover:text-black disabled:opacity-40"
+                                >
+                                    {isBusy ? 'Preparing...' : 'Share Animation'}
+                                </button>
+                            )}
+                            <button
+                                onClick={onDownloadAnimation}
+                                disabled={isBusy}
+                                className="px-4 py-2 rounded-sm border border-white/50 text-white hover:bg-white hover:text-black disabled:opacity-40"
+                            >
+                                {isBusy ? 'Creating...' : 'Download Animation'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    {onShare && (
+                        <button
+                            onClick={onShare}
+                            disabled={isBusy}
+                            className="px-4 py-2 rounded-sm border border-white/50 text-white hover:bg-white hover:text-black disabled:opacity-40"
+                        >
+                            {isBusy ? 'Preparing...' : 'Share'}
+                        </button>
+                    )}
+                    <button
+                        onClick={onDownloadPdf}
+                        disabled={isBusy}
+                        className="px-4 py-2 rounded-sm border border-white/50 text-white hover:bg-white hover:text-black disabled:opacity-40"
+                    >
+                        {isBusy ? 'Creating...' : 'Download PDF'}
+                    </button>
+                    <button
+                        onClick={onDownload}
+                        disabled={isBusy}
+                        className="px-4 py-2 rounded-sm bg-yellow-400 text-black font-permanent-marker hover:bg-yellow-300 disabled:opacity-40"
+                    >
+                        {isBusy ? 'Creating...' : 'Download'}
+                    </button>
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default AlbumDesigner;
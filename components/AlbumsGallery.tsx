@@ -0,0 +1,238 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import {
+    listSessions,
+    renameSession,
+    deleteSession,
+    getStorageEstimate,
+    type SessionSummary,
+    type StorageEstimate,
+} from '../services/sessionStore';
+import { cn } from '../lib/utils';
+
+interface AlbumsGalleryProps {
+    currentSessionId: string | null;
+    onOpen: (id: string) => void;
+    onDeleted: (id: string) => void;
+    onClose: () => void;
+}
+
+function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+const QuotaIndicator = ({ estimate }: { estimate: StorageEstimate | null }) => {
+    if (!estimate) return null;
+    const percent = estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : 0;
+    return (
+        <div className="w-full text-xs text-neutral-400">
+            <div className="flex justify-between mb-1">
+                <span>Storage</span>
+                <span>{formatBytes(estimate.usage)} of {formatBytes(estimate.quota)} used</span>
+            </div>
+            <div className="h-1.5 w-full bg-white/10 rounded-full overflow-hidden">
+                <div
+                    className={cn("h-full rounded-full", percent > 80 ? 'bg-red-400' : 'bg-yellow-400')}
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+        </div>
+    );
+};
+
+const AlbumsGallery: React.FC<AlbumsGalleryProps> = ({ currentSessionId, onOpen, onDeleted, onClose }) => {
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+    const [query, setQuery] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            const [list, storage] = await Promise.all([listSessions(), getStorageEstimate()]);
+            setSessions(list);
+            setEstimate(storage);
+            setLoadError(null);
+        } catch (error) {
+            console.error("Failed to load saved albums:", error);
+            setLoadError("Your saved albums couldn't be loaded in this browser.");
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [onClose]);
+
+    const commitRename = async (id: string) => {
+        const name = draftName.trim();
+        setEditingId(null);
+        if (!name) return;
+        // Show the new name right away; put the old list back if it couldn't be saved.
+        const previous = sessions;
+        setSessions(previous.map(session => session.id === id ? { ...session, name } : session));
+        try {
+            await renameSession(id, name);
+        } catch (error) {
+            console.error("Failed to rename album:", error);
+            setSessions(previous);
+            alert("Sorry, there was an error renaming that album. Please try again.");
+            return;
+        }
+        refresh();
+    };
+
+    const handleDelete = async (session: SessionSummary) => {
+        if (!confirm(`Delete "${session.name}"? This can't be undone.`)) return;
+        const previous = sessions;
+        setSessions(previous.filter(other => other.id !== session.id));
+        try {
+            await deleteSession(session.id);
+        } catch (error) {
+            console.error("Failed to delete album:", error);
+            setSessions(previous);
+            alert("Sorry, there was an error deleting that album. Please try again.");
+            return;
+        }
+        onDeleted(session.id);
+        refresh();
+    };
+
+    const normalizedQuery = query.trim().toLowerCase();
+    const visibleSessions = normalizedQuery
+        ? sessions.filter(session => session.name.toLowerCase().includes(normalizedQuery))
+        : sessions;
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-3xl max-h-[85vh] flex flex-col gap-4 bg-neutral-900 border border-white/10 rounded-md p-6 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-label="My Albums"
+            >
+                <div className="flex items-center justify-between gap-4">
+                    <h2 className="font-caveat text-5xl font-bold text-neutral-100">My Albums</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white" aria-label="Close My Albums">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search albums..."
+                    className="w-full bg-white/5 border border-white/20 rounded-sm px-3 py-2 text-neutral-200 placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                />
+
+                <div className="flex-1 min-h-0 overflow-y-auto">
+                    {loadError && <p className="text-red-400 text-center py-8">{loadError}</p>}
+                    {!loadError && visibleSessions.length === 0 && (
+                        <p className="font-permanent-marker text-neutral-500 text-center py-8">
+                            {sessions.length === 0 ? 'No saved albums yet.' : 'No albums match your search.'}
+                        </p>
+                    )}
+                    <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {visibleSessions.map(session => (
+                            <li
+                                key={session.id}
+                                className={cn(
+                                    "flex gap-3 items-center p-2 rounded-sm bg-white/5 border",
+                                    session.id === currentSessionId ? 'border-yellow-400/70' : 'border-transparent'
+                                )}
+                            >
+                                <button
+                                    onClick={() => onOpen(session.id)}
+                                    className="flex-shrink-0 bg-neutral-100 p-1 pb-3 rounded-sm shadow -rotate-2 hover:rotate-0 transition-transform"
+                                    aria-label={`Open ${session.name}`}
+                                >
+                                    <img src={session.thumbnail} alt="" className="w-16 h-16 object-cover" />
+                                </button>
+                                <div className="flex-1 min-w-0">
+                                    {editingId === session.id ? (
+                                        <input
+                                            autoFocus
+                                            value={draftName}
+                                            onChange={(e) => setDraftName(e.target.value)}
+                                            onBlur={() => commitRename(session.id)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') commitRename(session.id);
+                                                if (e.key === 'Escape') {
+                                                    e.stopPropagation();
+                                                    setEditingId(null);
+                                                }
+                                            }}
+                                            className="w-full bg-transparent border-b border-yellow-400 text-neutral-100 focus:outline-none"
+                                            maxLength={60}
+                                        />
+                                    ) : (
+                                        <button
+                                            onClick={() => onOpen(session.id)}
+                                            className="block w-full text-left text-neutral-100 truncate hover:text-yellow-300"
+                                        >
+                                            {session.name}
+                                        </button>
+                                    )}
+                                    <p className="text-xs text-neutral-500">
+                                        {new Date(session.updatedAt).toLocaleString()} · {session.completedCount} photos
+                                    </p>
+                                </div>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={() => {
+                                            setEditingId(session.id);
+                                            setDraftName(session.name);
+                                        }}
+                                        className="p-2 text-neutral-400 hover:text-white"
+                                        aria-label={`Rename ${session.name}`}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                            <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                                        </svg>
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(session)}
+                                        className="p-2 text-neutral-400 hover:text-red-400"
+                                        aria-label={`Delete ${session.name}`}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                                            <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                                        </svg>
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+
+                <QuotaIndicator estimate={estimate} />
+            </motion.div>
+        </div>
+    );
+};
+
+export default AlbumsGallery;
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { createContext, useContext } from 'react';
+import { selectCard, type AppAction, type AppStore, type CardState } from '../lib/appStore';
+
+interface AppStoreValue {
+    store: AppStore;
+    dispatch: React.Dispatch<AppAction>;
+}
+
+/** What an era's card can ask the app to do that needs more than a state change, like generating or downloading. */
+export interface CardActions {
+    canShare: boolean;
+    onRegenerate: (decade: string) => void;
+    onRefine: (decade: string, versionIndex: number, instruction: string, keepLikeness: boolean) => Promise<void>;
+    onCancel: (decade: string) => void;
+    onDownload: (decade: string) => void;
+    onShare: (decade: string) => void;
+    /** Opens the lightbox on the version the card is showing, which may not be the selected one. */
+    onOpen: (decade: string, versionIndex?: number) => void;
+    onOpenContactSheet: (decade: string) => void;
+}
+
+export const AppStoreContext = createContext<AppStoreValue | null>(null);
+export const CardActionsContext = createContext<CardActions | null>(null);
+
+/**
+ * The app store and its dispatch, from the nearest AppStoreContext provider.
+ * @returns The store and dispatch.
+ */
+export function useAppStore(): AppStoreValue {
+    const value = useContext(AppStoreContext);
+    if (!value) throw new Error('useAppStore must be used inside an AppStoreContext provider.');
+    return value;
+}
+
+/**
+ * What an era's card shows, and the actions it can take. Cards that aren't
+ * bound to an era, like the uploaded photo, get nulls.
+ * @param decade The era id, if the card shows one.
+ * @returns The card's state and actions, or nulls.
+ */
+export function useCard(decade: string | undefined): { card: CardState | null; actions: CardActions | null; dispatch: React.Dispatch<AppAction> | null } {
+    const storeValue = useContext(AppStoreContext);
+    const actions = useContext(CardActionsContext);
+    if (!decade || !storeValue) {
+        return { card: null, actions: null, dispatch: null };
+    }
+    return { card: selectCard(storeValue.store.present, decade), actions, dispatch: storeValue.dispatch };
+}
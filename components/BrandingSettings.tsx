@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, ChangeEvent } from 'react';
+import {
+    BUILT_IN_BRANDING_PRESETS,
+    CAPTION_FONTS,
+    PAPER_TEXTURES,
+    loadBrandingPresets,
+    prepareLogo,
+    saveBrandingPresets,
+    type AlbumBranding,
+    type BrandingPreset,
+    type CaptionFontId,
+    type PaperTexture,
+} from '../lib/albumBranding';
+
+interface BrandingSettingsProps {
+    branding: AlbumBranding;
+    onChange: (branding: AlbumBranding) => void;
+}
+
+const isSameBranding = (a: AlbumBranding, b: AlbumBranding) => JSON.stringify(a) === JSON.stringify(b);
+
+const BrandingSettings: React.FC<BrandingSettingsProps> = ({ branding, onChange }) => {
+    const [userPresets, setUserPresets] = useState<BrandingPreset[]>(loadBrandingPresets);
+    const [presetName, setPresetName] = useState('');
+
+    const presets = [...BUILT_IN_BRANDING_PRESETS, ...userPresets];
+    const activePreset = presets.find(preset => isSameBranding(preset.branding, branding));
+    const update = (changes: Partial<AlbumBranding>) => onChange({ ...branding, ...changes });
+
+    const updatePresets = (next: BrandingPreset[]) => {
+        if (!saveBrandingPresets(next)) {
+            alert("Sorry, there was an error saving your presets. Try a smaller logo.");
+            return;
+        }
+        setUserPresets(next);
+    };
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        // Saving under an existing name replaces that preset.
+        const existing = userPresets.find(preset => preset.name.toLowerCase() === name.toLowerCase());
+        const preset: BrandingPreset = { id: existing?.id ?? `preset-${Date.now()}`, name, branding };
+        updatePresets(existing
+            ? userPresets.map(p => (p.id === existing.id ? preset : p))
+            : [...userPresets, preset]);
+        setPresetName('');
+    };
+
+    const handleLogoUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            update({ logo: await prepareLogo(file) });
+        } catch (error) {
+            console.error("Failed to read logo:", error);
+            alert("Sorry, there was an error reading that logo. Please try a PNG or JPEG image.");
+        }
+    };
+
+    const inputClasses = "bg-white/5 border border-white/20 rounded-sm px-3 py-2 text-neutral-200 placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400";
+    const colorClasses = "h-9 w-14 bg-transparent border border-white/20 rounded-sm cursor-pointer";
+    const buttonClasses = "px-3 py-2 rounded-sm border border-white/30 text-neutral-300 hover:bg-white hover:text-black disabled:opacity-40";
+
+    return (
+        <div className="flex flex-col gap-3 border-t border-white/10 pt-4">
+            <span className="text-neutral-400">Branding</span>
+            <div className="flex flex-wrap items-end gap-3">
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-500">Preset</span>
+                    <select
+                        value={activePreset?.id ?? ''}
+                        onChange={(e) => {
+                            const preset = presets.find(p => p.id === e.target.value);
+                            if (preset) onChange(preset.branding);
+                        }}
+                        className={inputClasses}
+                    >
+                        {!activePreset && <option value="" className="bg-neutral-900">Custom</option>}
+                        {presets.map(preset => (
+                            <option key={preset.id} value={preset.id} className="bg-neutral-900">{preset.name}</option>
+                        ))}
+                    </select>
+                </label>
+                {activePreset && !activePreset.builtIn && (
+                    <button
+                        onClick={() => updatePresets(userPresets.filter(p => p.id !== activePreset.id))}
+                        className={buttonClasses}
+                    >
+                        Delete preset
+                    </button>
+                )}
+                <input
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSavePreset();
+                    }}
+                    placeholder="Preset name"
+                    className={inputClasses}
+                    aria-label="Preset name"
+                    maxLength={40}
+                />
+                <button onClick={handleSavePreset} disabled={!presetName.trim()} className={buttonClasses}>
+                    Save as preset
+                </button>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-500">Title</span>
+                    <input
+                        value={branding.title}
+                        onChange={(e) => update({ title: e.target.value })}
+                        placeholder="No title"
+                        className={inputClasses}
+                        maxLength={60}
+                    />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-500">Subtitle</span>
+                    <input
+                        value={branding.subtitle}
+                        onChange={(e) => update({ subtitle: e.target.value })}
+                        placeholder="No subtitle"
+                        className={inputClasses}
+                        maxLength={80}
+                    />
+                </label>
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-500">Background</span>
+                    <input type="color" value={branding.background} onChange={(e) => update({ background: e.target.value })} className={colorClasses} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-500">Paper</span>
+                    <select value={branding.paper} onChange={(e) => update({ paper: e.target.value as PaperTexture })} className={inputClasses}>
+                        {PAPER_TEXTURES.map(paper => (
+                            <option key={paper.id} value={paper.id} className="bg-neutral-900">{paper.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-500">Title colour</span>
+                    <input type="color" value={branding.titleColor} onChange={(e) => update({ titleColor: e.target.value })} className={colorClasses} />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-500">Caption font</span>
+                    <select value={branding.captionFont} onChange={(e) => update({ captionFont: e.target.value as CaptionFontId })} className={inputClasses}>
+                        {CAPTION_FONTS.map(font => (
+                            <option key={font.id} value={font.id} className="bg-neutral-900">{font.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-500">Ink</span>
+                    <input type="color" value={branding.inkColor} onChange={(e) => update({ inkColor: e.target.value })} className={colorClasses} />
+                </label>
+                <div className="flex items-end gap-2">
+                    {branding.logo && (
+                        <img src={branding.logo} alt="Album logo" className="h-9 w-auto max-w-[6rem] object-contain bg-white/10 rounded-sm" />
+                    )}
+                    <label className={`${buttonClasses} cursor-pointer`}>
+                        {branding.logo ? 'Change logo' : 'Add logo'}
+                        <input type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleLogoUpload} />
+                    </label>
+                    {branding.logo && (
+                        <button onClick={() => update({ logo: undefined })} className={buttonClasses}>
+                            Remove logo
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BrandingSettings;
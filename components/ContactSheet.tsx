@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+
+interface ContactSheetProps {
+    caption: string;
+    urls: string[];
+    selectedIndex: number;
+    /** Candidates still being generated, shown as empty frames. */
+    pendingCount?: number;
+    onSelect: (index: number) => void;
+    onClose: () => void;
+}
+
+const ContactSheet: React.FC<ContactSheetProps> = ({ caption, urls, selectedIndex, pendingCount = 0, onSelect, onClose }) => {
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [onClose]);
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-4xl max-h-[85vh] overflow-y-auto bg-[#1b1816] border border-white/10 rounded-md p-6 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-label={`Contact sheet for ${caption}`}
+            >
+                <div className="flex items-center justify-between gap-4 mb-4">
+                    <h2 className="font-permanent-marker text-2xl text-neutral-100">{caption} — contact sheet</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white" aria-label="Close contact sheet">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+                <p className="text-sm text-neutral-400 mb-4">Pick the frame you want on the card. The others stay in its history.</p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                    {urls.map((url, index) => (
+                        <button
+                            key={url}
+                            onClick={() => {
+                                onSelect(index);
+                                onClose();
+                            }}
+                            className={cn(
+                                "relative bg-black p-1 rounded-sm ring-2 transition-transform hover:scale-105",
+                                index === selectedIndex ? 'ring-yellow-400' : 'ring-transparent'
+                            )}
+                            aria-label={`Use version ${index + 1} of ${caption}`}
+                        >
+                            <img src={url} alt={`${caption}, version ${index + 1}`} className="w-full aspect-square object-cover" />
+                            <span className="absolute bottom-2 left-2 font-mono text-xs text-orange-400">#{index + 1}</span>
+                        </button>
+                    ))}
+                    {Array.from({ length: pendingCount }, (_, index) => (
+                        <div key={`pending-${index}`} className="aspect-square bg-black/60 rounded-sm flex items-center justify-center text-neutral-500 text-xs">
+                            Developing...
+                        </div>
+                    ))}
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default ContactSheet;
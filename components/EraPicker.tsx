@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, FormEvent } from 'react';
+import { createEra, parsePeriod, SUGGESTED_PERIODS, type Era } from '../lib/eras';
+import { cn } from '../lib/utils';
+
+// Every era is a paid generation, so keep a single run to a sensible size.
+export const MAX_ERAS = 12;
+
+interface EraPickerProps {
+    eras: Era[];
+    onChange: (eras: Era[]) => void;
+}
+
+const EraPicker: React.FC<EraPickerProps> = ({ eras, onChange }) => {
+    const [periodInput, setPeriodInput] = useState('');
+    const [regionInput, setRegionInput] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const isFull = eras.length >= MAX_ERAS;
+
+    const addEra = (era: Era): boolean => {
+        if (eras.some(existing => existing.id.toLowerCase() === era.id.toLowerCase())) {
+            setError(`"${era.id}" is already in your list.`);
+            return false;
+        }
+        if (isFull) {
+            setError(`You can pick up to ${MAX_ERAS} eras at a time.`);
+            return false;
+        }
+        onChange([...eras, era]);
+        setError(null);
+        return true;
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        const parsed = parsePeriod(periodInput);
+        if ('error' in parsed) {
+            setError(parsed.error);
+            return;
+        }
+        if (addEra(createEra(parsed.period, regionInput))) {
+            setPeriodInput('');
+            setRegionInput('');
+        }
+    };
+
+    const removeEra = (id: string) => {
+        onChange(eras.filter(era => era.id !== id));
+        setError(null);
+    };
+
+    const suggestions = SUGGESTED_PERIODS.filter(period => !eras.some(era => era.id === period));
+
+    return (
+        <div className="w-full max-w-md flex flex-col gap-3 text-sm">
+            <p className="font-permanent-marker text-neutral-300 text-lg text-center">Pick your eras</p>
+
+            <div className="flex flex-wrap justify-center gap-2">
+                {eras.map(era => (
+                    <span key={era.id} className="flex items-center gap-1 bg-yellow-400 text-black font-permanent-marker px-3 py-1 rounded-sm">
+                        {era.id}
+                        <button
+                            onClick={() => removeEra(era.id)}
+                            className="ml-1 text-black/60 hover:text-black"
+                            aria-label={`Remove ${era.id}`}
+                        >
+                            ×
+                        </button>
+                    </span>
+                ))}
+                {eras.length === 0 && (
+                    <span className="text-neutral-500">Choose at least one era to generate.</span>
+                )}
+            </div>
+
+            {suggestions.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-2">
+                    {suggestions.map(period => (
+                        <button
+                            key={period}
+                            onClick={() => addEra(createEra(period))}
+                            disabled={isFull}
+                            className="px-3 py-1 rounded-sm border border-white/30 text-neutral-300 hover:bg-white hover:text-black disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            + {period}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <input
+                    value={periodInput}
+                    onChange={(e) => setPeriodInput(e.target.value)}
+                    placeholder="e.g. early 1980s, 1969"
+                    className="flex-1 min-w-0 bg-white/5 border border-white/20 rounded-sm px-3 py-2 text-neutral-200 placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                    aria-label="Era"
+                />
+                <input
+                    value={regionInput}
+                    onChange={(e) => setRegionInput(e.target.value)}
+                    placeholder="Region (optional)"
+                    className="w-36 bg-white/5 border border-white/20 rounded-sm px-3 py-2 text-neutral-200 placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                    aria-label="Region"
+                    maxLength={30}
+                />
+                <button
+                    type="submit"
+                    disabled={isFull || !periodInput.trim()}
+                    className="px-4 py-2 rounded-sm bg-white/10 border border-white/50 text-white hover:bg-white hover:text-black disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    Add
+                </button>
+            </form>
+
+            <p className={cn("text-center min-h-[1.25rem]", error ? 'text-red-400' : 'text-neutral-500')}>
+                {error ?? `${eras.length} of ${MAX_ERAS} eras selected`}
+            </p>
+        </div>
+    );
+};
+
+export default EraPicker;
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { generationScheduler, type SchedulerSnapshot } from '../services/generationScheduler';
+
+function formatDuration(ms: number): string {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return rest > 0 ? `${minutes}m ${rest}s` : `${minutes}m`;
+}
+
+/**
+ * Shows how far the shared generation queue has got, e.g. "3 of 6 · ~40s remaining".
+ * Renders nothing while the queue is idle.
+ */
+const GenerationProgress = () => {
+    const [snapshot, setSnapshot] = useState<SchedulerSnapshot>(generationScheduler.getSnapshot);
+    const [, setTick] = useState(0);
+
+    useEffect(() => generationScheduler.subscribe(setSnapshot), []);
+
+    // Keep the countdown moving between scheduler events.
+    const isActive = snapshot.running + snapshot.queued > 0;
+    useEffect(() => {
+        if (!isActive) return;
+        const intervalId = setInterval(() => setTick(tick => tick + 1), 1000);
+        return () => clearInterval(intervalId);
+    }, [isActive]);
+
+    if (!isActive) return null;
+
+    const pauseRemaining = snapshot.pausedUntil ? snapshot.pausedUntil - Date.now() : 0;
+    const percent = snapshot.total > 0 ? (snapshot.completed / snapshot.total) * 100 : 0;
+
+    return (
+        <div className="w-full max-w-xs flex flex-col items-center gap-1 text-sm text-neutral-300" role="status" aria-live="polite">
+            <div className="flex gap-2 font-permanent-marker">
+                <span>{Math.min(snapshot.completed + 1, snapshot.total)} of {snapshot.total}</span>
+                {snapshot.estimatedMsRemaining !== null && (
+                    <span className="text-neutral-500">· ~{formatDuration(snapshot.estimatedMsRemaining)} remaining</span>
+                )}
+            </div>
+            <div className="h-1 w-full bg-white/10 rounded-full overflow-hidden">
+                <div className="h-full bg-yellow-400 transition-all duration-500" style={{ width: `${percent}%` }} />
+            </div>
+            {pauseRemaining > 0 && (
+                <span className="text-xs text-orange-300">Rate limited by the model. Resuming in {formatDuration(pauseRemaining)}.</span>
+            )}
+        </div>
+    );
+};
+
+export default GenerationProgress;
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef, PointerEvent } from 'react';
+import { motion } from 'framer-motion';
+import type { CropArea } from '../lib/imagePreprocessing';
+
+interface ImageCropperProps {
+    imageUrl: string;
+    onApply: (crop: CropArea) => void;
+    onClose: () => void;
+}
+
+// Size of the square viewport, matching the polaroid's photo area.
+const VIEWPORT_SIZE = 320;
+const MAX_ZOOM = 4;
+
+const ImageCropper: React.FC<ImageCropperProps> = ({ imageUrl, onApply, onClose }) => {
+    const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+    const [zoom, setZoom] = useState(1);
+    // Centre of the crop, in image pixels.
+    const [center, setCenter] = useState({ x: 0, y: 0 });
+    const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [onClose]);
+
+    const cropSize = natural ? Math.min(natural.width, natural.height) / zoom : 0;
+    const scale = cropSize ? VIEWPORT_SIZE / cropSize : 1;
+
+    // Keeps the crop square inside the image.
+    const clampCenter = (x: number, y: number, size = cropSize) => natural ? {
+        x: Math.min(Math.max(x, size / 2), natural.width - size / 2),
+        y: Math.min(Math.max(y, size / 2), natural.height - size / 2),
+    } : { x, y };
+
+    const handleZoomChange = (value: number) => {
+        if (!natural) return;
+        setZoom(value);
+        setCenter(prev => clampCenter(prev.x, prev.y, Math.min(natural.width, natural.height) / value));
+    };
+
+    const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, ...center };
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        setCenter(clampCenter(
+            drag.x - (e.clientX - drag.pointerX) / scale,
+            drag.y - (e.clientY - drag.pointerY) / scale,
+        ));
+    };
+
+    const handleApply = () => {
+        if (!natural) return;
+        onApply({ x: center.x - cropSize / 2, y: center.y - cropSize / 2, size: cropSize });
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="flex flex-col items-center gap-4 bg-neutral-900 border border-white/10 rounded-md p-6 shadow-2xl text-sm"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-label="Crop photo"
+            >
+                <h2 className="font-caveat text-5xl font-bold text-neutral-100">Crop Photo</h2>
+                <div
+                    className="relative overflow-hidden bg-neutral-800 cursor-grab active:cursor-grabbing touch-none select-none"
+                    style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => { dragRef.current = null; }}
+                    onPointerCancel={() => { dragRef.current = null; }}
+                >
+                    <img
+                        src={imageUrl}
+                        alt="Photo being cropped"
+                        draggable={false}
+                        onLoad={(e) => {
+                            const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+                            setNatural({ width, height });
+                            setCenter({ x: width / 2, y: height / 2 });
+                        }}
+                        className="absolute max-w-none pointer-events-none"
+                        style={natural ? {
+                            width: natural.width * scale,
+                            height: natural.height * scale,
+                            left: -(center.x - cropSize / 2) * scale,
+                            top: -(center.y - cropSize / 2) * scale,
+                        } : { opacity: 0 }}
+                    />
+                </div>
+                <label className="flex items-center gap-3 text-neutral-400 w-full">
+                    <span>Zoom</span>
+                    <input
+                        type="range"
+                        min={1}
+                        max={MAX_ZOOM}
+                        step={0.01}
+                        value={zoom}
+                        onChange={(e) => handleZoomChange(Number(e.target.value))}
+                        className="flex-1 accent-yellow-400"
+                    />
+                </label>
+                <p className="text-neutral-500">Drag to reposition.</p>
+                <div className="flex gap-3">
+                    <button onClick={onClose} className="px-4 py-2 rounded-sm border border-white/50 text-white hover:bg-white hover:text-black">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        disabled={!natural}
+                        className="px-4 py-2 rounded-sm bg-yellow-400 text-black font-permanent-marker hover:bg-yellow-300 disabled:opacity-40"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default ImageCropper;
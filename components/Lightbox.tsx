@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils';
+import type { ImageStatus } from '../types';
+
+export interface LightboxItem {
+    caption: string;
+    url?: string;
+    status: ImageStatus;
+}
+
+interface LightboxProps {
+    items: LightboxItem[];
+    index: number;
+    /** The uploaded photo, shown under the result in compare mode. */
+    originalUrl?: string;
+    onNavigate: (index: number) => void;
+    onClose: () => void;
+    onDownload?: (caption: string) => void;
+    onShare?: (caption: string) => void;
+    canShare?: boolean;
+    onRegenerate?: (caption: string) => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 5;
+const ZOOM_STEP = 1.25;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const actionButtonClasses = "text-sm text-neutral-200 border border-white/30 rounded-sm px-3 py-1.5 hover:bg-white hover:text-black disabled:opacity-50 disabled:pointer-events-none";
+
+const Lightbox: React.FC<LightboxProps> = ({ items, index, originalUrl, onNavigate, onClose, onDownload, onShare, canShare, onRegenerate }) => {
+    const [zoom, setZoom] = useState(1);
+    const [offset, setOffset] = useState({ x: 0, y: 0 });
+    const [isComparing, setIsComparing] = useState(false);
+    const [split, setSplit] = useState(50);
+    // Width over height of the result, so the original can be cropped into exactly the same frame.
+    const [aspectRatio, setAspectRatio] = useState(1);
+    const dragRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+
+    const item = items[index];
+    const hasPrevious = index > 0;
+    const hasNext = index < items.length - 1;
+    const canCompare = Boolean(originalUrl && item?.url);
+
+    const changeZoom = (next: number) => {
+        const zoomLevel = clampZoom(next);
+        setZoom(zoomLevel);
+        // Zooming all the way out re-centres the image.
+        if (zoomLevel === MIN_ZOOM) setOffset({ x: 0, y: 0 });
+    };
+
+    // Each era starts unzoomed.
+    useEffect(() => {
+        setZoom(1);
+        setOffset({ x: 0, y: 0 });
+    }, [index]);
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.target instanceof HTMLInputElement && e.target.type !== 'range') return;
+            switch (e.key) {
+                case 'Escape':
+                    onClose();
+                    break;
+                case 'ArrowLeft':
+                    if (hasPrevious) onNavigate(index - 1);
+                    break;
+                case 'ArrowRight':
+                    if (hasNext) onNavigate(index + 1);
+                    break;
+                case '+':
+                case '=':
+                    changeZoom(zoom * ZOOM_STEP);
+                    break;
+                case '-':
+                    changeZoom(zoom / ZOOM_STEP);
+                    break;
+                case '0':
+                    changeZoom(MIN_ZOOM);
+                    break;
+                case 'c':
+                    if (canCompare) setIsComparing(comparing => !comparing);
+                    break;
+                default:
+                    return;
+            }
+            e.preventDefault();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [index, hasPrevious, hasNext, zoom, canCompare, onClose, onNavigate]);
+
+    if (!item) return null;
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (zoom === MIN_ZOOM) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { pointerId: e.pointerId, x: e.clientX - offset.x, y: e.clientY - offset.y };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag || drag.pointerId !== e.pointerId) return;
+        setOffset({ x: e.clientX - drag.x, y: e.clientY - drag.y });
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/90 backdrop-blur-sm flex flex-col" onClick={onClose}>
+            <div className="flex items-center justify-between gap-4 p-4" onClick={(e) => e.stopPropagation()}>
+                <h2 className="font-caveat text-5xl text-neutral-100">{item.caption}</h2>
+                <div className="flex flex-wrap items-center justify-end gap-2">
+                    {canCompare && (
+                        <button
+                            onClick={() => setIsComparing(comparing => !comparing)}
+                            className={cn(actionButtonClasses, isComparing && "bg-yellow-400 text-black border-yellow-400")}
+                            aria-pressed={isComparing}
+                        >
+                            Before / After
+                        </button>
+                    )}
+                    {onDownload && (
+                        <button onClick={() => onDownload(item.caption)} disabled={!item.url} className={actionButtonClasses}>
+                            Download
+                        </button>
+                    )}
+                    {onShare && canShare && (
+                        <button onClick={() => onShare(item.caption)} disabled={!item.url} className={actionButtonClasses}>
+                            Share
+                        </button>
+                    )}
+                    {onRegenerate && (
+                        <button onClick={() => onRegenerate(item.caption)} disabled={item.status === 'pending'} className={actionButtonClasses}>
+                            Regenerate
+                        </button>
+                    )}
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white ml-2" aria-label="Close lightbox">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            <motion.div
+                key={item.caption}
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="relative flex-1 min-h-0 overflow-hidden select-none"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-label={`${item.caption}, full size`}
+                onWheel={(e) => changeZoom(e.deltaY < 0 ? zoom * ZOOM_STEP : zoom / ZOOM_STEP)}
+                onDoubleClick={() => changeZoom(zoom === MIN_ZOOM ? 2 : MIN_ZOOM)}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                style={{ cursor: zoom > MIN_ZOOM ? 'grab' : 'zoom-in', touchAction: 'none' }}
+            >
+                {item.status === 'pending' && !item.url && (
+                    <div className="absolute inset-0 flex items-center justify-center text-neutral-400">Developing...</div>
+                )}
+                {item.url && (
+                    <div
+                        className="absolute inset-4 flex items-center justify-center"
+                        style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`, containerType: 'size' }}
+                    >
+                        {/* The largest box with the result's shape that fits. Both images fill it the same way,
+                            so the divider lines up the same spot in each. */}
+                        <div
+                            className="relative"
+                            style={{
+                                width: `min(100cqw, ${100 * aspectRatio}cqh)`,
+                                height: `min(100cqh, ${100 / aspectRatio}cqw)`,
+                            }}
+                        >
+                            {isComparing && originalUrl && (
+                                <img src={originalUrl} alt="Your photo" className="absolute inset-0 w-full h-full object-cover pointer-events-none" draggable={false} />
+                            )}
+                            <img
+                                src={item.url}
+                                alt={item.caption}
+                                onLoad={(e) => setAspectRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight || 1)}
+                                className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+                                style={isComparing ? { clipPath: `inset(0 ${100 - split}% 0 0)` } : undefined}
+                                draggable={false}
+                            />
+                            {isComparing && (
+                                <div className="absolute top-0 bottom-0 w-0.5 bg-yellow-400 pointer-events-none" style={{ left: `${split}%` }} />
+                            )}
+                        </div>
+                    </div>
+                )}
+                {isComparing && item.url && (
+                    <>
+                        <span className="absolute top-6 left-6 text-xs bg-black/60 text-white rounded-full px-2 py-1 pointer-events-none">{item.caption}</span>
+                        <span className="absolute top-6 right-6 text-xs bg-black/60 text-white rounded-full px-2 py-1 pointer-events-none">Original</span>
+                    </>
+                )}
+                {hasPrevious && (
+                    <button
+                        onClick={() => onNavigate(index - 1)}
+                        onPointerDown={(e) => e.stopPropagation()}
+                        className="absolute left-2 top-1/2 -translate-y-1/2 p-3 bg-black/50 rounded-full text-white text-2xl hover:bg-black/75"
+                        aria-label={`Previous: ${items[index - 1].caption}`}
+                    >
+                        ‹
+                    </button>
+                )}
+                {hasNext && (
+                    <button
+                        onClick={() => onNavigate(index + 1)}
+                        onPointerDown={(e) => e.stopPropagation()}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 p-3 bg-black/50 rounded-full text-white text-2xl hover:bg-black/75"
+                        aria-label={`Next: ${items[index + 1].caption}`}
+                    >
+                        ›
+                    </button>
+                )}
+            </motion.div>
+
+            <div className="flex flex-wrap items-center justify-center gap-4 p-4 text-sm text-neutral-400" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => changeZoom(zoom / ZOOM_STEP)} disabled={zoom === MIN_ZOOM} className="w-8 h-8 border border-white/30 rounded-sm hover:bg-white hover:text-black disabled:opacity-30" aria-label="Zoom out">−</button>
+                    <span className="tabular-nums w-12 text-center">{Math.round(zoom * 100)}%</span>
+                    <button onClick={() => changeZoom(zoom * ZOOM_STEP)} disabled={zoom === MAX_ZOOM} className="w-8 h-8 border border-white/30 rounded-sm hover:bg-white hover:text-black disabled:opacity-30" aria-label="Zoom in">+</button>
+                </div>
+                {isComparing && (
+                    <label className="flex items-center gap-2">
+                        <span>After</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={split}
+                            onChange={(e) => setSplit(Number(e.target.value))}
+                            className="w-48 accent-yellow-400"
+                            aria-label="Before and after divider"
+                        />
+                        <span>Before</span>
+                    </label>
+                )}
+                <span className="tabular-nums">{index + 1} / {items.length}</span>
+                <span className="hidden md:inline">← → to browse · scroll or +/− to zoom · C to compare</span>
+            </div>
+        </div>
+    );
+};
+
+export default Lightbox;
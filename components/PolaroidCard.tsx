@@ -5,22 +5,27 @@
 import React, { useState, useEffect } from 'react';
 import { DraggableCardContainer, DraggableCardBody } from './ui/draggable-card';
 import { cn } from '../lib/utils';
-
-type ImageStatus = 'pending' | 'done' | 'error';
+import { MAX_REFINEMENT_LENGTH } from '../lib/promptTemplates';
+import { VALIDATION_ISSUE_LABELS } from '../lib/imageValidation';
+import { applyFilmEffect, DEFAULT_FILM_SETTINGS, getFilmPreset, type FilmPreset } from '../lib/filmEffects';
+import { useCard } from './AppStoreContext';
+import type { FilmSettings, GenerationFailure, ImageStatus } from '../types';
 
 interface PolaroidCardProps {
+    /** Defaults to the era id for cards bound to an era. */
+    caption?: string;
+    /**
+     * Binds the card to an era in the app store, which supplies its image,
+     * version history, caption, film look and actions.
+     */
+    decade?: string;
+    /** For cards not bound to an era, like the uploaded photo. */
     imageUrl?: string;
-    caption: string;
-    status: ImageStatus;
-    error?: string;
-    onShake?: (caption: string) => void;
-    onDownload?: (caption: string) => void;
-    onShare?: (caption: string) => void;
-    canShare?: boolean;
+    status?: ImageStatus;
     isMobile?: boolean;
     enableDragging?: boolean;
-    customCaption?: string;
-    onCaptionChange?: (decade: string, newCaption: string) => void;
+    /** Shows a crop button, used on the source photo. */
+    onCrop?: (caption: string) => void;
 }
 
 const LoadingSpinner = () => (
@@ -32,11 +37,45 @@ const LoadingSpinner = () => (
     </div>
 );
 
-const ErrorDisplay = () => (
-    <div className="flex items-center justify-center h-full">
+const ErrorDisplay = ({ error, onRetry }: { error?: GenerationFailure; onRetry?: () => void }) => (
+    <div className="flex flex-col items-center justify-center h-full gap-2 px-4 text-center" title={error?.message}>
          <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
             <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
         </svg>
+        {error && (
+            <>
+                <span className="font-permanent-marker text-lg text-red-300">{error.title}</span>
+                <span className="text-sm text-neutral-400">{error.suggestion}</span>
+            </>
+        )}
+        {onRetry && error?.retryable !== false && (
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onRetry();
+                }}
+                className="font-permanent-marker text-sm text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300"
+            >
+                Try again
+            </button>
+        )}
+    </div>
+);
+
+const CancelledDisplay = ({ onRetry }: { onRetry?: () => void }) => (
+    <div className="flex flex-col items-center justify-center h-full gap-3 text-neutral-400">
+        <span className="font-permanent-marker text-lg">Cancelled</span>
+        {onRetry && (
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onRetry();
+                }}
+                className="font-permanent-marker text-sm text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300"
+            >
+                Try again
+            </button>
+        )}
     </div>
 );
 
@@ -51,9 +90,237 @@ const Placeholder = () => (
 );
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, onShake, onDownload, onShare, canShare, isMobile, enableDragging = true, customCaption = '', onCaptionChange }) => {
+const VersionNavigator = ({ caption, count, viewIndex, selectedIndex, onView, onSelect }: {
+    caption: string;
+    count: number;
+    viewIndex: number;
+    selectedIndex: number;
+    onView: (index: number) => void;
+    onSelect?: (index: number) => void;
+}) => (
+    <div
+        className="absolute bottom-2 left-2 right-2 z-20 flex items-center justify-between gap-2 text-white text-xs"
+        onClick={(e) => e.stopPropagation()}
+    >
+        <div className="flex items-center gap-1 bg-black/50 rounded-full px-1">
+            <button
+                onClick={() => onView(viewIndex - 1)}
+                disabled={viewIndex === 0}
+                className="p-1 disabled:opacity-30"
+                aria-label={`Previous version of ${caption}`}
+            >
+                ‹
+            </button>
+            <span className="tabular-nums">{viewIndex + 1} / {count}</span>
+            <button
+                onClick={() => onView(viewIndex + 1)}
+                disabled={viewIndex === count - 1}
+                className="p-1 disabled:opacity-30"
+                aria-label={`Next version of ${caption}`}
+            >
+                ›
+            </button>
+        </div>
+        {viewIndex !== selectedIndex && onSelect && (
+            <button
+                onClick={() => onSelect(viewIndex)}
+                className="bg-yellow-400 text-black font-permanent-marker rounded-sm px-2 py-1 hover:bg-yellow-300"
+            >
+                Use this one
+            </button>
+        )}
+    </div>
+);
+
+const RefinePanel = ({ caption, steps, isRefining, onRefine, onUndo, onClose }: {
+    caption: string;
+    /** The instructions that led to the version being refined, oldest first. */
+    steps: string[];
+    isRefining: boolean;
+    onRefine: (instruction: string, keepLikeness: boolean) => void;
+    onUndo?: () => void;
+    onClose: () => void;
+}) => {
+    const [instruction, setInstruction] = useState('');
+    const [keepLikeness, setKeepLikeness] = useState(true);
+
+    const submit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!instruction.trim() || isRefining) return;
+        onRefine(instruction.trim(), keepLikeness);
+        setInstruction('');
+    };
+
+    return (
+        <form
+            onSubmit={submit}
+            onClick={(e) => e.stopPropagation()}
+            onPointerDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+                if (e.key === 'Escape') onClose();
+            }}
+            className="absolute bottom-10 left-2 right-2 z-30 bg-black/80 text-white text-xs rounded-sm p-2 flex flex-col gap-2"
+        >
+            {steps.length > 0 && (
+                <ol className="list-decimal list-inside text-neutral-300 max-h-16 overflow-y-auto">
+                    {steps.map((step, index) => <li key={index} className="truncate">{step}</li>)}
+                </ol>
+            )}
+            <input
+                type="text"
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                placeholder="e.g. make the hair shorter"
+                maxLength={MAX_REFINEMENT_LENGTH}
+                disabled={isRefining}
+                autoFocus
+                className="w-full bg-neutral-800 border border-white/20 rounded-sm px-2 py-1 placeholder:text-neutral-500 focus:outline-none focus:border-yellow-400"
+                aria-label={`How to change ${caption}`}
+            />
+            <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-1 text-neutral-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={keepLikeness}
+                        onChange={(e) => setKeepLikeness(e.target.checked)}
+                        className="accent-yellow-400"
+                    />
+                    Match original face
+                </label>
+                <div className="flex items-center gap-1">
+                    {onUndo && (
+                        <button type="button" onClick={onUndo} disabled={isRefining} className="border border-white/30 rounded-sm px-2 py-1 hover:bg-white hover:text-black disabled:opacity-50">
+                            Undo
+                        </button>
+                    )}
+                    <button type="submit" disabled={isRefining || !instruction.trim()} className="bg-yellow-400 text-black font-permanent-marker rounded-sm px-2 py-1 hover:bg-yellow-300 disabled:opacity-50">
+                        {isRefining ? 'Refining...' : 'Refine'}
+                    </button>
+                </div>
+            </div>
+        </form>
+    );
+};
+
+const FilmPanel = ({ caption, preset, settings, onChange, onClose }: {
+    caption: string;
+    preset: FilmPreset;
+    settings: FilmSettings;
+    onChange: (settings: FilmSettings) => void;
+    onClose: () => void;
+}) => (
+    <div
+        onClick={(e) => e.stopPropagation()}
+        onPointerDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+            if (e.key === 'Escape') onClose();
+        }}
+        className="absolute bottom-10 left-2 right-2 z-30 bg-black/80 text-white text-xs rounded-sm p-2 flex flex-col gap-2"
+    >
+        <label className="flex items-center gap-1 cursor-pointer">
+            <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+                className="accent-yellow-400"
+            />
+            <span className="font-bold">{preset.name}</span>
+            <span className="text-neutral-400 truncate">{preset.description}</span>
+        </label>
+        <label className="flex items-center gap-2 text-neutral-300">
+            Strength
+            <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(settings.strength * 100)}
+                onChange={(e) => onChange({ ...settings, strength: Number(e.target.value) / 100 })}
+                disabled={!settings.enabled}
+                className="flex-1 accent-yellow-400 disabled:opacity-50"
+                aria-label={`Film look strength for ${caption}`}
+            />
+            <span className="tabular-nums w-8 text-right">{Math.round(settings.strength * 100)}%</span>
+        </label>
+    </div>
+);
+
+// Saves re-processing the preview on every step while the strength slider is dragged.
+const FILM_PREVIEW_DELAY_MS = 150;
+
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ caption: captionProp, decade, imageUrl: ownImageUrl, status: ownStatus = 'done', isMobile, enableDragging = true, onCrop }) => {
+    const { card, actions, dispatch } = useCard(decade);
+    const caption = captionProp ?? decade ?? '';
+    const imageUrl = card ? card.imageUrl : ownImageUrl;
+    const status = card?.status ?? ownStatus;
+    const error = card?.error;
+    const versions = card?.versions;
+    const selectedVersion = card?.selectedVersion ?? 0;
+    const pendingCount = card?.pendingCount ?? 0;
+    const isRefining = card?.refining ?? false;
+    const era = card?.era;
+    const filmSettings = card?.filmSettings ?? DEFAULT_FILM_SETTINGS;
+    const canShare = actions?.canShare;
+    const onShake = actions?.onRegenerate;
+    const onDownload = actions?.onDownload;
+    const onShare = actions?.onShare;
+    const onCancel = actions?.onCancel;
+    const onOpen = actions?.onOpen;
+    const onOpenContactSheet = actions?.onOpenContactSheet;
+    const onRefine = actions?.onRefine;
+    const cachedVersions = card?.cachedVersions;
+    const versionIssues = card?.versionIssues;
+    const refinementHistories = card?.refinementHistories;
+    const customCaption = card?.customCaption ?? '';
+    // Edits that are plain state changes go straight to the store.
+    const onCaptionChange = dispatch && decade ? (text: string) => dispatch({ type: 'captionChanged', decade, caption: text }) : undefined;
+    const onFilmSettingsChange = dispatch && decade ? (settings: FilmSettings) => dispatch({ type: 'filmSettingsChanged', decade, settings }) : undefined;
+    const onSelectVersion = dispatch && decade ? (index: number) => dispatch({ type: 'versionSelected', decade, index }) : undefined;
+    const onUndoRefinement = dispatch && decade ? (index: number) => dispatch({ type: 'refinementUndone', decade, index }) : undefined;
     const [isDeveloped, setIsDeveloped] = useState(false);
+    const [showRefine, setShowRefine] = useState(false);
+    const [showFilm, setShowFilm] = useState(false);
+    // Tagged with the image it was made from, so another version never shows a stale preview.
+    const [filmPreview, setFilmPreview] = useState<{ source: string; url: string } | null>(null);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
+    const [viewIndex, setViewIndex] = useState(selectedVersion);
+
+    // Browsing the history only changes what's shown; follow the real selection when it moves.
+    useEffect(() => {
+        setViewIndex(selectedVersion);
+    }, [selectedVersion, versions?.length]);
+
+    const displayUrl = versions?.[viewIndex] ?? imageUrl;
+    const versionCount = versions?.length ?? 0;
+    const refinementSteps = refinementHistories?.[viewIndex] ?? [];
+    const viewIssues = versionIssues?.[viewIndex];
+    const filmPreset = era ? getFilmPreset(era) : undefined;
+
+    // Show the film look on the card too, so what's downloaded matches what's seen.
+    useEffect(() => {
+        if (!displayUrl || !filmPreset || !filmSettings.enabled || filmSettings.strength <= 0) {
+            setFilmPreview(null);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            applyFilmEffect(displayUrl, filmPreset, filmSettings.strength, era)
+                .then(url => { if (!cancelled) setFilmPreview({ source: displayUrl, url }); })
+                .catch(error => console.warn(`Could not preview the film look for ${caption}:`, error));
+        }, FILM_PREVIEW_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [displayUrl, filmPreset?.id, filmSettings.enabled, filmSettings.strength, era?.id]);
+
+    const handleRefine = async (instruction: string, keepLikeness: boolean) => {
+        if (!onRefine) return;
+        try {
+            await onRefine(caption, viewIndex, instruction, keepLikeness);
+        } catch {
+            // The parent reports the failure; keep the panel open so the user can try again.
+        }
+    };
 
     // Reset states when the image URL changes or status goes to pending.
     useEffect(() => {
@@ -80,14 +347,45 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
     const cardInnerContent = (
         <>
             <div className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden group">
-                {status === 'pending' && <LoadingSpinner />}
-                {status === 'error' && <ErrorDisplay />}
-                {status === 'done' && imageUrl && (
+                {status === 'pending' && (
+                    <>
+                        <LoadingSpinner />
+                        {onCancel && (
+                            <button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onCancel(caption);
+                                }}
+                                className="absolute bottom-3 left-1/2 -translate-x-1/2 text-xs text-neutral-300 border border-neutral-500 rounded-sm px-3 py-1 hover:bg-white hover:text-black"
+                                aria-label={`Cancel generation for ${caption}`}
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </>
+                )}
+                {status === 'error' && <ErrorDisplay error={error} onRetry={onShake ? () => onShake(caption) : undefined} />}
+                {status === 'cancelled' && <CancelledDisplay onRetry={onShake ? () => onShake(caption) : undefined} />}
+                {status === 'done' && displayUrl && (
                     <>
                         <div className={cn(
                             "absolute top-2 right-2 z-20 flex flex-col gap-2 transition-opacity duration-300",
                             !isMobile && "opacity-0 group-hover:opacity-100",
                         )}>
+                            {onCrop && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onCrop(caption);
+                                    }}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Crop ${caption}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 2v14a2 2 0 002 2h14M2 6h14a2 2 0 012 2v14" />
+                                    </svg>
+                                </button>
+                            )}
                             {onDownload && (
                                 <button
                                     onClick={(e) => {
@@ -115,6 +413,58 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                                         <path d="M15 8a3 3 0 10-2.977-2.63l-4.94 2.47a3 3 0 100 4.319l4.94 2.47a3 3 0 10.895-1.789l-4.94-2.47a3.027 3.027 0 000-.74l4.94-2.47C13.456 7.68 14.19 8 15 8z" />
                                     </svg>
                                 </button>
+                            )}
+                            {onOpenContactSheet && versionCount > 1 && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onOpenContactSheet(caption);
+                                    }}
+                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white"
+                                    aria-label={`Show all versions of ${caption}`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                        <path d="M5 3a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 11a2 2 0 00-2 2v2a2 2 0 002 2h2a2 2 0 002-2v-2a2 2 0 00-2-2H5zM11 5a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V5zM11 13a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" />
+                                    </svg>
+                                </button>
+                            )}
+                             {onRefine && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setShowRefine(open => !open);
+                                        setShowFilm(false);
+                                    }}
+                                    className={cn(
+                                        "p-2 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white",
+                                        showRefine ? "bg-yellow-500/80" : "bg-black/50",
+                                    )}
+                                    aria-label={`Refine image for ${caption}`}
+                                    aria-expanded={showRefine}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                        <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                                    </svg>
+                                </button>
+                            )}
+                             {onFilmSettingsChange && filmPreset && (
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setShowFilm(open => !open);
+                                        setShowRefine(false);
+                                    }}
+                                    className={cn(
+                                        "p-2 rounded-full text-white hover:bg-black/75 focus:outline-none focus:ring-2 focus:ring-white",
+                                        showFilm ? "bg-yellow-500/80" : filmSettings.enabled ? "bg-amber-700/80" : "bg-black/50",
+                                    )}
+                                    aria-label={`Film look for ${caption}`}
+                                    aria-expanded={showFilm}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" />
+                                    </svg>
+                                </button>
                             )}
                              {onShake && (
                                 <button
@@ -141,22 +491,103 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                             aria-hidden="true"
                         />
                         
-                        {/* The Image - fades in and color corrects */}
+                        {/* The Image - fades in and color corrects. Keyed on both URLs so the
+                            element reloads when either the viewed or the selected version changes. */}
                         <img
-                            key={imageUrl}
-                            src={imageUrl}
+                            key={`${displayUrl}|${imageUrl}`}
+                            src={filmPreview?.source === displayUrl ? filmPreview.url : displayUrl}
                             alt={caption}
                             onLoad={() => setIsImageLoaded(true)}
-                            className={`w-full h-full object-cover transition-all duration-[4000ms] ease-in-out ${
+                            onClick={onOpen ? (e) => {
+                                e.stopPropagation();
+                                onOpen(caption, versions ? Math.min(viewIndex, versionCount - 1) : undefined);
+                            } : undefined}
+                            className={`w-full h-full object-cover transition-all duration-[4000ms] ease-in-out ${onOpen ? 'cursor-zoom-in' : ''} ${
                                 isDeveloped 
                                 ? 'opacity-100 filter-none' 
                                 : 'opacity-80 filter sepia(1) contrast(0.8) brightness(0.8)'
                             }`}
                             style={{ opacity: isImageLoaded ? undefined : 0 }}
                         />
+
+                        {pendingCount > 0 && (
+                            <div className="absolute top-2 left-2 z-20 flex items-center gap-1 bg-black/50 text-white text-xs rounded-full px-2 py-1">
+                                <svg className="animate-spin h-3 w-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
+                                </svg>
+                                {pendingCount} more developing
+                                {onCancel && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onCancel(caption);
+                                        }}
+                                        className="ml-1 text-white/70 hover:text-white"
+                                        aria-label={`Cancel remaining candidates for ${caption}`}
+                                    >
+                                        ×
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {(cachedVersions?.[viewIndex] || viewIssues) && (
+                            <div className={`absolute ${pendingCount > 0 ? 'top-10' : 'top-2'} left-2 z-20 flex flex-col items-start gap-1`}>
+                                {cachedVersions?.[viewIndex] && (
+                                    <span className="bg-black/50 text-white text-xs rounded-full px-2 py-1">Cached · not billed</span>
+                                )}
+                                {viewIssues && (
+                                    <span
+                                        className="bg-amber-500/90 text-black text-xs rounded-full px-2 py-1"
+                                        title={`${viewIssues.map(issue => VALIDATION_ISSUE_LABELS[issue]).join(' ')} Try generating again.`}
+                                    >
+                                        Low confidence
+                                    </span>
+                                )}
+                            </div>
+                        )}
+
+                        {isRefining && (
+                            <div className="absolute inset-0 z-20 bg-black/40 pointer-events-none">
+                                <LoadingSpinner />
+                            </div>
+                        )}
+
+                        {showFilm && onFilmSettingsChange && filmPreset && (
+                            <FilmPanel
+                                caption={caption}
+                                preset={filmPreset}
+                                settings={filmSettings}
+                                onChange={onFilmSettingsChange}
+                                onClose={() => setShowFilm(false)}
+                            />
+                        )}
+
+                        {showRefine && onRefine && (
+                            <RefinePanel
+                                caption={caption}
+                                steps={refinementSteps}
+                                isRefining={isRefining}
+                                onRefine={handleRefine}
+                                onUndo={refinementSteps.length > 0 && onUndoRefinement ? () => onUndoRefinement(viewIndex) : undefined}
+                                onClose={() => setShowRefine(false)}
+                            />
+                        )}
+
+                        {versionCount > 1 && (
+                            <VersionNavigator
+                                caption={caption}
+                                count={versionCount}
+                                viewIndex={Math.min(viewIndex, versionCount - 1)}
+                                selectedIndex={selectedVersion}
+                                onView={setViewIndex}
+                                onSelect={onSelectVersion}
+                            />
+                        )}
                     </>
                 )}
-                {status === 'done' && !imageUrl && <Placeholder />}
+                {status === 'done' && !displayUrl && <Placeholder />}
             </div>
             <div className="absolute bottom-4 left-4 right-4 text-center px-2">
                 <p className={cn(
@@ -169,7 +600,7 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                     <input
                         type="text"
                         value={customCaption}
-                        onChange={(e) => onCaptionChange(caption, e.target.value)}
+                        onChange={(e) => onCaptionChange(e.target.value)}
                         placeholder="Add a memory..."
                         className="w-full bg-transparent text-center font-permanent-marker text-sm text-black/70 placeholder:text-black/30 focus:outline-none focus:ring-0 border-none p-0 mt-1"
                         maxLength={35}
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import {
+    PROMPT_TEMPLATES,
+    renderPrompt,
+    resolvePromptSelection,
+    resolvePromptVariables,
+    type PromptSelection,
+} from '../lib/promptTemplates';
+import type { Era } from '../lib/eras';
+import type { PhotoSubject } from '../types';
+
+interface PromptSettingsProps {
+    selection: PromptSelection;
+    eras: Era[];
+    /** Who is in the current photo, so the preview shows the wording that will be used. */
+    subject: PhotoSubject;
+    onChange: (selection: PromptSelection) => void;
+    onClose: () => void;
+}
+
+const templateKey = (id: string, version: number) => `${id}@${version}`;
+
+const PromptSettings: React.FC<PromptSettingsProps> = ({ selection, eras, subject, onChange, onClose }) => {
+    const [previewEraId, setPreviewEraId] = useState(eras[0]?.id ?? '');
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [onClose]);
+
+    const template = resolvePromptSelection(selection);
+    const previewEra = eras.find(era => era.id === previewEraId) ?? eras[0];
+    const rendered = previewEra ? renderPrompt(template, previewEra, subject) : null;
+    const variables = previewEra ? resolvePromptVariables(template, previewEra, subject) : null;
+
+    const handleTemplateChange = (key: string) => {
+        const [templateId, version] = key.split('@');
+        const latest = resolvePromptSelection({ templateId });
+        // Track the newest version unless an older one was picked explicitly.
+        onChange(Number(version) === latest.version ? { templateId } : { templateId, templateVersion: Number(version) });
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-2xl max-h-[85vh] overflow-y-auto flex flex-col gap-4 bg-neutral-900 border border-white/10 rounded-md p-6 shadow-2xl text-sm"
+                onClick={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-label="Prompt settings"
+            >
+                <div className="flex items-center justify-between gap-4">
+                    <h2 className="font-caveat text-5xl font-bold text-neutral-100">Prompt Settings</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white" aria-label="Close prompt settings">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-400">Template</span>
+                    <select
+                        value={templateKey(template.id, template.version)}
+                        onChange={(e) => handleTemplateChange(e.target.value)}
+                        className="bg-white/5 border border-white/20 rounded-sm px-3 py-2 text-neutral-200 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                    >
+                        {PROMPT_TEMPLATES.map(t => (
+                            <option key={templateKey(t.id, t.version)} value={templateKey(t.id, t.version)} className="bg-neutral-900">
+                                {t.name} (v{t.version})
+                            </option>
+                        ))}
+                    </select>
+                    <span className="text-neutral-500">{template.description}</span>
+                </label>
+
+                <label className="flex flex-col gap-1">
+                    <span className="text-neutral-400">Preview era</span>
+                    <select
+                        value={previewEra?.id ?? ''}
+                        onChange={(e) => setPreviewEraId(e.target.value)}
+                        disabled={eras.length === 0}
+                        className="bg-white/5 border border-white/20 rounded-sm px-3 py-2 text-neutral-200 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                    >
+                        {eras.map(era => (
+                            <option key={era.id} value={era.id} className="bg-neutral-900">{era.id}</option>
+                        ))}
+                    </select>
+                </label>
+
+                {rendered && variables ? (
+                    <>
+                        <div className="flex flex-col gap-1">
+                            <span className="text-neutral-400">Prompt</span>
+                            <p className="bg-black/40 border border-white/10 rounded-sm p-3 text-neutral-200 whitespace-pre-wrap">{rendered.text}</p>
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <span className="text-neutral-400">Fallback prompt (used if the first one is refused)</span>
+                            <p className="bg-black/40 border border-white/10 rounded-sm p-3 text-neutral-300 whitespace-pre-wrap">{rendered.fallbackText}</p>
+                        </div>
+                        {rendered.groupRetryText && (
+                            <div className="flex flex-col gap-1">
+                                <span className="text-neutral-400">Group retry prompt (used once if the result shows a single person)</span>
+                                <p className="bg-black/40 border border-white/10 rounded-sm p-3 text-neutral-300 whitespace-pre-wrap">{rendered.groupRetryText}</p>
+                            </div>
+                        )}
+                        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-neutral-400">
+                            {Object.entries(variables).map(([name, value]) => (
+                                <React.Fragment key={name}>
+                                    <dt className="font-mono text-neutral-500">{`{${name}}`}</dt>
+                                    <dd className="text-neutral-300">{value || <span className="italic text-neutral-600">empty</span>}</dd>
+                                </React.Fragment>
+                            ))}
+                        </dl>
+                    </>
+                ) : (
+                    <p className="text-neutral-500">Pick at least one era to preview the prompt.</p>
+                )}
+            </motion.div>
+        </div>
+    );
+};
+
+export default PromptSettings;
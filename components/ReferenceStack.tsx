@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { ChangeEvent } from 'react';
+import { motion } from 'framer-motion';
+
+interface ReferenceStackProps {
+    /** The extra photos of the person, not including the main one. */
+    images: string[];
+    /** How many extra photos are allowed. */
+    max: number;
+    onAdd: (files: File[]) => void;
+    onRemove: (index: number) => void;
+    disabled?: boolean;
+}
+
+// Small tilts so the stack looks like loose prints.
+const STACK_ROTATIONS = [-6, 4, -3, 7];
+
+const ReferenceStack: React.FC<ReferenceStackProps> = ({ images, max, onAdd, onRemove, disabled = false }) => {
+    const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = ''; // Let the same file be picked again after removing it
+        if (files.length > 0) onAdd(files);
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-2 text-sm text-neutral-400">
+            <span>More photos of the same person (optional, up to {max})</span>
+            <div className="flex items-center">
+                {images.map((url, index) => (
+                    <motion.div
+                        key={url}
+                        initial={{ opacity: 0, scale: 0.6 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        className="relative bg-neutral-100 p-1 pb-4 w-20 shadow-lg -ml-3 first:ml-0 hover:z-10"
+                        style={{ rotate: `${STACK_ROTATIONS[index % STACK_ROTATIONS.length]}deg` }}
+                    >
+                        <img src={url} alt={`Reference photo ${index + 1}`} className="w-full aspect-square object-cover" />
+                        <button
+                            onClick={() => onRemove(index)}
+                            disabled={disabled}
+                            className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-black text-white text-xs leading-none hover:bg-red-600 disabled:opacity-50"
+                            aria-label={`Remove reference photo ${index + 1}`}
+                        >
+                            ×
+                        </button>
+                    </motion.div>
+                ))}
+                {images.length < max && (
+                    <label
+                        className={`w-20 aspect-[4/5] flex items-center justify-center border-2 border-dashed border-white/30 rounded-sm text-2xl text-neutral-400 ${images.length > 0 ? 'ml-3' : ''} ${disabled ? 'opacity-50' : 'cursor-pointer hover:border-white hover:text-white'}`}
+                        aria-label="Add reference photos"
+                    >
+                        +
+                        <input type="file" className="hidden" accept="image/png, image/jpeg, image/webp" multiple disabled={disabled} onChange={handleChange} />
+                    </label>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ReferenceStack;
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { cn } from '../lib/utils';
+import type { PhotoSubject } from '../types';
+
+// Prompts get unreliable well before this, but it keeps the input sane.
+const MAX_HEAD_COUNT = 20;
+
+interface SubjectPickerProps {
+    subject: PhotoSubject;
+    onChange: (subject: PhotoSubject) => void;
+}
+
+const SubjectPicker: React.FC<SubjectPickerProps> = ({ subject, onChange }) => {
+    const isGroup = subject.mode === 'group';
+
+    const handleHeadCountChange = (value: string) => {
+        const headCount = value ? Math.min(MAX_HEAD_COUNT, Math.max(1, Math.round(Number(value)))) : undefined;
+        // A head count is enough to tell whether this is a group photo.
+        const mode = headCount === undefined ? subject.mode : headCount > 1 ? 'group' : 'single';
+        onChange({ ...subject, mode, headCount });
+    };
+
+    const modeButtonClasses = (active: boolean) => cn(
+        "px-3 py-1 rounded-sm font-permanent-marker",
+        active ? 'bg-yellow-400 text-black' : 'border border-white/30 text-neutral-300 hover:bg-white hover:text-black',
+    );
+
+    return (
+        <div className="w-full max-w-md flex flex-col items-center gap-3 text-sm">
+            <p className="font-permanent-marker text-neutral-300 text-lg text-center">Who's in the photo?</p>
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => onChange({ ...subject, mode: 'single', headCount: undefined })}
+                    className={modeButtonClasses(!isGroup)}
+                    aria-pressed={!isGroup}
+                >
+                    One person
+                </button>
+                <button
+                    onClick={() => onChange({ ...subject, mode: 'group' })}
+                    className={modeButtonClasses(isGroup)}
+                    aria-pressed={isGroup}
+                >
+                    A group
+                </button>
+                <input
+                    type="number"
+                    min={1}
+                    max={MAX_HEAD_COUNT}
+                    value={subject.headCount ?? ''}
+                    onChange={(e) => handleHeadCountChange(e.target.value)}
+                    placeholder="How many?"
+                    className="w-28 bg-white/5 border border-white/20 rounded-sm px-3 py-1 text-neutral-200 placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                    aria-label="Number of people"
+                />
+            </div>
+            {isGroup && (
+                <input
+                    value={subject.groupName ?? ''}
+                    onChange={(e) => onChange({ ...subject, groupName: e.target.value })}
+                    placeholder="Group name for captions, e.g. The Smiths"
+                    className="w-full bg-white/5 border border-white/20 rounded-sm px-3 py-2 text-neutral-200 placeholder:text-neutral-500 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                    aria-label="Group name"
+                    maxLength={40}
+                />
+            )}
+        </div>
+    );
+};
+
+export default SubjectPicker;
@@ -0,0 +1,280 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createSeededRandom } from './albumLayouts';
+
+export type PaperTexture = 'plain' | 'grain' | 'linen' | 'lined';
+export type CaptionFontId = 'marker' | 'handwritten' | 'clean' | 'typewriter';
+
+/** How every export looks: the album page, PDF, animations and the ZIP bundle. */
+export interface AlbumBranding {
+    /** Printed at the top of the album page and on the PDF cover. Empty to remove it. */
+    title: string;
+    /** Printed below the title. Empty to remove it. */
+    subtitle: string;
+    /** The page colour, as a CSS hex colour. */
+    background: string;
+    /** A pattern drawn over the background colour. */
+    paper: PaperTexture;
+    /** The colour of the title and subtitle. */
+    titleColor: string;
+    captionFont: CaptionFontId;
+    /** The colour of the handwritten captions on each polaroid. */
+    inkColor: string;
+    /** A small PNG data URL shown in the page header, e.g. an event logo. */
+    logo?: string;
+}
+
+export interface BrandingPreset {
+    id: string;
+    name: string;
+    branding: AlbumBranding;
+    /** Built-in presets can't be overwritten or deleted. */
+    builtIn?: boolean;
+}
+
+export const PAPER_TEXTURES: { id: PaperTexture; name: string }[] = [
+    { id: 'plain', name: 'Plain' },
+    { id: 'grain', name: 'Grainy paper' },
+    { id: 'linen', name: 'Linen' },
+    { id: 'lined', name: 'Notebook lines' },
+];
+
+export const CAPTION_FONTS: { id: CaptionFontId; name: string; family: string }[] = [
+    { id: 'marker', name: 'Marker', family: "'Permanent Marker', cursive" },
+    { id: 'handwritten', name: 'Handwritten', family: "'Caveat', cursive" },
+    { id: 'clean', name: 'Clean', family: "'Roboto', sans-serif" },
+    { id: 'typewriter', name: 'Typewriter', family: "'Courier New', monospace" },
+];
+
+export const DEFAULT_ALBUM_BRANDING: AlbumBranding = {
+    title: 'Generated with Past Forward',
+    subtitle: 'Created by Pierre Rouleau',
+    background: '#fdf5e6', // A warm, parchment-like color
+    paper: 'plain',
+    titleColor: '#333333',
+    captionFont: 'marker',
+    inkColor: '#222222',
+};
+
+export const BUILT_IN_BRANDING_PRESETS: BrandingPreset[] = [
+    { id: 'past-forward', name: 'Past Forward', branding: DEFAULT_ALBUM_BRANDING, builtIn: true },
+    {
+        id: 'gallery-white',
+        name: 'Gallery white',
+        branding: { ...DEFAULT_ALBUM_BRANDING, title: 'Through the Decades', subtitle: '', background: '#ffffff', captionFont: 'clean', inkColor: '#111111' },
+        builtIn: true,
+    },
+    {
+        id: 'kraft-scrapbook',
+        name: 'Kraft scrapbook',
+        branding: { ...DEFAULT_ALBUM_BRANDING, title: 'Our Scrapbook', subtitle: '', background: '#d8c3a0', paper: 'grain', titleColor: '#3b2a1a', captionFont: 'handwritten', inkColor: '#3b2a1a' },
+        builtIn: true,
+    },
+    {
+        id: 'night-out',
+        name: 'Night out',
+        branding: { ...DEFAULT_ALBUM_BRANDING, title: 'Past Forward', subtitle: '', background: '#1c1c24', paper: 'linen', titleColor: '#f5f0e6' },
+        builtIn: true,
+    },
+];
+
+const BRANDING_STORAGE_KEY = 'past-forward-album-branding';
+const PRESETS_STORAGE_KEY = 'past-forward-branding-presets';
+// Logos live in localStorage, so they're kept small.
+const MAX_LOGO_DIMENSION = 400;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Fills in anything missing or invalid in stored branding with the defaults.
+ * @param stored Branding as read from storage.
+ * @returns Complete branding.
+ */
+export function normalizeBranding(stored: Partial<AlbumBranding> | undefined): AlbumBranding {
+    const branding = stored ?? {};
+    return {
+        title: typeof branding.title === 'string' ? branding.title : DEFAULT_ALBUM_BRANDING.title,
+        subtitle: typeof branding.subtitle === 'string' ? branding.subtitle : DEFAULT_ALBUM_BRANDING.subtitle,
+        background: typeof branding.background === 'string' && HEX_COLOR.test(branding.background) ? branding.background : DEFAULT_ALBUM_BRANDING.background,
+        paper: PAPER_TEXTURES.some(paper => paper.id === branding.paper) ? branding.paper! : DEFAULT_ALBUM_BRANDING.paper,
+        titleColor: typeof branding.titleColor === 'string' && HEX_COLOR.test(branding.titleColor) ? branding.titleColor : DEFAULT_ALBUM_BRANDING.titleColor,
+        captionFont: CAPTION_FONTS.some(font => font.id === branding.captionFont) ? branding.captionFont! : DEFAULT_ALBUM_BRANDING.captionFont,
+        inkColor: typeof branding.inkColor === 'string' && HEX_COLOR.test(branding.inkColor) ? branding.inkColor : DEFAULT_ALBUM_BRANDING.inkColor,
+        logo: typeof branding.logo === 'string' && branding.logo.startsWith('data:image/') ? branding.logo : undefined,
+    };
+}
+
+/**
+ * Returns the CSS font family for a caption font.
+ * @param id The caption font.
+ * @returns A font family usable in `ctx.font`.
+ */
+export function getCaptionFontFamily(id: CaptionFontId): string {
+    return (CAPTION_FONTS.find(font => font.id === id) ?? CAPTION_FONTS[0]).family;
+}
+
+/**
+ * Waits for the branding's fonts, so the first export doesn't fall back to a system font.
+ * @param branding The branding about to be drawn.
+ */
+export async function loadBrandingFonts(branding: AlbumBranding): Promise<void> {
+    if (typeof document === 'undefined' || !document.fonts) return;
+    try {
+        await Promise.all([
+            document.fonts.load(`40px ${getCaptionFontFamily(branding.captionFont)}`),
+            document.fonts.load(`bold 40px 'Caveat'`),
+            document.fonts.load(`italic 40px 'Roboto'`),
+        ]);
+    } catch (error) {
+        console.warn("Could not load album fonts:", error);
+    }
+}
+
+/**
+ * Paints the page background: the colour, then the paper texture. The texture is
+ * seeded, so re-exporting gives the same page.
+ * @param ctx The context to paint.
+ * @param width The area's width.
+ * @param height The area's height.
+ * @param branding The branding.
+ */
+export function paintPaper(ctx: CanvasRenderingContext2D, width: number, height: number, branding: AlbumBranding): void {
+    ctx.save();
+    ctx.fillStyle = branding.background;
+    ctx.fillRect(0, 0, width, height);
+
+    // Patterns are drawn relative to an A4 page, so they look the same at any size.
+    const unit = width / 2480;
+    switch (branding.paper) {
+        case 'grain': {
+            const random = createSeededRandom('paper-grain');
+            const speckles = Math.round((width * height) / (600 * unit * unit));
+            for (let i = 0; i < speckles; i++) {
+                ctx.fillStyle = random() < 0.5 ? 'rgba(0, 0, 0, 0.06)' : 'rgba(255, 255, 255, 0.08)';
+                const size = (2 + random() * 4) * unit;
+                ctx.fillRect(random() * width, random() * height, size, size);
+            }
+            break;
+        }
+        case 'linen': {
+            ctx.lineWidth = 2 * unit;
+            ctx.strokeStyle = 'rgba(0, 0, 0, 0.05)';
+            const step = 12 * unit;
+            ctx.beginPath();
+            for (let x = 0; x < width; x += step) {
+                ctx.moveTo(x, 0);
+                ctx.lineTo(x, height);
+            }
+            for (let y = 0; y < height; y += step) {
+                ctx.moveTo(0, y);
+                ctx.lineTo(width, y);
+            }
+            ctx.stroke();
+            break;
+        }
+        case 'lined': {
+            ctx.lineWidth = 3 * unit;
+            ctx.strokeStyle = 'rgba(70, 110, 170, 0.18)';
+            ctx.beginPath();
+            for (let y = 120 * unit; y < height; y += 90 * unit) {
+                ctx.moveTo(0, y);
+                ctx.lineTo(width, y);
+            }
+            ctx.stroke();
+            ctx.strokeStyle = 'rgba(200, 60, 60, 0.25)';
+            ctx.beginPath();
+            ctx.moveTo(200 * unit, 0);
+            ctx.lineTo(200 * unit, height);
+            ctx.stroke();
+            break;
+        }
+        case 'plain':
+        default:
+            break;
+    }
+    ctx.restore();
+}
+
+/**
+ * Shrinks an uploaded logo and converts it to a PNG data URL, keeping transparency.
+ * @param file The logo image.
+ * @returns The logo as a data URL.
+ */
+export async function prepareLogo(file: File): Promise<string> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_LOGO_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Reads the current album branding from localStorage.
+ * @returns The saved branding, or the default.
+ */
+export function loadAlbumBranding(): AlbumBranding {
+    try {
+        const stored = localStorage.getItem(BRANDING_STORAGE_KEY);
+        if (stored) return normalizeBranding(JSON.parse(stored));
+    } catch (error) {
+        console.warn("Could not read saved album branding:", error);
+    }
+    return DEFAULT_ALBUM_BRANDING;
+}
+
+/**
+ * Saves the current album branding to localStorage.
+ * @param branding The branding to save.
+ */
+export function saveAlbumBranding(branding: AlbumBranding): void {
+    try {
+        localStorage.setItem(BRANDING_STORAGE_KEY, JSON.stringify(branding));
+    } catch (error) {
+        console.warn("Could not save album branding:", error);
+    }
+}
+
+/**
+ * Reads the user's saved branding presets from localStorage.
+ * @returns The user's presets, without the built-in ones.
+ */
+export function loadBrandingPresets(): BrandingPreset[] {
+    try {
+        const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as Partial<BrandingPreset>[];
+            if (Array.isArray(parsed)) {
+                return parsed
+                    .filter(preset => typeof preset.id === 'string' && typeof preset.name === 'string')
+                    .map(preset => ({ id: preset.id!, name: preset.name!, branding: normalizeBranding(preset.branding) }));
+            }
+        }
+    } catch (error) {
+        console.warn("Could not read saved branding presets:", error);
+    }
+    return [];
+}
+
+/**
+ * Saves the user's branding presets to localStorage.
+ * @param presets The user's presets, without the built-in ones.
+ * @returns False if they couldn't be saved, e.g. because a logo made them too large.
+ */
+export function saveBrandingPresets(presets: BrandingPreset[]): boolean {
+    try {
+        localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets.filter(preset => !preset.builtIn)));
+        return true;
+    } catch (error) {
+        console.warn("Could not save branding presets:", error);
+        return false;
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { albumCaption, createAlbumPage, dataUrlToBytes } from './albumUtils';
+import { DEFAULT_ALBUM_BRANDING, type AlbumBranding } from './albumBranding';
+import { DEFAULT_ALBUM_LAYOUT, type AlbumLayoutSelection } from './albumLayouts';
+import { eraFileSlug } from './eras';
+import { getSelectedAttempt } from './generatedImages';
+import { createZip, type ZipEntry } from './zipWriter';
+import type { GeneratedImage, PhotoSubject } from '../types';
+
+export const BUNDLE_MANIFEST_VERSION = 1;
+
+export interface AlbumBundleOptions {
+    /** The uploaded photo, after cropping. */
+    sourceImage: string;
+    /** Era labels in album order; every one needs a finished image. */
+    decades: string[];
+    generatedImages: Record<string, GeneratedImage>;
+    /** The images as they should be exported, e.g. with film looks. Defaults to each era's selected attempt. */
+    exportImages?: Record<string, string>;
+    customCaptions: Record<string, string>;
+    subject: PhotoSubject;
+    layout?: AlbumLayoutSelection;
+    branding?: AlbumBranding;
+    /** The image model currently configured, recorded for the bundle as a whole. */
+    model?: string;
+}
+
+interface ManifestDecade {
+    position: number;
+    decade: string;
+    file: string;
+    caption: string;
+    customCaption: string | null;
+    prompt: string | null;
+    promptTemplateId: string | null;
+    promptTemplateVersion: number | null;
+    model: string | null;
+    generatedAt: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+const extensionFor = (mimeType: string) => EXTENSIONS[mimeType] ?? 'bin';
+
+/**
+ * Packs everything from a finished album into one ZIP: the source photo, each
+ * era's selected image numbered by its album position, the rendered album page
+ * and a manifest.json describing how each image was made.
+ * @param options The album contents.
+ * @returns The ZIP file.
+ */
+export async function createAlbumBundle(options: AlbumBundleOptions): Promise<Blob> {
+    const { sourceImage, decades, generatedImages, exportImages, customCaptions, subject, layout = DEFAULT_ALBUM_LAYOUT, branding = DEFAULT_ALBUM_BRANDING, model } = options;
+    const groupName = subject.mode === 'group' ? subject.groupName : undefined;
+    const exportedAt = new Date();
+    const entries: ZipEntry[] = [];
+
+    const source = dataUrlToBytes(sourceImage);
+    const sourceFile = `source.${extensionFor(source.mimeType)}`;
+    entries.push({ name: sourceFile, data: source.bytes, modified: exportedAt });
+
+    const imageData: Record<string, string> = {};
+    const digits = Math.max(2, String(decades.length).length);
+    const manifestDecades: ManifestDecade[] = decades.map((decade, index) => {
+        const attempt = getSelectedAttempt(generatedImages[decade]);
+        if (!attempt) {
+            throw new Error(`No image has been generated for ${decade}.`);
+        }
+        imageData[decade] = exportImages?.[decade] ?? attempt.url;
+
+        const { mimeType, bytes } = dataUrlToBytes(imageData[decade]);
+        const position = index + 1;
+        const file = `${String(position).padStart(digits, '0')}-${eraFileSlug(decade)}.${extensionFor(mimeType)}`;
+        entries.push({ name: file, data: bytes, modified: new Date(attempt.createdAt) });
+
+        return {
+            position,
+            decade,
+            file,
+            caption: albumCaption(decade, groupName),
+            customCaption: customCaptions[decade]?.trim() || null,
+            prompt: attempt.prompt ?? null,
+            promptTemplateId: attempt.promptTemplateId ?? null,
+            promptTemplateVersion: attempt.promptTemplateVersion ?? null,
+            model: attempt.model ?? null,
+            generatedAt: new Date(attempt.createdAt).toISOString(),
+        };
+    });
+
+    const albumPage = await createAlbumPage(imageData, customCaptions, { groupName, layout, branding });
+    entries.push({ name: 'album.jpg', data: dataUrlToBytes(albumPage).bytes, modified: exportedAt });
+
+    // The logo goes in as its own file rather than a data URL in the manifest.
+    const { logo, ...brandingSettings } = branding;
+    let logoFile: string | null = null;
+    if (logo) {
+        const { mimeType, bytes } = dataUrlToBytes(logo);
+        logoFile = `logo.${extensionFor(mimeType)}`;
+        entries.push({ name: logoFile, data: bytes, modified: exportedAt });
+    }
+
+    const manifest = {
+        app: 'Past Forward',
+        version: BUNDLE_MANIFEST_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        model: model ?? null,
+        subject,
+        layout,
+        branding: { ...brandingSettings, logo: logoFile },
+        source: sourceFile,
+        album: 'album.jpg',
+        decades: manifestDecades,
+    };
+    entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2), modified: exportedAt });
+
+    return createZip(entries);
+}
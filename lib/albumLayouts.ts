@@ -0,0 +1,302 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type PageSizeId = 'a4' | 'letter' | 'square' | 'portrait-4-5';
+export type AlbumTemplateId = 'grid' | 'timeline' | 'scrapbook' | 'story' | 'hero';
+
+export interface PageSize {
+    id: PageSizeId;
+    name: string;
+    /** Pixels at 300 DPI, or a comparable resolution for social formats. */
+    width: number;
+    height: number;
+}
+
+export interface AlbumTemplate {
+    id: AlbumTemplateId;
+    name: string;
+    description: string;
+}
+
+export interface AlbumLayoutSelection {
+    template: AlbumTemplateId;
+    pageSize: PageSizeId;
+}
+
+/** Where one polaroid goes on the page. Coordinates are the polaroid's centre. */
+export interface PolaroidPlacement {
+    decade: string;
+    x: number;
+    y: number;
+    width: number;
+    /** In radians. */
+    rotation: number;
+}
+
+/** A straight line drawn under the polaroids, e.g. the rule of the timeline template. */
+export interface LayoutLine {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+export interface AlbumLayout {
+    placements: PolaroidPlacement[];
+    lines: LayoutLine[];
+}
+
+/** The part of the page polaroids may use, below the header. */
+export interface ContentArea {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const PAGE_SIZES: PageSize[] = [
+    { id: 'a4', name: 'A4', width: 2480, height: 3508 },
+    { id: 'letter', name: 'US Letter', width: 2550, height: 3300 },
+    { id: 'square', name: 'Square', width: 3000, height: 3000 },
+    { id: 'portrait-4-5', name: '4:5', width: 2400, height: 3000 },
+];
+
+export const ALBUM_TEMPLATES: AlbumTemplate[] = [
+    { id: 'grid', name: 'Classic Grid', description: 'Neat rows of polaroids, each slightly tilted.' },
+    { id: 'timeline', name: 'Timeline', description: 'A horizontal strip that runs through the eras in order.' },
+    { id: 'scrapbook', name: 'Scrapbook', description: 'Overlapping polaroids scattered across the page.' },
+    { id: 'story', name: 'Story', description: 'One polaroid after another down a single column.' },
+    { id: 'hero', name: 'Hero', description: 'The first era large, with the rest as thumbnails below.' },
+];
+
+export const DEFAULT_ALBUM_LAYOUT: AlbumLayoutSelection = { template: 'grid', pageSize: 'a4' };
+
+/** Page sizes are in pixels at this resolution; used to convert them to print units. */
+export const PAGE_DPI = 300;
+
+/** Polaroid height is this many times its width. */
+export const POLAROID_ASPECT_RATIO = 1.2;
+
+const GAP = 40;
+// Largest tilt of a hand-placed polaroid, in radians (approx. +/- 2.8 degrees).
+const GRID_TILT = 0.05;
+const SCRAPBOOK_TILT = 0.22;
+
+const LAYOUT_STORAGE_KEY = 'past-forward-album-layout';
+
+/**
+ * Returns a page size by id, falling back to A4.
+ * @param id The page size id.
+ * @returns The page size.
+ */
+export function getPageSize(id: PageSizeId): PageSize {
+    return PAGE_SIZES.find(size => size.id === id) ?? PAGE_SIZES[0];
+}
+
+/**
+ * Creates a deterministic random number generator (mulberry32) from a string,
+ * so the same album is always laid out the same way.
+ * @param seed Any string, e.g. the album's eras.
+ * @returns A function returning numbers in [0, 1).
+ */
+export function createSeededRandom(seed: string): () => number {
+    // FNV-1a hash of the seed string.
+    let state = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+    }
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Picks the number of columns that gives the largest polaroids in an area.
+ * @param count The number of polaroids.
+ * @param area The area to fill.
+ * @returns The columns, rows and polaroid width.
+ */
+function fitGrid(count: number, area: ContentArea): { cols: number; rows: number; width: number } {
+    let best = { cols: 1, rows: Math.max(1, count), width: 0 };
+    for (let cols = 1; cols <= Math.max(1, count); cols++) {
+        const rows = Math.max(1, Math.ceil(count / cols));
+        const cellWidth = (area.width - GAP * (cols + 1)) / cols;
+        const cellHeight = (area.height - GAP * (rows + 1)) / rows;
+        const width = Math.min(cellWidth, cellHeight / POLAROID_ASPECT_RATIO);
+        if (width > best.width) best = { cols, rows, width };
+    }
+    return best;
+}
+
+/**
+ * Lays polaroids out on a grid, centring each in its cell.
+ * @returns Cell centres and the polaroid width, in album order.
+ */
+function gridCells(count: number, area: ContentArea) {
+    const { cols, rows, width } = fitGrid(count, area);
+    const cellWidth = (area.width - GAP * (cols + 1)) / cols;
+    const cellHeight = (area.height - GAP * (rows + 1)) / rows;
+    const cells = Array.from({ length: count }, (_, index) => {
+        const row = Math.floor(index / cols);
+        const col = index % cols;
+        return {
+            x: area.x + GAP * (col + 1) + cellWidth * col + cellWidth / 2,
+            y: area.y + GAP * (row + 1) + cellHeight * row + cellHeight / 2,
+        };
+    });
+    return { cells, width, cellWidth, cellHeight };
+}
+
+const tilt = (random: () => number, max: number) => (random() - 0.5) * 2 * max;
+
+function layoutGrid(decades: string[], area: ContentArea, random: () => number): AlbumLayout {
+    const { cells, width } = gridCells(decades.length, area);
+    return {
+        placements: decades.map((decade, index) => ({ decade, ...cells[index], width, rotation: tilt(random, GRID_TILT) })),
+        lines: [],
+    };
+}
+
+function layoutTimeline(decades: string[], area: ContentArea, random: () => number): AlbumLayout {
+    const isLandscape = area.width >= area.height;
+    const perRow = Math.min(decades.length, isLandscape ? 6 : 4);
+    const rows = Math.max(1, Math.ceil(decades.length / perRow));
+    const rowHeight = area.height / rows;
+    // Leave room for the zigzag above and below the rule.
+    const width = Math.min((area.width - GAP * (perRow + 1)) / perRow, (rowHeight * 0.7) / POLAROID_ASPECT_RATIO);
+    const height = width * POLAROID_ASPECT_RATIO;
+    const step = (area.width - GAP * 2) / perRow;
+
+    const placements: PolaroidPlacement[] = [];
+    const lines: LayoutLine[] = [];
+    for (let row = 0; row < rows; row++) {
+        const y = area.y + rowHeight * row + rowHeight / 2;
+        const rowDecades = decades.slice(row * perRow, (row + 1) * perRow);
+        const rowStart = area.x + GAP + (area.width - GAP * 2 - step * rowDecades.length) / 2;
+        lines.push({ x1: area.x + GAP, y1: y, x2: area.x + area.width - GAP, y2: y });
+        rowDecades.forEach((decade, index) => {
+            const offset = (index % 2 === 0 ? -1 : 1) * height * 0.1;
+            placements.push({
+                decade,
+                x: rowStart + step * index + step / 2,
+                y: y + offset,
+                width,
+                rotation: tilt(random, GRID_TILT),
+            });
+        });
+    }
+    return { placements, lines };
+}
+
+function layoutScrapbook(decades: string[], area: ContentArea, random: () => number): AlbumLayout {
+    const { cells, width, cellWidth, cellHeight } = gridCells(decades.length, area);
+    // Bigger than a grid cell so neighbours overlap, but never off the page.
+    const scrapbookWidth = Math.min(width * 1.15, area.width - GAP * 2);
+    const halfWidth = scrapbookWidth / 2;
+    const halfHeight = (scrapbookWidth * POLAROID_ASPECT_RATIO) / 2;
+    return {
+        placements: decades.map((decade, index) => {
+            const x = cells[index].x + tilt(random, cellWidth * 0.12);
+            const y = cells[index].y + tilt(random, cellHeight * 0.12);
+            return {
+                decade,
+                x: Math.min(Math.max(x, area.x + halfWidth), area.x + area.width - halfWidth),
+                y: Math.min(Math.max(y, area.y + halfHeight), area.y + area.height - halfHeight),
+                width: scrapbookWidth,
+                rotation: tilt(random, SCRAPBOOK_TILT),
+            };
+        }),
+        lines: [],
+    };
+}
+
+function layoutStory(decades: string[], area: ContentArea, random: () => number): AlbumLayout {
+    const rowHeight = area.height / Math.max(1, decades.length);
+    const width = Math.min(area.width * 0.6, (rowHeight - GAP) / POLAROID_ASPECT_RATIO);
+    return {
+        placements: decades.map((decade, index) => ({
+            decade,
+            x: area.x + area.width / 2,
+            y: area.y + rowHeight * index + rowHeight / 2,
+            width,
+            rotation: tilt(random, GRID_TILT),
+        })),
+        lines: [],
+    };
+}
+
+function layoutHero(decades: string[], area: ContentArea, random: () => number): AlbumLayout {
+    const [hero, ...rest] = decades;
+    if (!hero) return { placements: [], lines: [] };
+    if (rest.length === 0) return layoutGrid(decades, area, random);
+
+    const heroArea = { ...area, height: area.height * 0.58 };
+    const heroWidth = Math.min(area.width * 0.7, (heroArea.height - GAP * 2) / POLAROID_ASPECT_RATIO);
+    const thumbArea = { ...area, y: area.y + heroArea.height, height: area.height - heroArea.height };
+    const thumbs = layoutGrid(rest, thumbArea, random);
+    return {
+        placements: [
+            { decade: hero, x: area.x + area.width / 2, y: heroArea.y + heroArea.height / 2, width: heroWidth, rotation: tilt(random, GRID_TILT / 2) },
+            ...thumbs.placements,
+        ],
+        lines: [],
+    };
+}
+
+/**
+ * Computes where every polaroid goes for a template.
+ * @param template The album template.
+ * @param decades The era labels, in album order.
+ * @param area The part of the page to fill.
+ * @param seed Makes the tilts and scatter repeatable; the same seed gives the same layout.
+ * @returns The placements, in album order, and any lines to draw beneath them.
+ */
+export function computeAlbumLayout(template: AlbumTemplateId, decades: string[], area: ContentArea, seed: string): AlbumLayout {
+    const random = createSeededRandom(`${template}:${seed}`);
+    switch (template) {
+        case 'timeline': return layoutTimeline(decades, area, random);
+        case 'scrapbook': return layoutScrapbook(decades, area, random);
+        case 'story': return layoutStory(decades, area, random);
+        case 'hero': return layoutHero(decades, area, random);
+        case 'grid':
+        default:
+            return layoutGrid(decades, area, random);
+    }
+}
+
+/**
+ * Reads the user's album template and page size from localStorage.
+ * @returns The saved selection, or the default.
+ */
+export function loadAlbumLayoutSelection(): AlbumLayoutSelection {
+    try {
+        const stored = localStorage.getItem(LAYOUT_STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as Partial<AlbumLayoutSelection>;
+            return {
+                template: ALBUM_TEMPLATES.some(t => t.id === parsed.template) ? parsed.template! : DEFAULT_ALBUM_LAYOUT.template,
+                pageSize: PAGE_SIZES.some(size => size.id === parsed.pageSize) ? parsed.pageSize! : DEFAULT_ALBUM_LAYOUT.pageSize,
+            };
+        }
+    } catch (error) {
+        console.warn("Could not read saved album layout:", error);
+    }
+    return DEFAULT_ALBUM_LAYOUT;
+}
+
+/**
+ * Saves the user's album template and page size to localStorage.
+ * @param selection The selection to save.
+ */
+export function saveAlbumLayoutSelection(selection: AlbumLayoutSelection): void {
+    try {
+        localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(selection));
+    } catch (error) {
+        console.warn("Could not save album layout:", error);
+    }
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+    albumCaption,
+    createPageCanvas,
+    drawBrandingLogo,
+    drawPolaroid,
+    getPageTextScale,
+    getPolaroidPhotoRect,
+    loadImage,
+    renderAlbumPage,
+    type AlbumPageOptions,
+} from './albumUtils';
+import { DEFAULT_ALBUM_BRANDING, loadBrandingFonts, type AlbumBranding } from './albumBranding';
+import { DEFAULT_ALBUM_LAYOUT, getPageSize, PAGE_DPI, POLAROID_ASPECT_RATIO, type PageSize, type PolaroidPlacement } from './albumLayouts';
+import { buildPdf, pdfImageFromDataUrl, type PdfPage, type PdfPlacedImage } from './pdfWriter';
+
+const POINTS_PER_INCH = 72;
+
+interface PhotoOverlay {
+    dataUrl: string;
+    img: HTMLImageElement;
+    placement: PolaroidPlacement;
+}
+
+/**
+ * Turns a rendered page into a PDF page. The canvas becomes the background, and
+ * each photo is laid over its spot on the polaroid using the original file, so
+ * the PDF keeps full resolution instead of the page's re-compressed copy.
+ * Overlays must be unrotated.
+ */
+async function toPdfPage(canvas: HTMLCanvasElement, page: PageSize, overlays: PhotoOverlay[] = []): Promise<PdfPage> {
+    const toPoints = POINTS_PER_INCH / PAGE_DPI;
+    const background = await pdfImageFromDataUrl(canvas.toDataURL('image/jpeg', 0.9));
+    const images: PdfPlacedImage[] = [{ image: background, x: 0, y: 0, width: page.width * toPoints, height: page.height * toPoints }];
+
+    for (const { dataUrl, img, placement } of overlays) {
+        const photo = getPolaroidPhotoRect(img, placement.width);
+        images.push({
+            image: await pdfImageFromDataUrl(dataUrl),
+            x: (placement.x + photo.x) * toPoints,
+            y: (placement.y + photo.y) * toPoints,
+            width: photo.width * toPoints,
+            height: photo.height * toPoints,
+        });
+    }
+    return { width: page.width * toPoints, height: page.height * toPoints, images };
+}
+
+/** The largest unrotated polaroid that fits in an area, centred in it. */
+function centredPlacement(decade: string, x: number, y: number, width: number, height: number): PolaroidPlacement {
+    return {
+        decade,
+        x: x + width / 2,
+        y: y + height / 2,
+        width: Math.min(width, height / POLAROID_ASPECT_RATIO),
+        rotation: 0,
+    };
+}
+
+async function renderCoverPage(page: PageSize, sourceImage: string, decades: string[], branding: AlbumBranding, groupName?: string): Promise<PdfPage> {
+    const { canvas, ctx } = createPageCanvas(page, 1, branding);
+    const textScale = getPageTextScale(page);
+    await drawBrandingLogo(ctx, page, branding);
+
+    ctx.fillStyle = branding.titleColor;
+    ctx.textAlign = 'center';
+    const title = branding.title.trim();
+    if (title) {
+        ctx.font = `bold ${Math.round(180 * textScale)}px 'Caveat', cursive`;
+        ctx.fillText(title, page.width / 2, 300 * textScale);
+    }
+
+    ctx.font = `italic ${Math.round(60 * textScale)}px 'Roboto', sans-serif`;
+    ctx.globalAlpha = 0.8;
+    const range = decades.length > 1 ? `${decades[0]} – ${decades[decades.length - 1]}` : decades[0] ?? '';
+    ctx.fillText(groupName?.trim() ? `${groupName.trim()}, ${range}` : range, page.width / 2, 410 * textScale);
+    ctx.globalAlpha = 1;
+
+    const top = 520 * textScale;
+    const margin = 200 * textScale;
+    const img = await loadImage(sourceImage);
+    const placement = centredPlacement('Original', margin, top, page.width - margin * 2, page.height - top - margin);
+    drawPolaroid(ctx, img, placement, 'The original', undefined, branding);
+
+    return toPdfPage(canvas, page, [{ dataUrl: sourceImage, img, placement }]);
+}
+
+async function renderDecadePage(page: PageSize, decade: string, dataUrl: string, branding: AlbumBranding, caption: string, customCaption?: string): Promise<PdfPage> {
+    const { canvas, ctx } = createPageCanvas(page, 1, branding);
+    const margin = 200 * getPageTextScale(page);
+    const img = await loadImage(dataUrl);
+    const placement = centredPlacement(decade, margin, margin, page.width - margin * 2, page.height - margin * 2);
+    drawPolaroid(ctx, img, placement, caption, customCaption, branding);
+    return toPdfPage(canvas, page, [{ dataUrl, img, placement }]);
+}
+
+/**
+ * Builds a printable, multi-page PDF album: a cover with the source photo,
+ * one page per era at full resolution and a closing timeline page.
+ * @param imageData A record mapping era labels to their image data URLs, in album order.
+ * @param customCaptions A record mapping decade strings to user-provided captions.
+ * @param sourceImage The uploaded photo, shown on the cover.
+ * @param options Page size, group name and branding; the template only affects the album page.
+ * @returns The PDF file.
+ */
+export async function createAlbumPdf(
+    imageData: Record<string, string>,
+    customCaptions: Record<string, string>,
+    sourceImage: string,
+    options: AlbumPageOptions = {}
+): Promise<Blob> {
+    const { groupName, layout = DEFAULT_ALBUM_LAYOUT, branding = DEFAULT_ALBUM_BRANDING } = options;
+    const page = getPageSize(layout.pageSize);
+    const decades = Object.keys(imageData);
+    await loadBrandingFonts(branding);
+
+    // Pages are rendered one at a time so only one full-size canvas is alive at once.
+    const pages: PdfPage[] = [await renderCoverPage(page, sourceImage, decades, branding, groupName)];
+    for (const decade of decades) {
+        pages.push(await renderDecadePage(page, decade, imageData[decade], branding, albumCaption(decade, groupName), customCaptions[decade]));
+    }
+    const timeline = await renderAlbumPage(imageData, customCaptions, { ...options, layout: { ...layout, template: 'timeline' } });
+    pages.push(await toPdfPage(timeline, page));
+
+    return buildPdf(pages, { title: branding.title.trim() || 'Past Forward Album', creator: 'Past Forward' });
+}
@@ -2,16 +2,23 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import {
+    computeAlbumLayout,
+    DEFAULT_ALBUM_LAYOUT,
+    getPageSize,
+    POLAROID_ASPECT_RATIO,
+    type AlbumLayoutSelection,
+    type PageSize,
+    type PolaroidPlacement,
+} from './albumLayouts';
+import { DEFAULT_ALBUM_BRANDING, getCaptionFontFamily, loadBrandingFonts, paintPaper, type AlbumBranding } from './albumBranding';
+import { getCanvasBackend } from './canvasBackend';
+import { createGifEncoder } from './gifEncoder';
+import { delay } from './utils';
+
 // Helper function to load an image and return it as an HTMLImageElement
-function loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        // Setting crossOrigin is good practice for canvas operations, even with data URLs
-        img.crossOrigin = 'anonymous';
-        img.onload = () => resolve(img);
-        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
-        img.src = src;
-    });
+export function loadImage(src: string): Promise<HTMLImageElement> {
+    return getCanvasBackend().loadImage(src);
 }
 
 /**
@@ -26,163 +33,567 @@ export async function dataUrlToFile(dataUrl: string, fileName: string): Promise<
     return new File([blob], fileName, { type: blob.type });
 }
 
+/**
+ * Decodes a base64 data URL into its bytes and mime type.
+ * @param dataUrl The data URL to decode.
+ * @returns The bytes and mime type.
+ */
+export function dataUrlToBytes(dataUrl: string): { mimeType: string; bytes: Uint8Array } {
+    const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+    if (!match) {
+        throw new Error("Invalid data URL format. Expected 'data:...;base64,...'");
+    }
+    const binary = atob(match[2]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return { mimeType: match[1], bytes };
+}
 
 /**
- * Creates a single "photo album" page image from a collection of decade images.
- * @param imageData A record mapping decade strings to their image data URLs.
- * @param customCaptions A record mapping decade strings to user-provided captions.
- * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ * Builds the main caption for an era in the album, e.g. "The Smiths, 1970s".
+ * @param decade The era label.
+ * @param groupName The name of the group in a group photo, if any.
+ * @returns The caption.
  */
-export async function createAlbumPage(
-    imageData: Record<string, string>,
-    customCaptions: Record<string, string>
-): Promise<string> {
-    const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
+export function albumCaption(decade: string, groupName?: string): string {
+    const name = groupName?.trim();
+    return name ? `${name}, ${decade}` : decade;
+}
+
+export interface AlbumPageOptions {
+    /** The group's name for group photos, shown before each era. */
+    groupName?: string;
+    layout?: AlbumLayoutSelection;
+    /** Renders the page smaller, e.g. 0.25 for a preview. Layout is unaffected. */
+    scale?: number;
+    /** Makes tilts repeatable. Defaults to the eras, so re-exporting the same album matches. */
+    seed?: string;
+    /** Title, colours, fonts and logo. */
+    branding?: AlbumBranding;
+}
+
+// Caption sizes were tuned for a polaroid this wide (the six-photo A4 grid).
+const REFERENCE_POLAROID_WIDTH = 847;
+// Header sizes were tuned for an A4 page this wide.
+const REFERENCE_PAGE_WIDTH = 2480;
+// The logo's largest size in the page header, on an A4 page.
+const LOGO_MAX_WIDTH = 420;
+const LOGO_MAX_HEIGHT = 200;
+
+/**
+ * How much larger than A4 text and decorations should be drawn on a page.
+ * @param page The page size.
+ * @returns The scale factor.
+ */
+export function getPageTextScale(page: PageSize): number {
+    return page.width / REFERENCE_PAGE_WIDTH;
+}
+
+/**
+ * Works out where the photo sits inside a polaroid, fitted to its square photo
+ * area while keeping its aspect ratio.
+ * @param img The era's image.
+ * @param polaroidWidth The width of the polaroid.
+ * @returns The photo's rectangle, relative to the polaroid's centre before rotation.
+ */
+export function getPolaroidPhotoRect(img: HTMLImageElement, polaroidWidth: number): { x: number; y: number; width: number; height: number } {
+    const polaroidHeight = polaroidWidth * POLAROID_ASPECT_RATIO;
+    const imageContainerWidth = polaroidWidth * 0.9;
+    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
+
+    const aspectRatio = img.naturalWidth / img.naturalHeight;
+    let drawWidth = imageContainerWidth;
+    let drawHeight = drawWidth / aspectRatio;
+
+    if (drawHeight > imageContainerHeight) {
+        drawHeight = imageContainerHeight;
+        drawWidth = drawHeight * aspectRatio;
+    }
+
+    // Centre the image within its container area
+    const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
+    const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
+    return {
+        x: -drawWidth / 2,
+        y: imageContainerY + (imageContainerHeight - drawHeight) / 2,
+        width: drawWidth,
+        height: drawHeight,
+    };
+}
+
+/**
+ * Creates a blank album page with the paper background. The returned context
+ * draws in full-size page units whatever the scale.
+ * @param page The page size.
+ * @param scale Renders the page smaller, e.g. for a preview.
+ * @param branding The background colour and paper texture.
+ * @returns The canvas and its context.
+ */
+export function createPageCanvas(page: PageSize, scale = 1, branding: AlbumBranding = DEFAULT_ALBUM_BRANDING): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+    const canvas = getCanvasBackend().createCanvas(Math.round(page.width * scale), Math.round(page.height * scale));
     const ctx = canvas.getContext('2d');
     if (!ctx) {
         throw new Error('Could not get 2D canvas context');
     }
+    ctx.scale(scale, scale);
 
-    // 1. Draw the album page background
-    ctx.fillStyle = '#fdf5e6'; // A warm, parchment-like color
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    paintPaper(ctx, page.width, page.height, branding);
+    return { canvas, ctx };
+}
 
-    // 2. Draw the title
-    ctx.fillStyle = '#333';
+/**
+ * Draws the branding logo, if there is one, in the page's top-left corner.
+ * @param ctx The page context.
+ * @param page The page size.
+ * @param branding The branding.
+ */
+export async function drawBrandingLogo(ctx: CanvasRenderingContext2D, page: PageSize, branding: AlbumBranding): Promise<void> {
+    if (!branding.logo) return;
+    const textScale = getPageTextScale(page);
+    const logo = await loadImage(branding.logo);
+    const fit = Math.min(LOGO_MAX_WIDTH * textScale / logo.naturalWidth, LOGO_MAX_HEIGHT * textScale / logo.naturalHeight);
+    ctx.drawImage(logo, 80 * textScale, 50 * textScale, logo.naturalWidth * fit, logo.naturalHeight * fit);
+}
+
+/**
+ * Draws one polaroid, with its photo and captions, centred on its placement.
+ * @param ctx The page context.
+ * @param img The era's image.
+ * @param placement Where and how large to draw it.
+ * @param caption The main caption, e.g. "1970s".
+ * @param customCaption The user's caption, drawn below the main one.
+ * @param branding The caption font and ink colour.
+ */
+export function drawPolaroid(
+    ctx: CanvasRenderingContext2D,
+    img: HTMLImageElement,
+    placement: PolaroidPlacement,
+    caption: string,
+    customCaption?: string,
+    branding: AlbumBranding = DEFAULT_ALBUM_BRANDING
+): void {
+    const polaroidWidth = placement.width;
+    const polaroidHeight = polaroidWidth * POLAROID_ASPECT_RATIO;
+    const fontScale = polaroidWidth / REFERENCE_POLAROID_WIDTH;
+
+    const imageContainerWidth = polaroidWidth * 0.9;
+    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
+
+    ctx.save();
+
+    // Translate context to the center of the polaroid for rotation
+    ctx.translate(placement.x, placement.y);
+    ctx.rotate(placement.rotation);
+
+    // Draw a soft shadow
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+    ctx.shadowBlur = 35 * fontScale;
+    ctx.shadowOffsetX = 5 * fontScale;
+    ctx.shadowOffsetY = 10 * fontScale;
+
+    // Draw the white polaroid frame (centered at the new origin)
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
+
+    // Remove shadow for subsequent drawing
+    ctx.shadowColor = 'transparent';
+
+    const photo = getPolaroidPhotoRect(img, polaroidWidth);
+    const imageContainerY = -polaroidHeight / 2 + (polaroidWidth - imageContainerWidth) / 2;
+
+    ctx.drawImage(img, photo.x, photo.y, photo.width, photo.height);
+
+    // --- Draw captions ---
+    const fontFamily = getCaptionFontFamily(branding.captionFont);
+    ctx.fillStyle = branding.inkColor;
     ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
 
-    ctx.font = `bold 100px 'Caveat', cursive`;
-    ctx.fillText('Generated with Past Forward', canvasWidth / 2, 150);
+    const captionAreaTop = imageContainerY + imageContainerHeight;
+    const captionAreaBottom = polaroidHeight / 2;
+    const captionAreaHeight = captionAreaBottom - captionAreaTop;
 
-    ctx.font = `italic 50px 'Roboto', sans-serif`;
-    ctx.fillStyle = '#555';
-    ctx.fillText('Created by Pierre Rouleau', canvasWidth / 2, 220);
+    // Group names can make the caption wider than the polaroid; shrink it to fit.
+    const setCaptionFont = (size: number) => {
+        ctx.font = `${size}px ${fontFamily}`;
+        const width = ctx.measureText(caption).width;
+        if (width > imageContainerWidth) {
+            ctx.font = `${Math.floor(size * imageContainerWidth / width)}px ${fontFamily}`;
+        }
+    };
 
-    // 3. Load all the polaroid images concurrently
+    if (customCaption) {
+        // If there's a custom caption, draw decade on top, custom caption on bottom
+        setCaptionFont(Math.round(60 * fontScale));
+        const decadeY = captionAreaTop + captionAreaHeight * 0.35;
+        ctx.fillText(caption, 0, decadeY);
+
+        ctx.font = `${Math.round(45 * fontScale)}px ${fontFamily}`;
+        // A lighter stroke of the same pen.
+        ctx.globalAlpha *= 0.85;
+        const customCaptionY = captionAreaTop + captionAreaHeight * 0.75;
+        ctx.fillText(customCaption, 0, customCaptionY);
+    } else {
+        // Otherwise, just center the decade
+        setCaptionFont(Math.round(60 * fontScale));
+        const captionY = captionAreaTop + captionAreaHeight / 2;
+        ctx.fillText(caption, 0, captionY);
+    }
+
+    ctx.restore(); // Restore context to pre-transformation state
+}
+
+/**
+ * Renders a "photo album" page from a collection of era images.
+ * @param imageData A record mapping era labels to their image data URLs, in album order.
+ * @param customCaptions A record mapping decade strings to user-provided captions.
+ * @param options Template, page size, preview scale, group name and branding.
+ * @returns A promise that resolves to the rendered canvas.
+ */
+export async function renderAlbumPage(
+    imageData: Record<string, string>,
+    customCaptions: Record<string, string>,
+    options: AlbumPageOptions = {}
+): Promise<HTMLCanvasElement> {
+    const { groupName, layout = DEFAULT_ALBUM_LAYOUT, scale = 1, branding = DEFAULT_ALBUM_BRANDING } = options;
+    const page = getPageSize(layout.pageSize);
     const decades = Object.keys(imageData);
+    await loadBrandingFonts(branding);
+
+    // 1. Draw the album page background. Everything below is drawn in full-size page units.
+    const { canvas, ctx } = createPageCanvas(page, scale, branding);
+    const headerScale = getPageTextScale(page);
+
+    // 2. Draw the title, subtitle and logo. Any of them can be left out.
+    ctx.fillStyle = branding.titleColor;
+    ctx.textAlign = 'center';
+
+    const title = branding.title.trim();
+    if (title) {
+        ctx.font = `bold ${Math.round(100 * headerScale)}px 'Caveat', cursive`;
+        ctx.fillText(title, page.width / 2, 150 * headerScale);
+    }
+
+    const subtitle = branding.subtitle.trim();
+    if (subtitle) {
+        ctx.font = `italic ${Math.round(50 * headerScale)}px 'Roboto', sans-serif`;
+        ctx.globalAlpha = 0.8;
+        ctx.fillText(subtitle, page.width / 2, 220 * headerScale);
+        ctx.globalAlpha = 1;
+    }
+    await drawBrandingLogo(ctx, page, branding);
+    const hasHeader = Boolean(title || subtitle || branding.logo);
+
+    // 3. Load all the polaroid images concurrently
     const loadedImages = await Promise.all(
         Object.values(imageData).map(url => loadImage(url))
     );
+    const imagesByDecade = new Map(decades.map((decade, index) => [decade, loadedImages[index]]));
 
-    const imagesWithDecades = decades.map((decade, index) => ({
-        decade,
-        img: loadedImages[index],
-    }));
+    // 4. Lay out the page and draw each polaroid
+    const contentTop = (hasHeader ? 300 : 100) * headerScale; // Space for the header
+    const { placements, lines } = computeAlbumLayout(
+        layout.template,
+        decades,
+        { x: 0, y: contentTop, width: page.width, height: page.height - contentTop },
+        options.seed ?? decades.join('|')
+    );
+
+    ctx.strokeStyle = '#c9b99a';
+    ctx.lineWidth = 8 * headerScale;
+    ctx.lineCap = 'round';
+    lines.forEach(line => {
+        ctx.beginPath();
+        ctx.moveTo(line.x1, line.y1);
+        ctx.lineTo(line.x2, line.y2);
+        ctx.stroke();
+    });
+
+    // Reverse the drawing order: draw later polaroids first so earlier ones are rendered on top
+    [...placements].reverse().forEach(placement => {
+        drawPolaroid(
+            ctx,
+            imagesByDecade.get(placement.decade)!,
+            placement,
+            albumCaption(placement.decade, groupName),
+            customCaptions[placement.decade],
+            branding
+        );
+    });
+
+    return canvas;
+}
+
+/**
+ * Creates a single "photo album" page image from a collection of era images.
+ * @param imageData A record mapping era labels to their image data URLs, in album order.
+ * @param customCaptions A record mapping decade strings to user-provided captions.
+ * @param options Template, page size, preview scale, group name and branding.
+ * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
+ */
+export async function createAlbumPage(
+    imageData: Record<string, string>,
+    customCaptions: Record<string, string>,
+    options: AlbumPageOptions = {}
+): Promise<string> {
+    const canvas = await renderAlbumPage(imageData, customCaptions, options);
+    // Convert canvas to a high-quality JPEG and return the data URL
+    return canvas.toDataURL('image/jpeg', 0.9);
+}
+
+export type AnimationFormat = 'gif' | 'webm';
+/** 'morph' crossfades while zooming gently from one era into the next. */
+export type AnimationTransition = 'cut' | 'crossfade' | 'morph';
+export type AnimationCaptionStyle = 'none' | 'banner' | 'polaroid';
+
+export interface AnimationOptions {
+    /** How long each era is shown before the transition starts. */
+    frameDurationMs?: number;
+    transition?: AnimationTransition;
+    transitionMs?: number;
+    caption?: AnimationCaptionStyle;
+    /** Width and height of the square animation, in pixels. */
+    size?: number;
+    groupName?: string;
+    /** The paper and caption font for polaroid frames and banners. */
+    branding?: AlbumBranding;
+}
 
-    // 4. Define grid layout and draw each polaroid
-    const grid = { cols: 2, rows: 3, padding: 40 };
-    const contentTopMargin = 300; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
+interface AnimationSlide {
+    img: HTMLImageElement;
+    caption: string;
+    customCaption?: string;
+}
+
+const DEFAULT_ANIMATION_OPTIONS: Required<Omit<AnimationOptions, 'groupName'>> = {
+    frameDurationMs: 1200,
+    transition: 'crossfade',
+    transitionMs: 600,
+    caption: 'banner',
+    size: 480,
+    branding: DEFAULT_ALBUM_BRANDING,
+};
+
+// GIF delays below ~20ms are ignored by most viewers, so transitions step at this rate.
+const GIF_TRANSITION_STEP_MS = 80;
+const WEBM_FPS = 30;
+// How far the morph transition zooms in, as a fraction of the frame.
+const MORPH_ZOOM = 0.08;
 
-    // Calculate polaroid dimensions to fit inside the grid cell with a margin
-    const polaroidAspectRatio = 1.2; // height is 1.2 times width
-    const maxPolaroidWidth = cellWidth;
-    const maxPolaroidHeight = cellHeight;
+async function loadSlides(imageData: Record<string, string>, customCaptions: Record<string, string>, groupName?: string): Promise<AnimationSlide[]> {
+    const decades = Object.keys(imageData);
+    const images = await Promise.all(decades.map(decade => loadImage(imageData[decade])));
+    return decades.map((decade, index) => ({
+        img: images[index],
+        caption: albumCaption(decade, groupName),
+        customCaption: customCaptions[decade],
+    }));
+}
 
-    let polaroidWidth = maxPolaroidWidth;
-    let polaroidHeight = polaroidWidth * polaroidAspectRatio;
+/** Draws one era filling the frame, scaled about the centre. */
+function drawSlide(ctx: CanvasRenderingContext2D, slide: AnimationSlide, size: number, caption: AnimationCaptionStyle, zoom: number, branding: AlbumBranding) {
+    ctx.save();
+    ctx.translate(size / 2, size / 2);
+    ctx.scale(zoom, zoom);
+    ctx.translate(-size / 2, -size / 2);
 
-    if (polaroidHeight > maxPolaroidHeight) {
-        polaroidHeight = maxPolaroidHeight;
-        polaroidWidth = polaroidHeight / polaroidAspectRatio;
+    if (caption === 'polaroid') {
+        paintPaper(ctx, size, size, branding);
+        const width = (size * 0.92) / POLAROID_ASPECT_RATIO;
+        drawPolaroid(ctx, slide.img, { decade: slide.caption, x: size / 2, y: size / 2, width, rotation: 0 }, slide.caption, slide.customCaption, branding);
+        ctx.restore();
+        return;
     }
 
-    const imageContainerWidth = polaroidWidth * 0.9;
-    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
+    // Cover the frame, cropping the longer side.
+    const { naturalWidth, naturalHeight } = slide.img;
+    const crop = Math.min(naturalWidth, naturalHeight);
+    ctx.drawImage(slide.img, (naturalWidth - crop) / 2, (naturalHeight - crop) / 2, crop, crop, 0, 0, size, size);
 
-    // Reverse the drawing order: draw bottom rows first so top rows are rendered on top
-    const reversedImages = [...imagesWithDecades].reverse();
-    reversedImages.forEach(({ decade, img }, reversedIndex) => {
-        // Calculate the original index to determine grid position
-        const index = imagesWithDecades.length - 1 - reversedIndex;
-
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
-
-        // Calculate top-left corner of the polaroid within its grid cell
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - polaroidWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - polaroidHeight) / 2;
-        
-        ctx.save();
-        
-        // Translate context to the center of the polaroid for rotation
-        ctx.translate(x + polaroidWidth / 2, y + polaroidHeight / 2);
-        
-        // Apply a slight, random rotation for a hand-placed look
-        const rotation = (Math.random() - 0.5) * 0.1; // Radians (approx. +/- 2.8 degrees)
-        ctx.rotate(rotation);
-        
-        // Draw a soft shadow
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-        ctx.shadowBlur = 35;
-        ctx.shadowOffsetX = 5;
-        ctx.shadowOffsetY = 10;
-        
-        // Draw the white polaroid frame (centered at the new origin)
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
-        
-        // Remove shadow for subsequent drawing
-        ctx.shadowColor = 'transparent';
-        
-        // Calculate image dimensions to fit while maintaining aspect ratio
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
-
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
-        }
+    if (caption === 'banner') {
+        const bannerHeight = size * 0.16;
+        const gradient = ctx.createLinearGradient(0, size - bannerHeight * 1.5, 0, size);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0.7)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, size - bannerHeight * 1.5, size, bannerHeight * 1.5);
 
-        // Calculate position to center the image within its container area
-        const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
-        const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
-        
-        const imgX = -drawWidth / 2; // Horizontally centered due to context translation
-        const imgY = imageContainerY + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
-        // --- Draw captions ---
-        ctx.fillStyle = '#222';
+        const text = slide.customCaption ? `${slide.caption} · ${slide.customCaption}` : slide.caption;
+        ctx.fillStyle = '#fff';
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
-        
-        const captionAreaTop = imageContainerY + imageContainerHeight;
-        const captionAreaBottom = polaroidHeight / 2;
-        const captionAreaHeight = captionAreaBottom - captionAreaTop;
-
-        const customCaptionText = customCaptions[decade];
-
-        if (customCaptionText) {
-            // If there's a custom caption, draw decade on top, custom caption on bottom
-            ctx.font = `60px 'Permanent Marker', cursive`;
-            const decadeY = captionAreaTop + captionAreaHeight * 0.35;
-            ctx.fillText(decade, 0, decadeY);
-
-            ctx.font = `45px 'Permanent Marker', cursive`;
-            ctx.fillStyle = '#444';
-            const customCaptionY = captionAreaTop + captionAreaHeight * 0.75;
-            ctx.fillText(customCaptionText, 0, customCaptionY);
-        } else {
-            // Otherwise, just center the decade
-            ctx.font = `60px 'Permanent Marker', cursive`;
-            const captionY = captionAreaTop + captionAreaHeight / 2;
-            ctx.fillText(decade, 0, captionY);
+        const fontFamily = getCaptionFontFamily(branding.captionFont);
+        ctx.font = `${Math.round(size * 0.07)}px ${fontFamily}`;
+        const width = ctx.measureText(text).width;
+        if (width > size * 0.9) {
+            ctx.font = `${Math.floor(size * 0.07 * (size * 0.9) / width)}px ${fontFamily}`;
         }
-        
-        ctx.restore(); // Restore context to pre-transformation state
+        ctx.fillText(text, size / 2, size - bannerHeight / 2);
+    }
+    ctx.restore();
+}
+
+/**
+ * Draws the frame between two eras.
+ * @param progress 0 shows only `from`, 1 only `to`.
+ */
+function drawTransitionFrame(
+    ctx: CanvasRenderingContext2D,
+    from: AnimationSlide,
+    to: AnimationSlide,
+    progress: number,
+    options: Required<Omit<AnimationOptions, 'groupName'>>
+) {
+    const { size, caption, transition, branding } = options;
+    const isMorph = transition === 'morph';
+    ctx.globalAlpha = 1;
+    drawSlide(ctx, from, size, caption, isMorph ? 1 + MORPH_ZOOM * progress : 1, branding);
+    if (progress > 0) {
+        ctx.globalAlpha = progress;
+        drawSlide(ctx, to, size, caption, isMorph ? 1 + MORPH_ZOOM * (1 - progress) : 1, branding);
+        ctx.globalAlpha = 1;
+    }
+}
+
+function createAnimationCanvas(size: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    return { canvas, ctx };
+}
+
+/**
+ * Creates a looping GIF that cycles through the eras in album order.
+ * @param imageData A record mapping era labels to their image data URLs, in album order.
+ * @param customCaptions A record mapping decade strings to user-provided captions.
+ * @param options Timing, transition, caption style and branding.
+ * @returns The GIF file.
+ */
+export async function createAnimatedGif(
+    imageData: Record<string, string>,
+    customCaptions: Record<string, string>,
+    options: AnimationOptions = {}
+): Promise<Blob> {
+    const settings = { ...DEFAULT_ANIMATION_OPTIONS, ...options };
+    const slides = await loadSlides(imageData, customCaptions, options.groupName);
+    await loadBrandingFonts(settings.branding);
+    const { ctx } = createAnimationCanvas(settings.size);
+    const encoder = createGifEncoder(settings.size, settings.size);
+
+    const addFrame = async (delayMs: number) => {
+        encoder.addFrame(ctx.getImageData(0, 0, settings.size, settings.size).data, delayMs);
+        // Encoding is CPU-heavy; let the page repaint between frames.
+        await delay(0);
+    };
+
+    const steps = settings.transition === 'cut' || slides.length < 2
+        ? 0
+        : Math.max(2, Math.round(settings.transitionMs / GIF_TRANSITION_STEP_MS));
+    for (let index = 0; index < slides.length; index++) {
+        const from = slides[index];
+        const to = slides[(index + 1) % slides.length];
+        drawTransitionFrame(ctx, from, to, 0, settings);
+        await addFrame(settings.frameDurationMs);
+        for (let step = 1; step < steps; step++) {
+            drawTransitionFrame(ctx, from, to, step / steps, settings);
+            await addFrame(settings.transitionMs / steps);
+        }
+    }
+
+    return new Blob([encoder.finish() as BlobPart], { type: 'image/gif' });
+}
+
+/**
+ * Records a WebM video that plays through the eras once, using MediaRecorder.
+ * It plays in real time, so it takes as long to create as the video lasts.
+ * @param imageData A record mapping era labels to their image data URLs, in album order.
+ * @param customCaptions A record mapping decade strings to user-provided captions.
+ * @param options Timing, transition, caption style and branding.
+ * @returns The WebM file.
+ */
+export async function createAnimatedWebm(
+    imageData: Record<string, string>,
+    customCaptions: Record<string, string>,
+    options: AnimationOptions = {}
+): Promise<Blob> {
+    if (typeof MediaRecorder === 'undefined') {
+        throw new Error("This browser can't record WebM video.");
+    }
+    const settings = { ...DEFAULT_ANIMATION_OPTIONS, ...options };
+    const slides = await loadSlides(imageData, customCaptions, options.groupName);
+    await loadBrandingFonts(settings.branding);
+    const { canvas, ctx } = createAnimationCanvas(settings.size);
+
+    const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+        .find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+        throw new Error("This browser can't record WebM video.");
+    }
+
+    const transitionMs = settings.transition === 'cut' ? 0 : settings.transitionMs;
+    const slideMs = settings.frameDurationMs + transitionMs;
+    const totalMs = slideMs * slides.length;
+    const drawAt = (elapsedMs: number) => {
+        const index = Math.min(slides.length - 1, Math.floor(elapsedMs / slideMs));
+        const intoSlide = elapsedMs - index * slideMs;
+        const progress = transitionMs > 0 ? Math.max(0, (intoSlide - settings.frameDurationMs) / transitionMs) : 0;
+        drawTransitionFrame(ctx, slides[index], slides[(index + 1) % slides.length], Math.min(1, progress), settings);
+    };
+
+    drawAt(0);
+    const stream = canvas.captureStream(WEBM_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve, reject) => {
+        recorder.onstop = () => resolve();
+        recorder.onerror = () => reject(new Error('Recording the video failed.'));
     });
 
-    // Convert canvas to a high-quality JPEG and return the data URL
-    return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+    recorder.start();
+    const startedAt = performance.now();
+    await new Promise<void>(resolve => {
+        const tick = () => {
+            const elapsed = performance.now() - startedAt;
+            if (elapsed >= totalMs) {
+                resolve();
+                return;
+            }
+            drawAt(elapsed);
+            requestAnimationFrame(tick);
+        };
+        requestAnimationFrame(tick);
+    });
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+
+    return new Blob(chunks, { type: 'video/webm' });
+}
+
+/**
+ * Creates a "through the decades" animation in the given format.
+ * @param format 'gif' for a looping GIF, 'webm' for a video.
+ * @param imageData A record mapping era labels to their image data URLs, in album order.
+ * @param customCaptions A record mapping decade strings to user-provided captions.
+ * @param options Timing, transition, caption style and branding.
+ * @returns The animation file.
+ */
+export function createDecadeAnimation(
+    format: AnimationFormat,
+    imageData: Record<string, string>,
+    customCaptions: Record<string, string>,
+    options: AnimationOptions = {}
+): Promise<Blob> {
+    return format === 'gif'
+        ? createAnimatedGif(imageData, customCaptions, options)
+        : createAnimatedWebm(imageData, customCaptions, options);
+}
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    appReducer,
+    createAppStore,
+    selectCanRedo,
+    selectCanUndo,
+    selectCard,
+    selectHasPendingWork,
+    selectUndoLabel,
+    type AppAction,
+    type AppStore,
+} from './appStore';
+import type { SavedSession } from '../services/sessionStore';
+import type { ImageAttempt } from '../types';
+
+const PHOTO = 'data:image/png;base64,AA';
+
+function attempt(url: string, extra: Partial<ImageAttempt> = {}): ImageAttempt {
+    return { url, createdAt: 1, ...extra };
+}
+
+function run(store: AppStore, ...actions: AppAction[]): AppStore {
+    return actions.reduce(appReducer, store);
+}
+
+/** A store with one finished result for every default era, where undoable edits start. */
+function withResults(): AppStore {
+    return run(
+        createAppStore(),
+        { type: 'photoUploaded', sessionId: 'one', image: PHOTO, referenceImages: [] },
+        { type: 'generationStarted', candidateCount: 1 },
+        ...['1950s', '1960s', '1970s', '1980s', '1990s', '2000s'].map((decade): AppAction => ({ type: 'attemptAdded', decade, attempt: attempt(`${decade}-a`) })),
+        { type: 'generationFinished' },
+    );
+}
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('undo and redo', () => {
+    it('undoes and redoes an edit, with a label for the button', () => {
+        const edited = run(withResults(), { type: 'captionChanged', decade: '1970s', caption: 'Disco' });
+        expect(selectUndoLabel(edited)).toBe('caption edit');
+
+        const undone = appReducer(edited, { type: 'undo' });
+        expect(undone.present.customCaptions['1970s']).toBeUndefined();
+        expect(selectCanRedo(undone)).toBe(true);
+
+        const redone = appReducer(undone, { type: 'redo' });
+        expect(redone.present.customCaptions['1970s']).toBe('Disco');
+    });
+
+    it('does not record state changes the user did not make', () => {
+        expect(selectCanUndo(withResults())).toBe(false);
+    });
+
+    it('undoes a burst of the same edit in one step', () => {
+        let store = withResults();
+        for (const caption of ['D', 'Di', 'Dis']) {
+            store = appReducer(store, { type: 'captionChanged', decade: '1970s', caption });
+            vi.advanceTimersByTime(500);
+        }
+        expect(store.past).toHaveLength(1);
+
+        vi.advanceTimersByTime(2000);
+        store = appReducer(store, { type: 'captionChanged', decade: '1970s', caption: 'Disco' });
+        expect(store.past).toHaveLength(2);
+
+        // Another card's caption is a separate step, however quickly it follows.
+        store = appReducer(store, { type: 'captionChanged', decade: '1980s', caption: 'Neon' });
+        expect(store.past).toHaveLength(3);
+    });
+
+    it('drops the redo history after a new edit', () => {
+        let store = run(withResults(), { type: 'captionChanged', decade: '1970s', caption: 'Disco' }, { type: 'undo' });
+        store = appReducer(store, { type: 'reordered', order: ['2000s', '1950s'] });
+        expect(selectCanRedo(store)).toBe(false);
+    });
+
+    it('brings the album back after starting over', () => {
+        const reset = appReducer(withResults(), { type: 'reset' });
+        expect(reset.present.phase).toBe('idle');
+        const undone = appReducer(reset, { type: 'undo' });
+        expect(undone.present).toMatchObject({ sessionId: 'one', phase: 'results-shown' });
+    });
+
+    it.each([
+        ['a new photo', { type: 'photoUploaded', sessionId: 'two', image: PHOTO, referenceImages: [] }],
+        ['a new generation', { type: 'generationStarted', candidateCount: 1 }],
+        ['deleting the album', { type: 'sessionDeleted' }],
+    ] as [string, AppAction][])('clears the history after %s', (_, action) => {
+        const store = run(withResults(), { type: 'captionChanged', decade: '1970s', caption: 'Disco' }, { type: 'undo' }, { type: 'reordered', order: ['2000s'] }, action);
+        expect(store.past).toEqual([]);
+        expect(store.future).toEqual([]);
+    });
+
+    it('clears the history when another album is opened', () => {
+        const session: SavedSession = {
+            id: 'two',
+            name: 'Two',
+            createdAt: 0,
+            updatedAt: 0,
+            uploadedImage: PHOTO,
+            generatedImages: { '1970s': { status: 'done', attempts: [attempt('saved')], selectedIndex: 0, pendingCount: 0 } },
+            customCaptions: {},
+            orderedDecades: ['1970s'],
+        };
+        const store = run(withResults(), { type: 'captionChanged', decade: '1970s', caption: 'Disco' }, { type: 'sessionOpened', session });
+        expect(selectCanUndo(store)).toBe(false);
+        expect(store.present).toMatchObject({ sessionId: 'two', phase: 'results-shown', eras: [{ id: '1970s' }] });
+    });
+});
+
+describe('pending work', () => {
+    it('blocks undo while a regeneration runs, and settles it when undone', () => {
+        let store = run(withResults(), { type: 'captionChanged', decade: '1970s', caption: 'Disco' }, { type: 'regenerationStarted', decade: '1970s', candidateCount: 2 });
+        expect(selectHasPendingWork(store.present)).toBe(true);
+        expect(appReducer(store, { type: 'undo' })).toBe(store);
+
+        store = run(store, { type: 'attemptAdded', decade: '1970s', attempt: attempt('b') }, { type: 'attemptCancelled', decade: '1970s' });
+        expect(selectCard(store.present, '1970s')).toMatchObject({ status: 'done', selectedVersion: 1, pendingCount: 0 });
+        expect(selectUndoLabel(store)).toBe('regeneration');
+
+        store = appReducer(store, { type: 'undo' });
+        expect(selectCard(store.present, '1970s')).toMatchObject({ versions: ['1970s-a'], pendingCount: 0 });
+    });
+
+    it('blocks undo while a refinement runs', () => {
+        const started = run(withResults(), { type: 'captionChanged', decade: '1970s', caption: 'Disco' }, { type: 'refinementStarted', decade: '1970s' });
+        expect(selectCard(started.present, '1970s').refining).toBe(true);
+        expect(selectCanUndo(started)).toBe(false);
+
+        const refined = appReducer(started, { type: 'refinementAdded', decade: '1970s', attempt: attempt('b', { refinedFrom: 0, instruction: 'add a hat' }) });
+        expect(selectCard(refined.present, '1970s')).toMatchObject({ refining: false, selectedVersion: 1, refinementHistories: [[], ['add a hat']] });
+        expect(selectUndoLabel(refined)).toBe('refinement');
+
+        // Undoing the refinement doesn't bring back one that's still running.
+        expect(selectCard(appReducer(refined, { type: 'undo' }).present, '1970s')).toMatchObject({ refining: false, versions: ['1970s-a'] });
+
+        const failed = appReducer(started, { type: 'refinementEnded', decade: '1970s' });
+        expect(selectCanUndo(failed)).toBe(true);
+        expect(selectCard(failed.present, '1970s').versions).toEqual(['1970s-a']);
+    });
+});
@@ -0,0 +1,427 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createEra, DEFAULT_ERAS, type Era } from './eras';
+import {
+    addAttempt,
+    addRefinement,
+    endRefinement,
+    getRefinementHistory,
+    getSelectedUrl,
+    recordCancellation,
+    recordFailure,
+    selectAttempt,
+    settlePending,
+    startBatch,
+    startRefinement,
+    undoRefinement,
+} from './generatedImages';
+import { DEFAULT_FILM_SETTINGS } from './filmEffects';
+import { MAX_REFERENCE_PHOTOS, SINGLE_SUBJECT } from './promptTemplates';
+import type { SavedSession } from '../services/sessionStore';
+import type { FilmSettings, GeneratedImage, GenerationFailure, ImageAttempt, ImageStatus, PhotoSubject, ValidationIssue } from '../types';
+
+export type AppPhase = 'idle' | 'image-uploaded' | 'generating' | 'results-shown';
+
+/** Everything that makes up the open album. UI-only state, like which dialog is open, lives in components. */
+export interface SessionState {
+    sessionId: string | null;
+    /** The photo that gets restyled, after any crop. */
+    uploadedImage: string | null;
+    /** The processed upload before any crop, so re-cropping can zoom back out. */
+    sourceImage: string | null;
+    /** More photos of the same person, sent with every generation alongside the main one. */
+    referenceImages: string[];
+    eras: Era[];
+    subject: PhotoSubject;
+    generatedImages: Record<string, GeneratedImage>;
+    customCaptions: Record<string, string>;
+    filmSettings: Record<string, FilmSettings>;
+    /** Era ids in the order the cards are arranged. */
+    orderedDecades: string[];
+    phase: AppPhase;
+}
+
+export type AppAction =
+    | { type: 'photoUploaded'; sessionId: string; image: string; referenceImages: string[] }
+    | { type: 'photoCropped'; image: string }
+    | { type: 'referencesAdded'; images: string[] }
+    | { type: 'referenceRemoved'; index: number }
+    | { type: 'subjectChanged'; subject: PhotoSubject }
+    | { type: 'erasChanged'; eras: Era[] }
+    | { type: 'generationStarted'; candidateCount: number }
+    | { type: 'generationFinished' }
+    | { type: 'regenerationStarted'; decade: string; candidateCount: number }
+    | { type: 'attemptAdded'; decade: string; attempt: ImageAttempt }
+    | { type: 'attemptFailed'; decade: string; failure: GenerationFailure }
+    | { type: 'attemptCancelled'; decade: string }
+    | { type: 'versionSelected'; decade: string; index: number }
+    | { type: 'refinementStarted'; decade: string }
+    | { type: 'refinementAdded'; decade: string; attempt: ImageAttempt }
+    | { type: 'refinementEnded'; decade: string }
+    | { type: 'refinementUndone'; decade: string; index: number }
+    | { type: 'captionChanged'; decade: string; caption: string }
+    | { type: 'filmSettingsChanged'; decade: string; settings: FilmSettings }
+    | { type: 'reordered'; order: string[] }
+    | { type: 'sessionOpened'; session: SavedSession }
+    | { type: 'reset' }
+    | { type: 'sessionDeleted' }
+    | { type: 'undo' }
+    | { type: 'redo' };
+
+export type AppActionType = AppAction['type'];
+
+/** One step that can be undone: the state before it and the action that left it. */
+interface HistoryEntry {
+    state: SessionState;
+    action: AppActionType;
+}
+
+export interface LoggedAction {
+    type: AppActionType;
+    decade?: string;
+    at: number;
+}
+
+export interface AppStore {
+    present: SessionState;
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+    /** Recent actions, oldest first, for debugging. */
+    log: LoggedAction[];
+    /** The last undoable action, so a burst of the same edit is undone in one step. */
+    lastUndoable: { type: AppActionType; decade?: string; at: number } | null;
+}
+
+/** Actions the user can undo, with how the undo button describes them. */
+const UNDOABLE_ACTIONS: Partial<Record<AppActionType, string>> = {
+    captionChanged: 'caption edit',
+    reordered: 'reorder',
+    regenerationStarted: 'regeneration',
+    versionSelected: 'version change',
+    refinementAdded: 'refinement',
+    refinementUndone: 'refinement undo',
+    filmSettingsChanged: 'film look change',
+    reset: 'start over',
+};
+
+/** Edits that arrive as a stream, like typing or dragging, and are undone as one step. */
+const COALESCED_ACTIONS = new Set<AppActionType>(['captionChanged', 'reordered', 'filmSettingsChanged']);
+// A pause longer than this starts a new undo step, so two separate drags are two steps.
+const COALESCE_WINDOW_MS = 1500;
+
+/**
+ * Actions that start a different album, so there's nothing left to undo. A
+ * deleted album must not come back through undo and the autosave after it.
+ */
+const HISTORY_CLEARING_ACTIONS = new Set<AppActionType>(['photoUploaded', 'generationStarted', 'sessionOpened', 'sessionDeleted']);
+
+const MAX_HISTORY = 50;
+const MAX_LOG = 100;
+
+/**
+ * The empty session the app starts with.
+ * @param eras The eras to offer; kept across resets.
+ * @returns The state.
+ */
+export function createSessionState(eras: Era[] = DEFAULT_ERAS): SessionState {
+    return {
+        sessionId: null,
+        uploadedImage: null,
+        sourceImage: null,
+        referenceImages: [],
+        eras,
+        subject: SINGLE_SUBJECT,
+        generatedImages: {},
+        customCaptions: {},
+        filmSettings: {},
+        orderedDecades: eras.map(era => era.id),
+        phase: 'idle',
+    };
+}
+
+/**
+ * Creates the store the app starts with.
+ * @returns An empty store with no history.
+ */
+export function createAppStore(): AppStore {
+    return { present: createSessionState(), past: [], future: [], log: [], lastUndoable: null };
+}
+
+function updateImage(state: SessionState, decade: string, update: (image: GeneratedImage | undefined) => GeneratedImage): SessionState {
+    return { ...state, generatedImages: { ...state.generatedImages, [decade]: update(state.generatedImages[decade]) } };
+}
+
+function updateExistingImage(state: SessionState, decade: string, update: (image: GeneratedImage) => GeneratedImage): SessionState {
+    const image = state.generatedImages[decade];
+    return image ? updateImage(state, decade, () => update(image)) : state;
+}
+
+/**
+ * Applies one action to the session. Pure, so it can be replayed and undone.
+ * @param state The current session.
+ * @param action What happened.
+ * @returns The new session.
+ */
+export function sessionReducer(state: SessionState, action: AppAction): SessionState {
+    switch (action.type) {
+        case 'photoUploaded':
+            return {
+                ...createSessionState(state.eras),
+                sessionId: action.sessionId,
+                uploadedImage: action.image,
+                sourceImage: action.image,
+                referenceImages: action.referenceImages,
+                phase: 'image-uploaded',
+            };
+        case 'photoCropped':
+            return { ...state, uploadedImage: action.image };
+        case 'referencesAdded':
+            return { ...state, referenceImages: [...state.referenceImages, ...action.images].slice(0, MAX_REFERENCE_PHOTOS - 1) };
+        case 'referenceRemoved':
+            return { ...state, referenceImages: state.referenceImages.filter((_, i) => i !== action.index) };
+        case 'subjectChanged':
+            return { ...state, subject: action.subject };
+        case 'erasChanged':
+            return { ...state, eras: action.eras };
+        case 'generationStarted':
+            return {
+                ...state,
+                phase: 'generating',
+                orderedDecades: state.eras.map(era => era.id),
+                generatedImages: Object.fromEntries(state.eras.map(era => [era.id, startBatch(undefined, action.candidateCount)])),
+            };
+        case 'generationFinished':
+            return { ...state, phase: 'results-shown' };
+        case 'regenerationStarted':
+            // Previous attempts stay in the card's history; the first new one gets selected.
+            return updateImage(state, action.decade, image => startBatch(image, action.candidateCount));
+        case 'attemptAdded':
+            return updateImage(state, action.decade, image => addAttempt(image, action.attempt));
+        case 'attemptFailed':
+            return updateImage(state, action.decade, image => recordFailure(image, action.failure));
+        case 'attemptCancelled':
+            return updateImage(state, action.decade, recordCancellation);
+        case 'versionSelected':
+            return updateExistingImage(state, action.decade, image => selectAttempt(image, action.index));
+        case 'refinementStarted':
+            return updateExistingImage(state, action.decade, startRefinement);
+        case 'refinementAdded':
+            return updateExistingImage(state, action.decade, image => addRefinement(image, action.attempt));
+        case 'refinementEnded':
+            return updateExistingImage(state, action.decade, endRefinement);
+        case 'refinementUndone':
+            return updateExistingImage(state, action.decade, image => undoRefinement(image, action.index));
+        case 'captionChanged':
+            return { ...state, customCaptions: { ...state.customCaptions, [action.decade]: action.caption } };
+        case 'filmSettingsChanged':
+            return { ...state, filmSettings: { ...state.filmSettings, [action.decade]: action.settings } };
+        case 'reordered':
+            return { ...state, orderedDecades: action.order };
+        case 'sessionOpened': {
+            const { session } = action;
+            return {
+                sessionId: session.id,
+                uploadedImage: session.uploadedImage,
+                sourceImage: session.sourceImage ?? session.uploadedImage,
+                referenceImages: session.referenceImages ?? [],
+                // Sessions saved before custom eras existed only recorded their order.
+                eras: session.eras ?? session.orderedDecades.map(id => createEra(id)),
+                subject: session.subject ?? SINGLE_SUBJECT,
+                generatedImages: session.generatedImages,
+                customCaptions: session.customCaptions,
+                filmSettings: session.filmSettings ?? {},
+                orderedDecades: session.orderedDecades,
+                phase: Object.keys(session.generatedImages).length > 0 ? 'results-shown' : 'image-uploaded',
+            };
+        }
+        case 'reset':
+            // The era selection is kept for the next photo; the finished session stays in My Albums.
+            return createSessionState(state.eras);
+        case 'sessionDeleted':
+            return createSessionState(state.eras);
+        case 'undo':
+        case 'redo':
+            return state;
+    }
+}
+
+// Generations that were running when a state was left can't finish into it.
+function restore(state: SessionState): SessionState {
+    const generatedImages = Object.fromEntries(Object.entries(state.generatedImages).map(([decade, image]) => [decade, settlePending(image)]));
+    return {
+        ...state,
+        generatedImages,
+        phase: state.phase === 'generating' ? 'results-shown' : state.phase,
+    };
+}
+
+function actionDecade(action: AppAction): string | undefined {
+    return 'decade' in action ? action.decade : undefined;
+}
+
+/**
+ * The app's reducer: applies session actions and keeps the undo history.
+ * Undoable actions save the state before them; streams of the same edit, like
+ * typing a caption, are saved once. Undo and redo are ignored while
+ * generations or refinements are running.
+ * @param store The current store.
+ * @param action What happened.
+ * @returns The new store.
+ */
+export function appReducer(store: AppStore, action: AppAction): AppStore {
+    const now = Date.now();
+    const log = [...store.log, { type: action.type, decade: actionDecade(action), at: now }].slice(-MAX_LOG);
+
+    if (action.type === 'undo') {
+        if (!selectCanUndo(store)) return store;
+        const entry = store.past[store.past.length - 1];
+        return {
+            present: restore(entry.state),
+            past: store.past.slice(0, -1),
+            future: [...store.future, { state: store.present, action: entry.action }],
+            log,
+            lastUndoable: null,
+        };
+    }
+    if (action.type === 'redo') {
+        if (!selectCanRedo(store)) return store;
+        const entry = store.future[store.future.length - 1];
+        return {
+            present: restore(entry.state),
+            past: [...store.past, { state: store.present, action: entry.action }],
+            future: store.future.slice(0, -1),
+            log,
+            lastUndoable: null,
+        };
+    }
+
+    const present = sessionReducer(store.present, action);
+    if (present === store.present) {
+        return { ...store, log };
+    }
+    if (HISTORY_CLEARING_ACTIONS.has(action.type)) {
+        return { present, past: [], future: [], log, lastUndoable: null };
+    }
+    if (!UNDOABLE_ACTIONS[action.type]) {
+        return { ...store, present, log };
+    }
+
+    const decade = actionDecade(action);
+    const continuesEdit = COALESCED_ACTIONS.has(action.type)
+        && store.lastUndoable?.type === action.type
+        && store.lastUndoable.decade === decade
+        && now - store.lastUndoable.at < COALESCE_WINDOW_MS;
+    return {
+        present,
+        past: continuesEdit ? store.past : [...store.past, { state: store.present, action: action.type }].slice(-MAX_HISTORY),
+        future: [],
+        log,
+        lastUndoable: { type: action.type, decade, at: now },
+    };
+}
+
+// --- Selectors ---
+
+/**
+ * Whether any era still has candidates being generated or a refinement running.
+ * @param state The session.
+ * @returns True while generations or refinements are running.
+ */
+export function selectHasPendingWork(state: SessionState): boolean {
+    return Object.values(state.generatedImages).some(image => image.status === 'pending' || image.pendingCount > 0 || image.refining);
+}
+
+/** Undo and redo wait for running generations and refinements, whose results would otherwise land in the wrong state. */
+export function selectCanUndo(store: AppStore): boolean {
+    return store.past.length > 0 && !selectHasPendingWork(store.present);
+}
+
+export function selectCanRedo(store: AppStore): boolean {
+    return store.future.length > 0 && !selectHasPendingWork(store.present);
+}
+
+/**
+ * Describes what undo would undo, e.g. "caption edit".
+ * @param store The store.
+ * @returns The description, or undefined if there's nothing to undo.
+ */
+export function selectUndoLabel(store: AppStore): string | undefined {
+    const entry = store.past[store.past.length - 1];
+    return entry && UNDOABLE_ACTIONS[entry.action];
+}
+
+/** Like selectUndoLabel, for redo. */
+export function selectRedoLabel(store: AppStore): string | undefined {
+    const entry = store.future[store.future.length - 1];
+    return entry && UNDOABLE_ACTIONS[entry.action];
+}
+
+/** Finds an era by its id, which is also its card's caption. */
+export function selectEra(state: SessionState, decade: string): Era | undefined {
+    return state.eras.find(era => era.id === decade);
+}
+
+/**
+ * The selected image of each era, in the order the cards are arranged. Eras
+ * without an image yet are left out.
+ * @param state The session.
+ * @returns Image URLs keyed by era id.
+ */
+export function selectAlbumImageData(state: SessionState): Record<string, string> {
+    return state.orderedDecades.reduce((acc, decade) => {
+        const url = getSelectedUrl(state.generatedImages[decade]);
+        if (url) {
+            acc[decade] = url;
+        }
+        return acc;
+    }, {} as Record<string, string>);
+}
+
+/** What an era's card shows. */
+export interface CardState {
+    status: ImageStatus;
+    imageUrl?: string;
+    error?: GenerationFailure;
+    /** URLs of every attempt, oldest first. */
+    versions: string[];
+    /** Which versions came from the cache rather than a new, billed generation. */
+    cachedVersions: boolean[];
+    /** For each version, the checks it still failed after a retry, if any. */
+    versionIssues: (ValidationIssue[] | undefined)[];
+    /** The refinement instructions behind each version, oldest first. */
+    refinementHistories: string[][];
+    selectedVersion: number;
+    pendingCount: number;
+    refining: boolean;
+    customCaption: string;
+    era?: Era;
+    filmSettings: FilmSettings;
+}
+
+/**
+ * Everything an era's card needs to draw itself.
+ * @param state The session.
+ * @param decade The era id.
+ * @returns The card's state; an era that hasn't started yet shows as pending.
+ */
+export function selectCard(state: SessionState, decade: string): CardState {
+    const image = state.generatedImages[decade];
+    const attempts = image?.attempts ?? [];
+    return {
+        status: image?.status ?? 'pending',
+        imageUrl: getSelectedUrl(image),
+        error: image?.error,
+        versions: attempts.map(attempt => attempt.url),
+        cachedVersions: attempts.map(attempt => Boolean(attempt.cached)),
+        versionIssues: attempts.map(attempt => attempt.lowConfidence ? attempt.validationIssues : undefined),
+        refinementHistories: image ? attempts.map((_, index) => getRefinementHistory(image, index)) : [],
+        selectedVersion: image?.selectedIndex ?? 0,
+        pendingCount: image?.pendingCount ?? 0,
+        refining: Boolean(image?.refining),
+        customCaption: state.customCaptions[decade] ?? '',
+        era: selectEra(state, decade),
+        filmSettings: state.filmSettings[decade] ?? DEFAULT_FILM_SETTINGS,
+    };
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Where album pages get their canvases and images. The browser uses the DOM;
+ * the batch CLI swaps in a Node canvas so it can draw the same album pages.
+ */
+export interface CanvasBackend {
+    createCanvas(width: number, height: number): HTMLCanvasElement;
+    loadImage(src: string): Promise<HTMLImageElement>;
+}
+
+const browserBackend: CanvasBackend = {
+    createCanvas(width, height) {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        return canvas;
+    },
+    loadImage(src) {
+        return new Promise((resolve, reject) => {
+            const img = new Image();
+            // Setting crossOrigin is good practice for canvas operations, even with data URLs
+            img.crossOrigin = 'anonymous';
+            img.onload = () => resolve(img);
+            img.onerror = () => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
+            img.src = src;
+        });
+    },
+};
+
+let activeBackend = browserBackend;
+
+/**
+ * Returns the canvas backend in use.
+ * @returns The active CanvasBackend.
+ */
+export function getCanvasBackend(): CanvasBackend {
+    return activeBackend;
+}
+
+/**
+ * Replaces the canvas backend, e.g. with a Node canvas in the CLI. Pass null to
+ * go back to the browser's.
+ * @param backend The backend to use for subsequent renders.
+ */
+export function setCanvasBackend(backend: CanvasBackend | null): void {
+    activeBackend = backend ?? browserBackend;
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface Era {
+    /** Unique key and display label, e.g. "1970s Tokyo". */
+    id: string;
+    /** The time period as entered, e.g. "1970s", "early 1980s", "1969" or "1965-1972". */
+    period: string;
+    /** Optional place that flavours the era, e.g. "Tokyo". */
+    region?: string;
+}
+
+type PeriodKind = 'decade' | 'part-decade' | 'year' | 'range';
+
+const PERIOD_PATTERNS: { kind: PeriodKind; pattern: RegExp }[] = [
+    { kind: 'decade', pattern: /^(\d{3}0)s$/ },
+    { kind: 'part-decade', pattern: /^(early|mid|late)[\s-]+(\d{3}0)s$/i },
+    { kind: 'year', pattern: /^(\d{4})$/ },
+    { kind: 'range', pattern: /^(\d{4})\s*[-–]\s*(\d{4})$/ },
+];
+
+const MIN_YEAR = 1800;
+const MAX_YEAR = 2099;
+
+export const DEFAULT_ERAS: Era[] = ['1950s', '1960s', '1970s', '1980s', '1990s', '2000s'].map(period => createEra(period));
+
+/** Quick-add suggestions shown in the era picker. */
+export const SUGGESTED_PERIODS = ['1920s', '1930s', '1940s', '1950s', '1960s', '1970s', '1980s', '1990s', '2000s', '2010s'];
+
+function matchPeriod(period: string): { kind: PeriodKind; match: RegExpMatchArray } | null {
+    for (const { kind, pattern } of PERIOD_PATTERNS) {
+        const match = period.match(pattern);
+        if (match) return { kind, match };
+    }
+    return null;
+}
+
+function isYearInRange(year: number): boolean {
+    return year >= MIN_YEAR && year <= MAX_YEAR;
+}
+
+/**
+ * Normalizes and validates a user-typed time period.
+ * @param input Raw text such as "1920s", "Early 1980s", "1969" or "1965 - 1972".
+ * @returns The normalized period, or an error message explaining what's wrong.
+ */
+export function parsePeriod(input: string): { period: string } | { error: string } {
+    const trimmed = input.trim().replace(/\s+/g, ' ');
+    const parsed = matchPeriod(trimmed);
+    if (!parsed) {
+        return { error: 'Use a decade ("1920s"), part of one ("early 1980s"), a year ("1969") or a range ("1965-1972").' };
+    }
+
+    const { kind, match } = parsed;
+    switch (kind) {
+        case 'decade':
+            if (!isYearInRange(Number(match[1]))) break;
+            return { period: `${match[1]}s` };
+        case 'part-decade':
+            if (!isYearInRange(Number(match[2]))) break;
+            return { period: `${match[1].toLowerCase()} ${match[2]}s` };
+        case 'year':
+            if (!isYearInRange(Number(match[1]))) break;
+            return { period: match[1] };
+        case 'range': {
+            const [start, end] = [Number(match[1]), Number(match[2])];
+            if (!isYearInRange(start) || !isYearInRange(end)) break;
+            if (end <= start) return { error: 'The end of a range must come after its start.' };
+            return { period: `${start}-${end}` };
+        }
+    }
+    return { error: `Years must be between ${MIN_YEAR} and ${MAX_YEAR}.` };
+}
+
+/**
+ * Builds an era from an already-normalized period and an optional region.
+ * @param period The time period (see parsePeriod).
+ * @param region An optional place name.
+ * @returns The era.
+ */
+export function createEra(period: string, region?: string): Era {
+    const trimmedRegion = region?.trim();
+    return trimmedRegion
+        ? { id: `${period} ${trimmedRegion}`, period, region: trimmedRegion }
+        : { id: period, period };
+}
+
+/**
+ * Describes an era in words suitable for a prompt, e.g. "the early 1980s in London".
+ * @param era The era.
+ * @returns The prompt-ready description.
+ */
+export function describeEra(era: Era): string {
+    const parsed = matchPeriod(era.period);
+    let description: string;
+    switch (parsed?.kind) {
+        case 'year':
+            description = `the year ${era.period}`;
+            break;
+        case 'range':
+            description = `the years ${parsed.match[1]} to ${parsed.match[2]}`;
+            break;
+        default:
+            description = `the ${era.period}`;
+    }
+    return era.region ? `${description} in ${era.region}` : description;
+}
+
+/**
+ * Finds the decade an era falls in, e.g. "1960s" for "1969" or "late 1960s".
+ * Ranges use their starting year.
+ * @param era The era.
+ * @returns The decade string, or null if the period can't be read.
+ */
+export function eraDecade(era: Era): string | null {
+    const year = era.period.match(/\d{3}/);
+    return year ? `${year[0]}0s` : null;
+}
+
+/**
+ * Turns an era id into something safe to use in a file name.
+ * @param id The era id, e.g. "1970s Tokyo".
+ * @returns A slug such as "1970s-tokyo".
+ */
+export function eraFileSlug(id: string): string {
+    return id.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
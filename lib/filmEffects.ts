@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './albumUtils';
+import { createSeededRandom } from './albumLayouts';
+import { eraDecade, type Era } from './eras';
+import type { FilmSettings } from '../types';
+
+export type FilmPresetId = 'silver-grain' | 'kodachrome' | 'warm-fade' | 'flash' | 'disposable' | 'early-digital';
+
+export interface FilmPreset {
+    id: FilmPresetId;
+    name: string;
+    description: string;
+}
+
+export const FILM_PRESETS: FilmPreset[] = [
+    { id: 'silver-grain', name: 'Silver print', description: 'Black and white with silver grain.' },
+    { id: 'kodachrome', name: 'Kodachrome', description: 'Rich, saturated slide-film colour.' },
+    { id: 'warm-fade', name: 'Warm fade', description: 'Warm, faded colour with a soft vignette.' },
+    { id: 'flash', name: 'Flash', description: 'Harsh on-camera flash, bright in the middle and dark at the edges.' },
+    { id: 'disposable', name: 'Disposable', description: 'Disposable-camera grain with an orange date stamp.' },
+    { id: 'early-digital', name: 'Early digital', description: 'Noisy, cool early digital camera with JPEG blocks.' },
+];
+
+// Earlier decades borrow the 1950s look; later ones have no preset.
+const DECADE_PRESETS: Record<string, FilmPresetId> = {
+    '1950s': 'silver-grain',
+    '1960s': 'kodachrome',
+    '1970s': 'warm-fade',
+    '1980s': 'flash',
+    '1990s': 'disposable',
+    '2000s': 'early-digital',
+};
+
+export const DEFAULT_FILM_SETTINGS: FilmSettings = { enabled: false, strength: 0.7 };
+
+const OUTPUT_QUALITY = 0.92;
+const DATE_STAMP_COLOR = '#ff8c1a';
+
+/**
+ * Finds the film look that suits an era.
+ * @param era The era.
+ * @returns The preset, or undefined for eras after the 2000s or periods that can't be read.
+ */
+export function getFilmPreset(era: Era): FilmPreset | undefined {
+    const decade = eraDecade(era);
+    if (!decade) return undefined;
+    const id = DECADE_PRESETS[decade] ?? (decade < '1950s' ? 'silver-grain' : undefined);
+    return FILM_PRESETS.find(preset => preset.id === id);
+}
+
+type Rgb = [number, number, number];
+
+const clamp = (value: number) => Math.min(255, Math.max(0, value));
+
+function saturate([r, g, b]: Rgb, amount: number): Rgb {
+    const grey = 0.299 * r + 0.587 * g + 0.114 * b;
+    return [grey + (r - grey) * amount, grey + (g - grey) * amount, grey + (b - grey) * amount];
+}
+
+function contrast([r, g, b]: Rgb, amount: number): Rgb {
+    return [(r - 128) * amount + 128, (g - 128) * amount + 128, (b - 128) * amount + 128];
+}
+
+/** Per-pixel adjustments. `distance` runs from 0 at the centre to about 1 at the corners. */
+type PixelEffect = (rgb: Rgb, distance: number, random: () => number) => Rgb;
+
+const PIXEL_EFFECTS: Record<FilmPresetId, PixelEffect> = {
+    'silver-grain': ([r, g, b], distance, random) => {
+        const grey = 0.299 * r + 0.587 * g + 0.114 * b;
+        const [value] = contrast([grey, grey, grey], 1.15);
+        const grain = (random() + random() - 1) * 28;
+        const toned = value * (1 - 0.25 * distance * distance) + grain;
+        return [toned, toned * 0.98, toned * 0.94];
+    },
+    'kodachrome': (rgb, distance) => {
+        const [r, g, b] = contrast(saturate(rgb, 1.45), 1.12);
+        const falloff = 1 - 0.15 * distance * distance;
+        return [r * 1.04 * falloff, g * falloff, b * 0.96 * falloff];
+    },
+    'warm-fade': (rgb, distance) => {
+        const [r, g, b] = contrast(saturate(rgb, 0.8), 0.82);
+        const falloff = 1 - 0.4 * distance * distance;
+        // Lifted blacks and pushed-down whites give the faded print look.
+        return [(r * 1.1 + 22) * falloff, (g * 1.0 + 14) * falloff, (b * 0.8 + 10) * falloff];
+    },
+    'flash': (rgb, distance) => {
+        const [r, g, b] = contrast(saturate(rgb, 1.1), 1.2);
+        const exposure = 1.35 - 0.95 * distance * distance;
+        return [r * exposure + 12, g * exposure + 8, b * exposure + 6];
+    },
+    'disposable': (rgb, distance, random) => {
+        const [r, g, b] = contrast(saturate(rgb, 1.15), 1.08);
+        const grain = (random() + random() - 1) * 18;
+        const falloff = 1 - 0.35 * distance * distance;
+        return [(r * 1.03 + grain) * falloff, (g * 1.02 + 6 + grain) * falloff, (b * 0.9 + grain) * falloff];
+    },
+    'early-digital': (rgb, _distance, random) => {
+        const [r, g, b] = contrast(saturate(rgb, 1.2), 1.05);
+        // Colour noise, stronger in the shadows like a small, cheap sensor.
+        const shadow = 1 - (r + g + b) / 765;
+        const noise = () => (random() - 0.5) * 30 * (0.4 + shadow);
+        return [r * 0.95 + noise(), g + noise(), b * 1.08 + 6 + noise()];
+    },
+};
+
+function applyPixelEffect(ctx: CanvasRenderingContext2D, width: number, height: number, effect: PixelEffect, random: () => number): void {
+    const image = ctx.getImageData(0, 0, width, height);
+    const { data } = image;
+    const halfDiagonal = Math.hypot(width / 2, height / 2);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const distance = Math.hypot(x - width / 2, y - height / 2) / halfDiagonal;
+            const [r, g, b] = effect([data[i], data[i + 1], data[i + 2]], distance, random);
+            data[i] = clamp(r);
+            data[i + 1] = clamp(g);
+            data[i + 2] = clamp(b);
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+}
+
+/** Re-encodes at a low size and quality, for the blocky look of early digital cameras. */
+async function addJpegBlocks(canvas: HTMLCanvasElement): Promise<void> {
+    const small = document.createElement('canvas');
+    small.width = Math.max(1, Math.round(canvas.width / 2));
+    small.height = Math.max(1, Math.round(canvas.height / 2));
+    small.getContext('2d')!.drawImage(canvas, 0, 0, small.width, small.height);
+    const blocky = await loadImage(small.toDataURL('image/jpeg', 0.18));
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(blocky, 0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingEnabled = true;
+}
+
+/**
+ * Picks the year printed in the date stamp: the era's year if it names one,
+ * otherwise a repeatable year within its decade.
+ */
+function stampYear(era: Era | undefined, random: () => number): number {
+    const year = Number(era?.period.match(/\d{4}/)?.[0] ?? 1995);
+    return /\d0s/.test(era?.period ?? '') ? year + Math.floor(random() * 10) : year;
+}
+
+function drawDateStamp(ctx: CanvasRenderingContext2D, width: number, height: number, year: number, random: () => number): void {
+    const month = 1 + Math.floor(random() * 12);
+    const day = 1 + Math.floor(random() * 28);
+    const text = `'${String(year % 100).padStart(2, '0')} ${month} ${day}`;
+    const size = Math.round(Math.min(width, height) * 0.05);
+    ctx.save();
+    ctx.font = `bold ${size}px "Courier New", monospace`;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.fillStyle = DATE_STAMP_COLOR;
+    ctx.shadowColor = DATE_STAMP_COLOR;
+    ctx.shadowBlur = size * 0.4;
+    ctx.globalAlpha = 0.9;
+    ctx.fillText(text, width - size * 1.2, height - size);
+    ctx.restore();
+}
+
+/**
+ * Gives an image the film or print look of its era: grain, colour, fading,
+ * flash falloff, a date stamp or compression blocks, depending on the preset.
+ * The grain and date are seeded, so the same image always comes out the same.
+ * @param imageUrl The image, usually a data URL.
+ * @param preset The look to apply.
+ * @param strength How strongly to apply it, from 0 (unchanged) to 1.
+ * @param era The era, for the year in the date stamp and the seed.
+ * @returns The processed image as a JPEG data URL.
+ */
+export async function applyFilmEffect(imageUrl: string, preset: FilmPreset, strength: number, era?: Era): Promise<string> {
+    const img = await loadImage(imageUrl);
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+    const random = createSeededRandom(`${preset.id}|${era?.id ?? ''}|${width}x${height}`);
+
+    const processed = document.createElement('canvas');
+    processed.width = width;
+    processed.height = height;
+    const processedCtx = processed.getContext('2d', { willReadFrequently: true });
+    if (!processedCtx) throw new Error('Could not get a 2D canvas context.');
+    processedCtx.drawImage(img, 0, 0);
+    applyPixelEffect(processedCtx, width, height, PIXEL_EFFECTS[preset.id], random);
+    if (preset.id === 'early-digital') {
+        await addJpegBlocks(processed);
+    }
+    if (preset.id === 'disposable') {
+        drawDateStamp(processedCtx, width, height, stampYear(era, random), random);
+    }
+
+    // Blend the full effect over the original by the chosen strength.
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const ctx = output.getContext('2d')!;
+    ctx.drawImage(img, 0, 0);
+    ctx.globalAlpha = Math.min(1, Math.max(0, strength));
+    ctx.drawImage(processed, 0, 0);
+    return output.toDataURL('image/jpeg', OUTPUT_QUALITY);
+}
+
+/**
+ * Applies a card's film settings to its image, if they're turned on and the
+ * era has a preset.
+ * @param imageUrl The image.
+ * @param era The card's era.
+ * @param settings The card's film settings.
+ * @returns The processed image, or the original when there's nothing to apply.
+ */
+export function applyFilmSettings(imageUrl: string, era: Era | undefined, settings: FilmSettings | undefined): Promise<string> {
+    const preset = era && getFilmPreset(era);
+    if (!preset || !settings?.enabled || settings.strength <= 0) {
+        return Promise.resolve(imageUrl);
+    }
+    return applyFilmEffect(imageUrl, preset, settings.strength, era);
+}
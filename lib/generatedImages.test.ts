@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import {
+    addAttempt,
+    addRefinement,
+    getRefinementHistory,
+    normalizeGeneratedImage,
+    recordCancellation,
+    recordFailure,
+    settlePending,
+    startBatch,
+    undoRefinement,
+} from './generatedImages';
+import type { GeneratedImage, GenerationFailure, ImageAttempt } from '../types';
+
+const FAILURE: GenerationFailure = { kind: 'network-unavailable', title: 'Offline', message: 'No connection.', suggestion: 'Try again.', retryable: true };
+
+function attempt(url: string, extra: Partial<ImageAttempt> = {}): ImageAttempt {
+    return { url, createdAt: 1, ...extra };
+}
+
+describe('candidate batches', () => {
+    it('selects the first result of a batch and keeps later ones in the history', () => {
+        let image = startBatch(undefined, 2);
+        expect(image).toEqual({ status: 'pending', attempts: [], selectedIndex: 0, pendingCount: 2 });
+        image = addAttempt(image, attempt('a'));
+        expect(image).toMatchObject({ status: 'done', selectedIndex: 0, pendingCount: 1 });
+        image = addAttempt(image, attempt('b'));
+        expect(image).toMatchObject({ status: 'done', selectedIndex: 0, pendingCount: 0 });
+        expect(image.attempts.map(a => a.url)).toEqual(['a', 'b']);
+    });
+
+    it('selects the first result of a regeneration over the earlier attempts', () => {
+        const done = addAttempt(startBatch(undefined, 1), attempt('a'));
+        const image = addAttempt(startBatch(done, 1), attempt('b'));
+        expect(image).toMatchObject({ status: 'done', selectedIndex: 1, pendingCount: 0 });
+    });
+
+    it('only fails an era once every candidate has failed and there is nothing to show', () => {
+        let image = recordFailure(startBatch(undefined, 2), FAILURE);
+        expect(image).toMatchObject({ status: 'pending', pendingCount: 1, error: FAILURE });
+        image = recordFailure(image, FAILURE);
+        expect(image).toMatchObject({ status: 'error', pendingCount: 0 });
+
+        const regenerated = recordFailure(startBatch(addAttempt(startBatch(undefined, 1), attempt('a')), 1), FAILURE);
+        expect(regenerated).toMatchObject({ status: 'done', selectedIndex: 0, error: FAILURE });
+    });
+
+    it('ends a fully cancelled era as cancelled, or done if it has an attempt', () => {
+        expect(recordCancellation(startBatch(undefined, 1))).toMatchObject({ status: 'cancelled', pendingCount: 0 });
+        const done = addAttempt(startBatch(undefined, 1), attempt('a'));
+        expect(recordCancellation(startBatch(done, 1))).toMatchObject({ status: 'done', pendingCount: 0 });
+    });
+
+    it('settles work that can never finish', () => {
+        expect(settlePending(startBatch(undefined, 3))).toMatchObject({ status: 'cancelled', pendingCount: 0 });
+        const done = addAttempt(startBatch(undefined, 1), attempt('a'));
+        expect(settlePending(done)).toBe(done);
+        expect(settlePending({ ...done, refining: true })).toMatchObject({ status: 'done', refining: false });
+    });
+});
+
+describe('refinements', () => {
+    const base: GeneratedImage = { status: 'done', attempts: [attempt('a'), attempt('b')], selectedIndex: 1, pendingCount: 0 };
+
+    it('follows refinedFrom links back to the original for the history and undo', () => {
+        let image = addRefinement(base, attempt('c', { refinedFrom: 0, instruction: 'add a hat' }));
+        image = addRefinement(image, attempt('d', { refinedFrom: 2, instruction: 'make it blue' }));
+        expect(image.selectedIndex).toBe(3);
+        expect(getRefinementHistory(image, 3)).toEqual(['add a hat', 'make it blue']);
+        expect(getRefinementHistory(image, 1)).toEqual([]);
+        expect(undoRefinement(image, 3).selectedIndex).toBe(2);
+        expect(undoRefinement(image, 1)).toBe(image);
+    });
+
+    it('stops at a history that loops', () => {
+        const image: GeneratedImage = {
+            ...base,
+            attempts: [attempt('a', { refinedFrom: 1, instruction: 'one' }), attempt('b', { refinedFrom: 0, instruction: 'two' })],
+        };
+        expect(getRefinementHistory(image, 1)).toEqual(['one', 'two']);
+    });
+});
+
+describe('normalizeGeneratedImage', () => {
+    it('turns a legacy single-URL record into one attempt', () => {
+        const image = normalizeGeneratedImage({ status: 'done', url: 'data:image/png;base64,AA', promptTemplateId: 'classic', prompt: 'old' }, 1234);
+        expect(image).toEqual({
+            status: 'done',
+            attempts: [{ url: 'data:image/png;base64,AA', createdAt: 1234, promptTemplateId: 'classic', promptTemplateVersion: undefined, prompt: 'old' }],
+            selectedIndex: 0,
+            pendingCount: 0,
+            error: undefined,
+        });
+    });
+
+    it('turns a plain error message into a failure', () => {
+        const image = normalizeGeneratedImage({ status: 'error', error: 'Quota exceeded' }, 0);
+        expect(image).toMatchObject({ status: 'error', attempts: [], error: { kind: 'unknown', message: 'Quota exceeded' } });
+    });
+
+    it('settles work that was in flight when the session was saved', () => {
+        expect(normalizeGeneratedImage({ status: 'pending', pendingCount: 2 }, 0)).toMatchObject({ status: 'error', pendingCount: 0, error: { title: 'Interrupted' } });
+        const withAttempt = normalizeGeneratedImage({ status: 'done', attempts: [attempt('a')], selectedIndex: 0, pendingCount: 1 }, 0);
+        expect(withAttempt).toMatchObject({ status: 'done', pendingCount: 0 });
+    });
+
+    it('keeps the selection within the attempts', () => {
+        expect(normalizeGeneratedImage({ status: 'done', attempts: [attempt('a')], selectedIndex: 5 }, 0).selectedIndex).toBe(0);
+    });
+});
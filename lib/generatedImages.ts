@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GeneratedImage, GenerationFailure, ImageAttempt } from '../types';
+
+/**
+ * Returns the attempt currently selected for an era.
+ * @param image The era's generated image state.
+ * @returns The selected attempt, or undefined if nothing has been generated yet.
+ */
+export function getSelectedAttempt(image: GeneratedImage | undefined): ImageAttempt | undefined {
+    return image?.attempts[image.selectedIndex];
+}
+
+/**
+ * Returns the URL of the selected attempt for an era.
+ * @param image The era's generated image state.
+ * @returns The image URL, or undefined if nothing has been generated yet.
+ */
+export function getSelectedUrl(image: GeneratedImage | undefined): string | undefined {
+    return getSelectedAttempt(image)?.url;
+}
+
+/**
+ * Starts a batch of candidates for an era, keeping any earlier attempts.
+ * @param image The era's current state, if any.
+ * @param count How many candidates are being generated.
+ * @returns The updated state.
+ */
+export function startBatch(image: GeneratedImage | undefined, count: number): GeneratedImage {
+    return {
+        status: 'pending',
+        attempts: image?.attempts ?? [],
+        selectedIndex: image?.selectedIndex ?? 0,
+        pendingCount: (image?.pendingCount ?? 0) + count,
+    };
+}
+
+/**
+ * Records a finished candidate. The first result of a batch is selected so the
+ * card updates right away; later ones are only added to the history.
+ * @param image The era's current state.
+ * @param attempt The new attempt.
+ * @returns The updated state.
+ */
+export function addAttempt(image: GeneratedImage | undefined, attempt: ImageAttempt): GeneratedImage {
+    const attempts = [...(image?.attempts ?? []), attempt];
+    const isFirstOfBatch = !image || image.status === 'pending';
+    return {
+        status: 'done',
+        attempts,
+        selectedIndex: isFirstOfBatch ? attempts.length - 1 : image.selectedIndex,
+        pendingCount: Math.max(0, (image?.pendingCount ?? 1) - 1),
+    };
+}
+
+/**
+ * Records a failed candidate. The era only shows as failed when there is no
+ * attempt at all to fall back on.
+ * @param image The era's current state.
+ * @param error Why it failed.
+ * @returns The updated state.
+ */
+export function recordFailure(image: GeneratedImage | undefined, error: GenerationFailure): GeneratedImage {
+    const attempts = image?.attempts ?? [];
+    const pendingCount = Math.max(0, (image?.pendingCount ?? 1) - 1);
+    let status = image?.status ?? 'error';
+    if (status === 'pending' && pendingCount === 0) {
+        status = attempts.length > 0 ? 'done' : 'error';
+    }
+    return {
+        status,
+        attempts,
+        selectedIndex: image?.selectedIndex ?? 0,
+        pendingCount,
+        error,
+    };
+}
+
+/**
+ * Records a candidate the user cancelled. Like a failure, except an era with
+ * nothing to show ends up cancelled rather than failed.
+ * @param image The era's current state.
+ * @returns The updated state.
+ */
+export function recordCancellation(image: GeneratedImage | undefined): GeneratedImage {
+    const attempts = image?.attempts ?? [];
+    const pendingCount = Math.max(0, (image?.pendingCount ?? 1) - 1);
+    let status = image?.status ?? 'cancelled';
+    if (status === 'pending' && pendingCount === 0) {
+        status = attempts.length > 0 ? 'done' : 'cancelled';
+    }
+    return {
+        status,
+        attempts,
+        selectedIndex: image?.selectedIndex ?? 0,
+        pendingCount,
+        error: image?.error,
+    };
+}
+
+/**
+ * Selects a different attempt from an era's history.
+ * @param image The era's current state.
+ * @param index The attempt to select.
+ * @returns The updated state.
+ */
+export function selectAttempt(image: GeneratedImage, index: number): GeneratedImage {
+    if (index < 0 || index >= image.attempts.length) return image;
+    return { ...image, selectedIndex: index };
+}
+
+/**
+ * Marks an era as having a refinement running, which counts as pending work.
+ * @param image The era's current state.
+ * @returns The updated state.
+ */
+export function startRefinement(image: GeneratedImage): GeneratedImage {
+    return { ...image, refining: true };
+}
+
+/**
+ * Records a refinement of one of an era's attempts and selects it. Earlier
+ * attempts stay in the history, so a refinement can always be undone.
+ * @param image The era's current state.
+ * @param attempt The refined attempt, with `refinedFrom` set.
+ * @returns The updated state.
+ */
+export function addRefinement(image: GeneratedImage, attempt: ImageAttempt): GeneratedImage {
+    const attempts = [...image.attempts, attempt];
+    return { ...image, attempts, selectedIndex: attempts.length - 1, refining: false };
+}
+
+/**
+ * Ends a refinement that failed or was cancelled, leaving the attempts as they were.
+ * @param image The era's current state.
+ * @returns The updated state.
+ */
+export function endRefinement(image: GeneratedImage): GeneratedImage {
+    return image.refining ? { ...image, refining: false } : image;
+}
+
+/**
+ * Lists the refinement instructions that led to an attempt, by following its
+ * `refinedFrom` links back to the original generation.
+ * @param image The era's state.
+ * @param index The attempt.
+ * @returns The instructions, oldest first; empty for an unrefined attempt.
+ */
+export function getRefinementHistory(image: GeneratedImage, index: number): string[] {
+    const steps: string[] = [];
+    // The visited set guards against a corrupted history that loops.
+    const visited = new Set<number>();
+    let attempt = image.attempts[index];
+    while (attempt?.instruction !== undefined && attempt.refinedFrom !== undefined && !visited.has(attempt.refinedFrom)) {
+        steps.unshift(attempt.instruction);
+        visited.add(attempt.refinedFrom);
+        attempt = image.attempts[attempt.refinedFrom];
+    }
+    return steps;
+}
+
+/**
+ * Undoes a refinement by selecting the attempt it was made from.
+ * @param image The era's state.
+ * @param index The refined attempt.
+ * @returns The updated state, or the same state if the attempt isn't a refinement.
+ */
+export function undoRefinement(image: GeneratedImage, index: number): GeneratedImage {
+    const parent = image.attempts[index]?.refinedFrom;
+    return parent === undefined ? image : selectAttempt(image, parent);
+}
+
+/**
+ * Settles an era whose candidates will never arrive, e.g. after restoring an
+ * earlier state that was saved mid-generation.
+ * @param image The era's state.
+ * @returns The state with nothing pending, or the same state if nothing was.
+ */
+export function settlePending(image: GeneratedImage): GeneratedImage {
+    if (image.status !== 'pending' && image.pendingCount === 0 && !image.refining) return image;
+    return {
+        ...image,
+        status: image.status === 'pending' ? (image.attempts.length > 0 ? 'done' : 'cancelled') : image.status,
+        pendingCount: 0,
+        refining: false,
+    };
+}
+
+type LegacyGeneratedImage = Partial<Omit<GeneratedImage, 'error'>> & Pick<GeneratedImage, 'status'> & {
+    /** Older sessions saved a plain message. */
+    error?: GenerationFailure | string;
+    url?: string;
+    promptTemplateId?: string;
+    promptTemplateVersion?: number;
+    prompt?: string;
+};
+
+const INTERRUPTED_FAILURE: GenerationFailure = {
+    kind: 'unknown',
+    title: 'Interrupted',
+    message: 'Generation was interrupted before it finished.',
+    suggestion: 'Try again.',
+    retryable: true,
+};
+
+function normalizeFailure(error: GenerationFailure | string | undefined): GenerationFailure | undefined {
+    if (typeof error !== 'string') return error;
+    return { kind: 'unknown', title: 'Something went wrong', message: error, suggestion: 'Try again.', retryable: true };
+}
+
+/**
+ * Brings a stored image state up to date. Older sessions kept a single `url`
+ * instead of a list of attempts and saved errors as plain messages, and work
+ * that was still in flight when the session was saved can never finish.
+ * @param stored The image state as it was saved.
+ * @param savedAt When it was saved, used as the creation time of legacy attempts.
+ * @returns A state that is safe to show.
+ */
+export function normalizeGeneratedImage(stored: LegacyGeneratedImage, savedAt: number): GeneratedImage {
+    let attempts = stored.attempts;
+    if (!attempts) {
+        attempts = stored.url
+            ? [{
+                url: stored.url,
+                createdAt: savedAt,
+                promptTemplateId: stored.promptTemplateId,
+                promptTemplateVersion: stored.promptTemplateVersion,
+                prompt: stored.prompt,
+            }]
+            : [];
+    }
+
+    const selectedIndex = Math.min(Math.max(0, stored.selectedIndex ?? 0), Math.max(0, attempts.length - 1));
+    const error = normalizeFailure(stored.error);
+    if (stored.status === 'pending' || (stored.pendingCount ?? 0) > 0) {
+        return attempts.length > 0
+            ? { status: 'done', attempts, selectedIndex, pendingCount: 0, error }
+            : { status: 'error', attempts, selectedIndex, pendingCount: 0, error: INTERRUPTED_FAILURE };
+    }
+    return { status: stored.status, attempts, selectedIndex, pendingCount: 0, error };
+}
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createGifEncoder } from './gifEncoder';
+
+interface DecodedFrame {
+    delayMs: number;
+    /** RGB triples, one per pixel. */
+    pixels: number[][];
+}
+
+/** Unpacks GIF LZW data the way a viewer would. */
+function decodeLzw(minCodeSize: number, data: number[]): number[] {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let dictionary: number[][] = [];
+    const reset = () => {
+        dictionary = Array.from({ length: endCode + 1 }, (_, code) => (code < clearCode ? [code] : []));
+        codeSize = minCodeSize + 1;
+    };
+
+    let bit = 0;
+    const readCode = () => {
+        let code = 0;
+        for (let i = 0; i < codeSize; i++, bit++) {
+            code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+        }
+        return code;
+    };
+
+    const output: number[] = [];
+    let previous: number[] | null = null;
+    reset();
+    while (bit < data.length * 8) {
+        const code = readCode();
+        if (code === clearCode) {
+            reset();
+            previous = null;
+            continue;
+        }
+        if (code === endCode) break;
+        const entry = code < dictionary.length ? dictionary[code] : [...previous!, previous![0]];
+        output.push(...entry);
+        if (previous) {
+            dictionary.push([...previous, entry[0]]);
+            if (dictionary.length === 1 << codeSize && codeSize < 12) codeSize++;
+        }
+        previous = entry;
+    }
+    return output;
+}
+
+function decodeGif(bytes: Uint8Array): { width: number; height: number; loops: boolean; frames: DecodedFrame[] } {
+    const word = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+    expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe('GIF89a');
+    const width = word(6);
+    const height = word(8);
+    let offset = 13;
+    let loops = false;
+    let delayMs = 0;
+    const frames: DecodedFrame[] = [];
+
+    const readSubBlocks = () => {
+        const data: number[] = [];
+        while (bytes[offset] !== 0) {
+            data.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+            offset += 1 + bytes[offset];
+        }
+        offset++;
+        return data;
+    };
+
+    for (;;) {
+        const introducer = bytes[offset++];
+        if (introducer === 0x3b) break;
+        if (introducer === 0x21) {
+            const label = bytes[offset++];
+            const data = readSubBlocks();
+            if (label === 0xf9) delayMs = (data[1] | (data[2] << 8)) * 10;
+            if (label === 0xff) loops = String.fromCharCode(...data.slice(0, 11)) === 'NETSCAPE2.0';
+            continue;
+        }
+        expect(introducer).toBe(0x2c);
+        const flags = bytes[offset + 8];
+        offset += 9;
+        const palette = bytes.subarray(offset, offset + 3 * (1 << ((flags & 7) + 1)));
+        offset += palette.length;
+        const minCodeSize = bytes[offset++];
+        const indices = decodeLzw(minCodeSize, readSubBlocks());
+        frames.push({ delayMs, pixels: indices.map(index => Array.from(palette.subarray(index * 3, index * 3 + 3))) });
+    }
+    return { width, height, loops, frames };
+}
+
+/** A frame where every run of four pixels shares one colour, so the palette sampling sees them all. */
+function makeFrame(width: number, height: number, colorAt: (run: number) => number[]): { rgba: Uint8ClampedArray; pixels: number[][] } {
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    const pixels: number[][] = [];
+    for (let pixel = 0; pixel < width * height; pixel++) {
+        const color = colorAt(pixel >> 2);
+        rgba.set([...color, 255], pixel * 4);
+        pixels.push(color);
+    }
+    return { rgba, pixels };
+}
+
+describe('createGifEncoder', () => {
+    it('writes a looping animation that decodes back to the same frames', () => {
+        const width = 8;
+        const height = 4;
+        const first = makeFrame(width, height, run => (run % 2 ? [255, 0, 0] : [0, 0, 255]));
+        const second = makeFrame(width, height, run => [run * 30, 200, 10]);
+
+        const encoder = createGifEncoder(width, height);
+        encoder.addFrame(first.rgba, 500);
+        encoder.addFrame(second.rgba, 1234);
+        const gif = decodeGif(encoder.finish());
+
+        expect(gif).toMatchObject({ width, height, loops: true });
+        expect(gif.frames.map(frame => frame.delayMs)).toEqual([500, 1230]);
+        expect(gif.frames[0].pixels).toEqual(first.pixels);
+        expect(gif.frames[1].pixels).toEqual(second.pixels);
+    });
+
+    it('keeps decoding correctly after the LZW dictionary fills up and is reset', () => {
+        const width = 160;
+        const height = 100;
+        let seed = 42;
+        const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+        // Few enough colours for the palette to hold them all exactly.
+        const colors = Array.from({ length: 32 }, (_, index) => [index * 8, 255 - index * 8, (index * 56) % 256]);
+        const runs = Array.from({ length: (width * height) / 4 }, () => colors[Math.floor(random() * colors.length)]);
+        const frame = makeFrame(width, height, run => runs[run]);
+
+        const encoder = createGifEncoder(width, height);
+        encoder.addFrame(frame.rgba, 100);
+        expect(decodeGif(encoder.finish()).frames[0].pixels).toEqual(frame.pixels);
+    });
+
+    it('never writes a delay below the 20 ms browsers honour', () => {
+        const frame = makeFrame(4, 1, () => [0, 0, 0]);
+        const encoder = createGifEncoder(4, 1);
+        encoder.addFrame(frame.rgba, 0);
+        expect(decodeGif(encoder.finish()).frames[0].delayMs).toBe(20);
+    });
+
+    it('rejects a frame of the wrong size', () => {
+        expect(() => createGifEncoder(4, 4).addFrame(new Uint8ClampedArray(4), 100)).toThrow('4×4');
+    });
+});
@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface GifEncoder {
+    /**
+     * Adds a frame. Each frame gets its own 256-colour palette, which keeps photos
+     * looking right as they change from era to era.
+     * @param rgba The frame's pixels, as from `getImageData`.
+     * @param delayMs How long the frame stays on screen. GIF stores this in 10 ms steps.
+     */
+    addFrame(rgba: Uint8ClampedArray, delayMs: number): void;
+    /** Writes the trailer and returns the complete file. */
+    finish(): Uint8Array;
+}
+
+const MAX_COLORS = 256;
+const MAX_CODE = 4095;
+// Sampling every few pixels is plenty to build a palette from.
+const PALETTE_SAMPLE_STEP = 4;
+
+class ByteWriter {
+    private chunks: Uint8Array[] = [];
+    private current = new Uint8Array(64 * 1024);
+    private length = 0;
+
+    byte(value: number) {
+        if (this.length === this.current.length) this.flush();
+        this.current[this.length++] = value;
+    }
+
+    word(value: number) {
+        this.byte(value & 0xff);
+        this.byte((value >> 8) & 0xff);
+    }
+
+    bytes(values: ArrayLike<number>) {
+        for (let i = 0; i < values.length; i++) this.byte(values[i]);
+    }
+
+    string(value: string) {
+        for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+    }
+
+    private flush() {
+        this.chunks.push(this.current.slice(0, this.length));
+        this.current = new Uint8Array(this.current.length);
+        this.length = 0;
+    }
+
+    toBytes(): Uint8Array {
+        this.flush();
+        const total = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+        const result = new Uint8Array(total);
+        let offset = 0;
+        this.chunks.forEach(chunk => {
+            result.set(chunk, offset);
+            offset += chunk.length;
+        });
+        return result;
+    }
+}
+
+/**
+ * Builds a palette with median cut: keep splitting the box of colours with the
+ * widest channel at its median until there are enough boxes, then average each.
+ */
+function buildPalette(rgba: Uint8ClampedArray): Uint8Array {
+    const samples: number[] = [];
+    for (let i = 0; i < rgba.length; i += 4 * PALETTE_SAMPLE_STEP) {
+        samples.push((rgba[i] << 16) | (rgba[i + 1] << 8) | rgba[i + 2]);
+    }
+
+    const channel = (color: number, shift: number) => (color >> shift) & 0xff;
+    const boxes: number[][] = [samples];
+    while (boxes.length < MAX_COLORS) {
+        let widest = -1;
+        let widestRange = 0;
+        let widestShift = 0;
+        boxes.forEach((box, index) => {
+            if (box.length < 2) return;
+            for (const shift of [16, 8, 0]) {
+                let min = 255;
+                let max = 0;
+                for (const color of box) {
+                    const value = channel(color, shift);
+                    if (value < min) min = value;
+                    if (value > max) max = value;
+                }
+                if (max - min > widestRange) {
+                    widest = index;
+                    widestRange = max - min;
+                    widestShift = shift;
+                }
+            }
+        });
+        if (widest === -1) break;
+
+        const box = boxes[widest].sort((a, b) => channel(a, widestShift) - channel(b, widestShift));
+        const middle = box.length >> 1;
+        boxes.splice(widest, 1, box.slice(0, middle), box.slice(middle));
+    }
+
+    const palette = new Uint8Array(MAX_COLORS * 3);
+    boxes.forEach((box, index) => {
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        box.forEach(color => {
+            r += channel(color, 16);
+            g += channel(color, 8);
+            b += channel(color, 0);
+        });
+        const count = Math.max(1, box.length);
+        palette[index * 3] = Math.round(r / count);
+        palette[index * 3 + 1] = Math.round(g / count);
+        palette[index * 3 + 2] = Math.round(b / count);
+    });
+    return palette;
+}
+
+/** Maps every pixel to its nearest palette entry, caching lookups per 15-bit colour. */
+function indexPixels(rgba: Uint8ClampedArray, palette: Uint8Array): Uint8Array {
+    const cache = new Int16Array(32768).fill(-1);
+    const indices = new Uint8Array(rgba.length / 4);
+    for (let i = 0, pixel = 0; i < rgba.length; i += 4, pixel++) {
+        const r = rgba[i];
+        const g = rgba[i + 1];
+        const b = rgba[i + 2];
+        const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+        let index = cache[key];
+        if (index === -1) {
+            let bestDistance = Infinity;
+            for (let p = 0; p < MAX_COLORS; p++) {
+                const dr = r - palette[p * 3];
+                const dg = g - palette[p * 3 + 1];
+                const db = b - palette[p * 3 + 2];
+                const distance = dr * dr + dg * dg + db * db;
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    index = p;
+                }
+            }
+            cache[key] = index;
+        }
+        indices[pixel] = index;
+    }
+    return indices;
+}
+
+/** LZW-compresses indexed pixels into GIF image data sub-blocks. */
+function writeLzw(writer: ByteWriter, indices: Uint8Array) {
+    const minCodeSize = 8;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let dictionary = new Map<number, number>();
+
+    const block: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            block.push(bitBuffer & 0xff);
+            bitBuffer >>= 8;
+            bitCount -= 8;
+            if (block.length === 255) {
+                writer.byte(255);
+                writer.bytes(block);
+                block.length = 0;
+            }
+        }
+    };
+
+    writer.byte(minCodeSize);
+    emit(clearCode);
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const pixel = indices[i];
+        const key = (prefix << 8) | pixel;
+        const existing = dictionary.get(key);
+        if (existing !== undefined) {
+            prefix = existing;
+            continue;
+        }
+        emit(prefix);
+        if (nextCode <= MAX_CODE) {
+            dictionary.set(key, nextCode);
+            // Grow the code size once the new code no longer fits.
+            if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+            nextCode++;
+        } else {
+            emit(clearCode);
+            dictionary = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        }
+        prefix = pixel;
+    }
+    emit(prefix);
+    emit(endCode);
+
+    if (bitCount > 0) block.push(bitBuffer & 0xff);
+    if (block.length > 0) {
+        writer.byte(block.length);
+        writer.bytes(block);
+    }
+    writer.byte(0); // Block terminator
+}
+
+/**
+ * Creates an encoder for a looping GIF89a animation.
+ * @param width The frame width in pixels.
+ * @param height The frame height in pixels.
+ * @returns The encoder.
+ */
+export function createGifEncoder(width: number, height: number): GifEncoder {
+    const writer = new ByteWriter();
+
+    // Header and logical screen descriptor, without a global colour table.
+    writer.string('GIF89a');
+    writer.word(width);
+    writer.word(height);
+    writer.byte(0x70); // 8 bits per primary colour, no global table
+    writer.byte(0);
+    writer.byte(0);
+
+    // Netscape extension: loop forever.
+    writer.bytes([0x21, 0xff, 0x0b]);
+    writer.string('NETSCAPE2.0');
+    writer.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+    return {
+        addFrame(rgba, delayMs) {
+            if (rgba.length !== width * height * 4) {
+                throw new Error(`Expected a ${width}×${height} frame.`);
+            }
+            const palette = buildPalette(rgba);
+            const indices = indexPixels(rgba, palette);
+
+            // Graphic control extension with the frame delay.
+            writer.bytes([0x21, 0xf9, 0x04, 0x00]);
+            writer.word(Math.max(2, Math.round(delayMs / 10)));
+            writer.bytes([0x00, 0x00]);
+
+            // Image descriptor with a 256-entry local colour table.
+            writer.byte(0x2c);
+            writer.word(0);
+            writer.word(0);
+            writer.word(width);
+            writer.word(height);
+            writer.byte(0x87);
+            writer.bytes(palette);
+
+            writeLzw(writer, indices);
+        },
+        finish() {
+            writer.byte(0x3b);
+            return writer.toBytes();
+        },
+    };
+}
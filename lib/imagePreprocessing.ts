@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { config } from '../services/config';
+import { loadImage } from './albumUtils';
+import { getCanvasBackend } from './canvasBackend';
+
+export const ACCEPTED_UPLOAD_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Everything sent to the model is re-encoded to this, whatever was uploaded.
+const OUTPUT_TYPE = 'image/jpeg';
+const OUTPUT_QUALITY = 0.9;
+
+// The JPEG APP1 segment and TIFF tag that hold the EXIF orientation.
+const APP1_MARKER = 0xffe1;
+const ORIENTATION_TAG = 0x0112;
+// Orientation lives near the start of the file; no need to read a 12 MB photo to find it.
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+/** A problem with the uploaded file itself. The message is written for the user. */
+export class ImagePreprocessingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImagePreprocessingError';
+    }
+}
+
+export interface PreprocessOptions {
+    /** The longest side of the result, in pixels. Larger photos are scaled down. */
+    maxDimension?: number;
+    /** Photos whose shorter side is below this are rejected. */
+    minDimension?: number;
+}
+
+export interface PreprocessedImage {
+    dataUrl: string;
+    width: number;
+    height: number;
+}
+
+interface DecodedImage {
+    source: CanvasImageSource;
+    width: number;
+    height: number;
+    orientation: number;
+}
+
+/** A square region of an image, in the image's own pixels. */
+export interface CropArea {
+    x: number;
+    y: number;
+    size: number;
+}
+
+/**
+ * Reads the EXIF orientation (1–8) of a JPEG.
+ * @param buffer The start of the file.
+ * @returns The orientation, or 1 when there is none.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+    const view = new DataView(buffer);
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const length = view.getUint16(offset + 2);
+        if ((marker & 0xff00) !== 0xff00) return 1;
+
+        // "Exif\0\0" followed by a TIFF header.
+        if (marker === APP1_MARKER && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+            const tiff = offset + 10;
+            if (tiff + 8 > view.byteLength) return 1;
+            const littleEndian = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+            if (ifd + 2 > view.byteLength) return 1;
+
+            const entries = view.getUint16(ifd, littleEndian);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 12 > view.byteLength) return 1;
+                if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+                    const orientation = view.getUint16(entry + 8, littleEndian);
+                    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+                }
+            }
+            return 1;
+        }
+        offset += 2 + length;
+    }
+    return 1;
+}
+
+/**
+ * Sets up a context so that drawing the raw (unrotated) image at 0,0 with its
+ * stored size produces the upright picture.
+ * @param ctx The context to transform.
+ * @param orientation The EXIF orientation.
+ * @param width The stored image width.
+ * @param height The stored image height.
+ */
+function applyOrientation(ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) {
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+    }
+}
+
+/**
+ * Decodes a file without letting the browser rotate it, so the EXIF orientation
+ * can be applied exactly once. Browsers that can't decode that way already
+ * return the upright image, which is reported as orientation 1.
+ */
+async function decodeImage(file: File): Promise<DecodedImage> {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            const bitmap = await createImageBitmap(file, { imageOrientation: 'none' });
+            const orientation = file.type === 'image/jpeg'
+                ? readExifOrientation(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer())
+                : 1;
+            return { source: bitmap, width: bitmap.width, height: bitmap.height, orientation };
+        } catch (error) {
+            console.warn("createImageBitmap failed, decoding with an image element instead:", error);
+        }
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+        const img = await loadImage(url);
+        return { source: img, width: img.naturalWidth, height: img.naturalHeight, orientation: 1 };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+/**
+ * Turns an uploaded file into the data URL that is sent to the model: upright,
+ * no larger than needed and always in the same format.
+ * @param file The file picked by the user.
+ * @param options Size limits; defaults come from the app config.
+ * @returns The processed image and its size.
+ * @throws ImagePreprocessingError if the file isn't a supported image or is too small.
+ */
+export async function preprocessImage(file: File, options: PreprocessOptions = {}): Promise<PreprocessedImage> {
+    const { maxDimension = config.maxUploadDimension, minDimension = config.minUploadDimension } = options;
+
+    if (!ACCEPTED_UPLOAD_TYPES.includes(file.type)) {
+        throw new ImagePreprocessingError(`${file.name || 'That file'} isn't a supported image. Please upload a JPEG, PNG or WebP photo.`);
+    }
+
+    let decoded;
+    try {
+        decoded = await decodeImage(file);
+    } catch (error) {
+        console.error("Could not decode uploaded image:", error);
+        throw new ImagePreprocessingError("That photo couldn't be opened. It may be damaged. Please try another one.");
+    }
+    try {
+        return drawUpright(decoded, maxDimension, minDimension);
+    } finally {
+        if (typeof ImageBitmap !== 'undefined' && decoded.source instanceof ImageBitmap) decoded.source.close();
+    }
+}
+
+/**
+ * Runs an encoded photo through the same steps as an upload, for callers that
+ * have its contents rather than a File, like the batch runner. Decoding goes
+ * through the canvas backend, which already turns the image upright.
+ * @param dataUrl The photo as a data URL.
+ * @param options Size limits; defaults come from the app config.
+ * @returns The processed image and its size.
+ * @throws ImagePreprocessingError if the photo isn't a supported image or is too small.
+ */
+export async function preprocessImageData(dataUrl: string, options: PreprocessOptions = {}): Promise<PreprocessedImage> {
+    const { maxDimension = config.maxUploadDimension, minDimension = config.minUploadDimension } = options;
+
+    const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] ?? '';
+    if (!ACCEPTED_UPLOAD_TYPES.includes(mimeType)) {
+        throw new ImagePreprocessingError("That file isn't a supported image. Please use a JPEG, PNG or WebP photo.");
+    }
+
+    let img;
+    try {
+        img = await loadImage(dataUrl);
+    } catch (error) {
+        console.error("Could not decode image:", error);
+        throw new ImagePreprocessingError("That photo couldn't be opened. It may be damaged. Please try another one.");
+    }
+    return drawUpright({ source: img, width: img.naturalWidth, height: img.naturalHeight, orientation: 1 }, maxDimension, minDimension);
+}
+
+/**
+ * Draws a decoded image upright, scaled down to the size limit and re-encoded.
+ * @throws ImagePreprocessingError if the image is too small.
+ */
+function drawUpright(decoded: DecodedImage, maxDimension: number, minDimension: number): PreprocessedImage {
+    const { source, orientation } = decoded;
+    const swapsSides = orientation >= 5;
+    const uprightWidth = swapsSides ? decoded.height : decoded.width;
+    const uprightHeight = swapsSides ? decoded.width : decoded.height;
+
+    if (Math.min(uprightWidth, uprightHeight) < minDimension) {
+        throw new ImagePreprocessingError(`That photo is too small (${uprightWidth}×${uprightHeight}). Please use one at least ${minDimension} pixels on each side.`);
+    }
+
+    const scale = Math.min(1, maxDimension / Math.max(uprightWidth, uprightHeight));
+    const canvas = getCanvasBackend().createCanvas(Math.round(uprightWidth * scale), Math.round(uprightHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    // JPEG has no alpha, so give transparent PNGs a white background instead of black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.scale(scale, scale);
+    applyOrientation(ctx, orientation, decoded.width, decoded.height);
+    ctx.drawImage(source, 0, 0, decoded.width, decoded.height);
+
+    return { dataUrl: canvas.toDataURL(OUTPUT_TYPE, OUTPUT_QUALITY), width: canvas.width, height: canvas.height };
+}
+
+/**
+ * Cuts a square region out of an already processed image.
+ * @param imageDataUrl The processed image.
+ * @param crop The region to keep, in the image's pixels.
+ * @returns The cropped image as a data URL.
+ */
+export async function cropImage(imageDataUrl: string, crop: CropArea): Promise<string> {
+    const img = await loadImage(imageDataUrl);
+    const size = Math.round(crop.size);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.drawImage(img, crop.x, crop.y, crop.size, crop.size, 0, 0, size, size);
+    return canvas.toDataURL(OUTPUT_TYPE, OUTPUT_QUALITY);
+}
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { hashDistance, validateSignature, type ImageSignature, type ValidationThresholds } from './imageValidation';
+
+const THRESHOLDS: ValidationThresholds = { minDimension: 256, maxSourceDistance: 5, maxDuplicateDistance: 3, minContrast: 6 };
+
+const SOURCE: ImageSignature = { width: 1024, height: 1024, hash: '0000000000000000', contrast: 40 };
+
+function signature(hash: string, overrides: Partial<ImageSignature> = {}): ImageSignature {
+    return { width: 1024, height: 1024, hash, contrast: 40, ...overrides };
+}
+
+describe('hashDistance', () => {
+    it('counts the differing bits', () => {
+        expect(hashDistance('0000000000000000', '0000000000000000')).toBe(0);
+        expect(hashDistance('0000000000000000', '000000000000000f')).toBe(4);
+        expect(hashDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+        expect(hashDistance('8000000000000001', '0000000000000000')).toBe(2);
+    });
+});
+
+describe('validateSignature', () => {
+    it('passes a result that differs from the source and the other eras', () => {
+        const result = validateSignature(signature('ffff0000ffff0000'), SOURCE, [signature('00ff00ff00ff00ff')], THRESHOLDS);
+        expect(result).toMatchObject({ ok: true, issues: [] });
+        expect(result.metrics).toMatchObject({ sourceDistance: 32, nearestOtherDistance: 32 });
+    });
+
+    it('flags the source photo sent back, up to the threshold', () => {
+        expect(validateSignature(signature('000000000000001f'), SOURCE, [], THRESHOLDS).issues).toEqual(['unchanged']);
+        expect(validateSignature(signature('000000000000003f'), SOURCE, [], THRESHOLDS).ok).toBe(true);
+    });
+
+    it('flags a duplicate of the closest other era, up to the threshold', () => {
+        const result = signature('ffff0000ffff0000');
+        const others = [signature('0f0f0f0f0f0f0f0f'), signature('ffff0000ffff0007')];
+        expect(validateSignature(result, SOURCE, others, THRESHOLDS)).toMatchObject({ issues: ['duplicate'], metrics: { nearestOtherDistance: 3 } });
+        expect(validateSignature(result, SOURCE, [signature('ffff0000ffff000f')], THRESHOLDS).ok).toBe(true);
+    });
+
+    it('flags small and flat images', () => {
+        const result = signature('ffffffffffffffff', { width: 1024, height: 255, contrast: 5.96 });
+        expect(validateSignature(result, SOURCE, [], THRESHOLDS)).toMatchObject({
+            issues: ['too-small', 'flat'],
+            metrics: { width: 1024, height: 255, contrast: 6 },
+        });
+        expect(validateSignature(signature('ffffffffffffffff', { height: 256, contrast: 6 }), SOURCE, [], THRESHOLDS).ok).toBe(true);
+    });
+
+    it('reports no nearest era when there is nothing to compare with', () => {
+        expect(validateSignature(signature('ffffffffffffffff'), SOURCE, [], THRESHOLDS).metrics.nearestOtherDistance).toBeNull();
+    });
+});
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { config } from '../services/config';
+import { loadImage } from './albumUtils';
+import type { ValidationIssue } from '../types';
+
+/** A compact description of an image, enough to compare it with others. */
+export interface ImageSignature {
+    width: number;
+    height: number;
+    /** 64-bit difference hash (dHash) as 16 hex digits. Similar images have similar hashes. */
+    hash: string;
+    /** Standard deviation of the greyscale pixels, 0–255. Near zero for blank or flat images. */
+    contrast: number;
+}
+
+export interface ValidationThresholds {
+    /** Results with a shorter side below this many pixels fail. */
+    minDimension: number;
+    /** Results whose hash is at most this many bits from the source's are the photo sent back unchanged. */
+    maxSourceDistance: number;
+    /** Results whose hash is at most this many bits from another era's are duplicates. */
+    maxDuplicateDistance: number;
+    /** Results with less contrast than this are blank or flat. */
+    minContrast: number;
+}
+
+export interface ValidationResult {
+    ok: boolean;
+    issues: ValidationIssue[];
+    /** The measurements the decision was based on, for logging and tuning. */
+    metrics: {
+        width: number;
+        height: number;
+        contrast: number;
+        sourceDistance: number;
+        /** The closest other era, or null when there was none to compare with. */
+        nearestOtherDistance: number | null;
+    };
+}
+
+/** Readable descriptions of each issue, e.g. for a tooltip. */
+export const VALIDATION_ISSUE_LABELS: Record<ValidationIssue, string> = {
+    'too-small': 'The image is unusually small.',
+    'flat': 'The image is blank or nearly flat.',
+    'unchanged': 'The image is almost identical to your photo.',
+    'duplicate': "The image is almost identical to another era's.",
+};
+
+// dHash compares each pixel with its right neighbour on a 9x8 greyscale thumbnail.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const CONTRAST_SIZE = 32;
+
+function greyscale(img: HTMLImageElement, width: number, height: number): number[] {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get a 2D canvas context.');
+    ctx.drawImage(img, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const pixels: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+        pixels.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    }
+    return pixels;
+}
+
+/**
+ * Measures an image: its size, a perceptual hash and how much contrast it has.
+ * Needs a canvas, so it only runs in the browser.
+ * @param dataUrl The image.
+ * @returns The image's signature.
+ */
+export async function computeImageSignature(dataUrl: string): Promise<ImageSignature> {
+    const img = await loadImage(dataUrl);
+
+    const small = greyscale(img, HASH_WIDTH, HASH_HEIGHT);
+    let hash = '';
+    for (let row = 0; row < HASH_HEIGHT; row++) {
+        let nibble = 0;
+        for (let col = 0; col < HASH_WIDTH - 1; col++) {
+            const index = row * HASH_WIDTH + col;
+            nibble = (nibble << 1) | (small[index] > small[index + 1] ? 1 : 0);
+            if (col % 4 === 3) {
+                hash += nibble.toString(16);
+                nibble = 0;
+            }
+        }
+    }
+
+    const pixels = greyscale(img, CONTRAST_SIZE, CONTRAST_SIZE);
+    const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+    const variance = pixels.reduce((sum, value) => sum + (value - mean) ** 2, 0) / pixels.length;
+
+    return { width: img.naturalWidth, height: img.naturalHeight, hash, contrast: Math.sqrt(variance) };
+}
+
+/**
+ * Counts the bits that differ between two hashes.
+ * @param a A hash from computeImageSignature.
+ * @param b Another hash.
+ * @returns The Hamming distance, 0–64.
+ */
+export function hashDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (bits) {
+            distance += bits & 1;
+            bits >>= 1;
+        }
+    }
+    return distance;
+}
+
+/**
+ * Checks a generated image for the ways a generation can quietly fail: the
+ * source photo coming back unchanged, the same image as another era, a tiny
+ * image, or a blank one.
+ * @param result The generated image's signature.
+ * @param source The source photo's signature.
+ * @param others Signatures of other eras' results.
+ * @param thresholds Where to draw the lines.
+ * @returns Whether the result passed, what was wrong and the measurements.
+ */
+export function validateSignature(
+    result: ImageSignature,
+    source: ImageSignature,
+    others: ImageSignature[] = [],
+    thresholds: ValidationThresholds = config.resultValidation
+): ValidationResult {
+    const sourceDistance = hashDistance(result.hash, source.hash);
+    const nearestOtherDistance = others.length > 0
+        ? Math.min(...others.map(other => hashDistance(result.hash, other.hash)))
+        : null;
+
+    const issues: ValidationIssue[] = [];
+    if (Math.min(result.width, result.height) < thresholds.minDimension) issues.push('too-small');
+    if (result.contrast < thresholds.minContrast) issues.push('flat');
+    if (sourceDistance <= thresholds.maxSourceDistance) issues.push('unchanged');
+    if (nearestOtherDistance !== null && nearestOtherDistance <= thresholds.maxDuplicateDistance) issues.push('duplicate');
+
+    return {
+        ok: issues.length === 0,
+        issues,
+        metrics: {
+            width: result.width,
+            height: result.height,
+            contrast: Math.round(result.contrast * 10) / 10,
+            sourceDistance,
+            nearestOtherDistance,
+        },
+    };
+}
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { buildPdf, pdfImageFromDataUrl, type PdfImage } from './pdfWriter';
+
+// Just enough of a JPEG for the header parser: SOI, then a baseline frame header.
+const JPEG_HEADER = [0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x20, 0x00, 0x40, 0x03, 0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01];
+
+const IMAGE: PdfImage = {
+    width: 64,
+    height: 32,
+    filter: 'DCTDecode',
+    colorSpace: 'DeviceRGB',
+    data: new Uint8Array(JPEG_HEADER),
+};
+
+async function readPdf(blob: Blob): Promise<string> {
+    return Buffer.from(await blob.arrayBuffer()).toString('latin1');
+}
+
+describe('buildPdf', () => {
+    it('writes a cross-reference table that points at every object', async () => {
+        const page = { width: 595, height: 842, images: [{ image: IMAGE, x: 10, y: 20, width: 64, height: 32 }] };
+        const pdf = await readPdf(buildPdf([page, page]));
+
+        expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+        expect(pdf.endsWith('%%EOF\n')).toBe(true);
+        const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+        expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+        const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+        expect(offsets).toHaveLength(8); // Catalog, pages, info, one shared image and two pages with contents
+        offsets.forEach((offset, index) => {
+            expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+        });
+    });
+
+    it('stores an image shared between pages once', async () => {
+        const page = { width: 100, height: 100, images: [{ image: IMAGE, x: 0, y: 0, width: 100, height: 100 }] };
+        const pdf = await readPdf(buildPdf([page, page, page]));
+        expect(pdf.match(/\/Subtype \/Image/g)).toHaveLength(1);
+    });
+
+    it('places images from the top-left corner', async () => {
+        const page = { width: 200, height: 300, images: [{ image: IMAGE, x: 10, y: 20, width: 64, height: 32 }] };
+        const pdf = await readPdf(buildPdf([page]));
+        expect(pdf).toContain('q 64 0 0 32 10 248 cm /Im1 Do Q');
+    });
+
+    it('escapes plain ASCII metadata as a literal string', async () => {
+        const pdf = await readPdf(buildPdf([], { title: 'Past (Forward) \\ 2024' }));
+        expect(pdf).toContain('/Title (Past \\(Forward\\) \\\\ 2024)');
+    });
+
+    it('writes other text as UTF-16 instead of dropping characters', async () => {
+        const pdf = await readPdf(buildPdf([], { title: 'Café Müller', creator: 'Past Forward 📷' }));
+        expect(pdf).toContain('/Title <FEFF00430061006600E90020004D00FC006C006C00650072>');
+        expect(pdf).toContain('/Creator <FEFF005000610073007400200046006F007200770061007200640020D83DDCF7>');
+    });
+});
+
+describe('pdfImageFromDataUrl', () => {
+    it('embeds a JPEG as-is with the size from its frame header', async () => {
+        const dataUrl = `data:image/jpeg;base64,${Buffer.from(JPEG_HEADER).toString('base64')}`;
+        const image = await pdfImageFromDataUrl(dataUrl);
+        expect(image).toMatchObject({ width: 64, height: 32, filter: 'DCTDecode', colorSpace: 'DeviceRGB' });
+        expect(Array.from(image.data)).toEqual(JPEG_HEADER);
+    });
+});
@@ -0,0 +1,249 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { dataUrlToBytes, loadImage } from './albumUtils';
+
+/** An image ready to be embedded, still in its original compressed form where possible. */
+export interface PdfImage {
+    width: number;
+    height: number;
+    filter: 'DCTDecode' | 'FlateDecode';
+    colorSpace: 'DeviceRGB' | 'DeviceGray';
+    data: Uint8Array;
+    /** Extra decode parameters, e.g. the PNG predictor for FlateDecode images. */
+    decodeParms?: string;
+}
+
+/** An image on a page. Coordinates are in points from the top-left corner. */
+export interface PdfPlacedImage {
+    image: PdfImage;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PdfPage {
+    /** In points (1/72 inch). */
+    width: number;
+    height: number;
+    /** Drawn in order, so later images cover earlier ones. */
+    images: PdfPlacedImage[];
+}
+
+export interface PdfInfo {
+    title?: string;
+    creator?: string;
+}
+
+const encoder = new TextEncoder();
+
+/** Reads the size and colour layout of a baseline or progressive JPEG. */
+function parseJpeg(bytes: Uint8Array): PdfImage | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (view.getUint16(0) !== 0xffd8) return null;
+
+    let offset = 2;
+    while (offset + 9 < view.byteLength) {
+        if (view.getUint8(offset) !== 0xff) return null;
+        const marker = view.getUint8(offset + 1);
+        const length = view.getUint16(offset + 2);
+        // Start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC).
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            const components = view.getUint8(offset + 9);
+            if (components !== 1 && components !== 3) return null;
+            return {
+                width: view.getUint16(offset + 7),
+                height: view.getUint16(offset + 5),
+                filter: 'DCTDecode',
+                colorSpace: components === 1 ? 'DeviceGray' : 'DeviceRGB',
+                data: bytes,
+            };
+        }
+        offset += 2 + length;
+    }
+    return null;
+}
+
+/**
+ * Reads an 8-bit greyscale or RGB PNG without alpha. Its compressed data can go
+ * into the PDF as-is, because PDF understands PNG row filters.
+ */
+function parsePng(bytes: Uint8Array): PdfImage | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (view.byteLength < 33 || view.getUint32(0) !== 0x89504e47) return null;
+
+    const width = view.getUint32(16);
+    const height = view.getUint32(20);
+    const bitDepth = view.getUint8(24);
+    const colorType = view.getUint8(25);
+    const interlaced = view.getUint8(28) !== 0;
+    if (bitDepth !== 8 || (colorType !== 0 && colorType !== 2) || interlaced) return null;
+
+    const chunks: Uint8Array[] = [];
+    let offset = 8;
+    while (offset + 8 <= view.byteLength) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        if (type === 'IDAT') chunks.push(bytes.subarray(offset + 8, offset + 8 + length));
+        if (type === 'IEND') break;
+        offset += 12 + length;
+    }
+
+    const colors = colorType === 0 ? 1 : 3;
+    return {
+        width,
+        height,
+        filter: 'FlateDecode',
+        colorSpace: colors === 1 ? 'DeviceGray' : 'DeviceRGB',
+        data: concatBytes(chunks),
+        decodeParms: `<< /Predictor 15 /Colors ${colors} /BitsPerComponent 8 /Columns ${width} >>`,
+    };
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return result;
+}
+
+/**
+ * Prepares an image for embedding. JPEGs and simple PNGs are embedded byte for
+ * byte; anything else (transparency, palettes, WebP) is re-encoded once as a
+ * high-quality JPEG at its full size.
+ * @param dataUrl The image as a data URL.
+ * @returns The embeddable image.
+ */
+export async function pdfImageFromDataUrl(dataUrl: string): Promise<PdfImage> {
+    const { mimeType, bytes } = dataUrlToBytes(dataUrl);
+    const parsed = mimeType === 'image/jpeg' ? parseJpeg(bytes) : mimeType === 'image/png' ? parsePng(bytes) : null;
+    if (parsed) return parsed;
+
+    const img = await loadImage(dataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0);
+    const jpeg = parseJpeg(dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.95)).bytes);
+    if (!jpeg) {
+        throw new Error('Could not encode image for PDF');
+    }
+    return jpeg;
+}
+
+/**
+ * Writes a PDF text string: a literal string for plain ASCII, otherwise
+ * UTF-16BE with a byte order mark, in hex, so names like "Café" survive.
+ */
+function pdfString(text: string): string {
+    if (/^[\x20-\x7e]*$/.test(text)) {
+        return `(${text.replace(/[\\()]/g, match => `\\${match}`)})`;
+    }
+    // JavaScript strings are already UTF-16, surrogate pairs included.
+    const units = Array.from({ length: text.length }, (_, index) => text.charCodeAt(index).toString(16).padStart(4, '0'));
+    return `<FEFF${units.join('').toUpperCase()}>`;
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * Writes a PDF with one full-bleed set of images per page. Images shared
+ * between pages are stored once.
+ * @param pages The pages, in order.
+ * @param info Document metadata.
+ * @returns The PDF file.
+ */
+export function buildPdf(pages: PdfPage[], info: PdfInfo = {}): Blob {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    // Object numbers are assigned up front so pages can refer to each other.
+    let nextObject = 1;
+    const allocate = () => nextObject++;
+    const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\n`);
+        if (stream) {
+            write('stream\n');
+            write(stream);
+            write('\nendstream\n');
+        }
+        write('endobj\n');
+    };
+
+    const catalogId = allocate();
+    const pagesId = allocate();
+    const infoId = allocate();
+    const imageIds = new Map<PdfImage, number>();
+    pages.forEach(page => page.images.forEach(({ image }) => {
+        if (!imageIds.has(image)) imageIds.set(image, allocate());
+    }));
+    const pageIds = pages.map(() => ({ page: allocate(), content: allocate() }));
+
+    // The binary comment tells transfer tools the file isn't plain text.
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+    writeObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    writeObject(pagesId, `<< /Type /Pages /Kids [${pageIds.map(ids => `${ids.page} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    const infoEntries = [
+        info.title ? `/Title ${pdfString(info.title)}` : '',
+        info.creator ? `/Creator ${pdfString(info.creator)}` : '',
+    ].filter(Boolean).join(' ');
+    writeObject(infoId, `<< ${infoEntries} >>`);
+
+    imageIds.forEach((id, image) => {
+        const decodeParms = image.decodeParms ? ` /DecodeParms ${image.decodeParms}` : '';
+        writeObject(
+            id,
+            `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /${image.filter}${decodeParms} /Length ${image.data.length} >>`,
+            image.data
+        );
+    });
+
+    pages.forEach((page, index) => {
+        const ids = pageIds[index];
+        const names = new Map<number, string>();
+        const commands = page.images.map(({ image, x, y, width, height }) => {
+            const id = imageIds.get(image)!;
+            if (!names.has(id)) names.set(id, `Im${names.size + 1}`);
+            // PDF measures from the bottom-left corner.
+            const bottom = page.height - y - height;
+            return `q ${formatNumber(width)} 0 0 ${formatNumber(height)} ${formatNumber(x)} ${formatNumber(bottom)} cm /${names.get(id)} Do Q`;
+        });
+        const content = encoder.encode(commands.join('\n'));
+        const xObjects = Array.from(names, ([id, name]) => `/${name} ${id} 0 R`).join(' ');
+
+        writeObject(
+            ids.page,
+            `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}] /Resources << /XObject << ${xObjects} >> >> /Contents ${ids.content} 0 R >>`
+        );
+        writeObject(ids.content, `<< /Length ${content.length} >>`, content);
+    });
+
+    const xrefOffset = length;
+    const objectCount = nextObject;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
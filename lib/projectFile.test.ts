@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createEra } from './eras';
+import { createProjectFile, projectFileName, ProjectFileError, readProjectFile, type ProjectContents } from './projectFile';
+
+const PHOTO = 'data:image/png;base64,iVBORw0KGgo=';
+const RESULT = 'data:image/jpeg;base64,/9j/4AAQ';
+
+const PROJECT: ProjectContents = {
+    name: 'Grandma',
+    createdAt: 1700000000000,
+    uploadedImage: PHOTO,
+    referenceImages: [PHOTO],
+    eras: [createEra('1970s'), createEra('1980s')],
+    subject: { mode: 'single' },
+    generatedImages: {
+        '1970s': {
+            status: 'done',
+            attempts: [
+                { url: RESULT, createdAt: 1, prompt: 'a 1970s portrait', model: 'test-model' },
+                { url: RESULT, createdAt: 2, refinedFrom: 0, instruction: 'add a hat' },
+            ],
+            selectedIndex: 1,
+            pendingCount: 0,
+        },
+    },
+    customCaptions: { '1970s': 'Disco' },
+    orderedDecades: ['1980s', '1970s'],
+    filmSettings: { '1970s': { enabled: true, strength: 0.5 } },
+};
+
+async function readFile(file: Blob): Promise<Record<string, unknown>> {
+    return JSON.parse(await file.text());
+}
+
+function toBlob(file: unknown): Blob {
+    return new Blob([JSON.stringify(file)]);
+}
+
+async function expectRefused(file: Blob, message: string | RegExp) {
+    const error = await readProjectFile(file).catch(error => error);
+    expect(error).toBeInstanceOf(ProjectFileError);
+    expect(error.message).toMatch(message);
+}
+
+describe('project files', () => {
+    it('reopens an album exactly as it was saved', async () => {
+        const file = await createProjectFile(PROJECT, 'test-model');
+        expect(await readFile(file)).toMatchObject({ format: 'past-forward-project', version: 1, model: 'test-model' });
+        expect(await readProjectFile(file)).toEqual(PROJECT);
+    });
+
+    it('names the file after the album', () => {
+        expect(projectFileName('Grandma & Grandpa, 1970s!')).toBe('grandma-grandpa-1970s.pastforward');
+        expect(projectFileName('***')).toBe('past-forward.pastforward');
+    });
+
+    it('refuses a file that was changed after it was saved', async () => {
+        const file = await readFile(await createProjectFile(PROJECT));
+        (file.project as ProjectContents).name = 'Someone else';
+        await expectRefused(toBlob(file), 'damaged after it was saved');
+    });
+
+    it('refuses a versioned file without a checksum', async () => {
+        const { checksum: _, ...file } = await readFile(await createProjectFile(PROJECT));
+        await expectRefused(toBlob(file), 'incomplete');
+    });
+
+    it('refuses a newer file with its version and checksum removed', async () => {
+        const { version: _, checksum: __, ...file } = await readFile(await createProjectFile(PROJECT));
+        await expectRefused(toBlob(file), 'missing its version number and checksum');
+
+        const { version: ___, ...withChecksum } = await readFile(await createProjectFile(PROJECT));
+        await expectRefused(toBlob(withChecksum), 'missing its version number and checksum');
+    });
+
+    it('refuses files from a newer version of the app', async () => {
+        const file = await readFile(await createProjectFile(PROJECT));
+        await expectRefused(toBlob({ ...file, version: 2 }), 'newer version');
+    });
+
+    it('refuses files that are not projects', async () => {
+        await expectRefused(new Blob(['{"eras":']), 'isn\'t a Past Forward project');
+        await expectRefused(toBlob({ format: 'something-else', version: 1 }), 'isn\'t a Past Forward project');
+    });
+
+    it.each([
+        ['a photo that is not embedded', { uploadedImage: 'https://example.com/photo.jpg' }, 'The photo is missing'],
+        ['images for an era the album does not have', { generatedImages: { '1990s': PROJECT.generatedImages['1970s'] } }, '"1990s"'],
+        ['a card order that does not match the eras', { orderedDecades: ['1970s', '1990s'] }, 'card order'],
+        ['a refinement of an attempt that does not exist', {
+            generatedImages: { '1970s': { ...PROJECT.generatedImages['1970s'], attempts: [{ url: RESULT, createdAt: 1, refinedFrom: 3 }] } },
+        }, 'refined from one that doesn\'t exist'],
+        ['a film look out of range', { filmSettings: { '1970s': { enabled: true, strength: 2 } } }, 'film look'],
+    ])('says what is wrong with %s', async (_, change, message) => {
+        await expectRefused(await createProjectFile({ ...PROJECT, ...change } as ProjectContents), message);
+    });
+
+    it('migrates an unversioned file, including single-URL image records', async () => {
+        const legacy = {
+            format: 'past-forward-project',
+            project: {
+                name: 'Old album',
+                createdAt: 1600000000000,
+                uploadedImage: PHOTO,
+                generatedImages: {
+                    '1950s': { status: 'done', url: RESULT },
+                    '1960s': { status: 'error', error: 'Quota exceeded' },
+                },
+                customCaptions: {},
+                orderedDecades: ['1950s', '1960s'],
+            },
+        };
+        const project = await readProjectFile(toBlob(legacy));
+        expect(project).toMatchObject({
+            eras: [{ id: '1950s' }, { id: '1960s' }],
+            referenceImages: [],
+            subject: { mode: 'single' },
+            filmSettings: {},
+        });
+        expect(project.generatedImages['1950s']).toMatchObject({ status: 'done', attempts: [{ url: RESULT, createdAt: 1600000000000 }], selectedIndex: 0 });
+        expect(project.generatedImages['1960s']).toMatchObject({ status: 'error', attempts: [], error: { message: 'Quota exceeded' } });
+    });
+});
@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createEra, type Era } from './eras';
+import { normalizeGeneratedImage } from './generatedImages';
+import { SINGLE_SUBJECT } from './promptTemplates';
+import type { SavedSession } from '../services/sessionStore';
+import type { FilmSettings, GeneratedImage, ImageStatus, PhotoSubject } from '../types';
+
+export const PROJECT_FILE_EXTENSION = '.pastforward';
+export const PROJECT_FILE_VERSION = 1;
+/** Files written before the format carried a version number or checksum. */
+const UNVERSIONED_PROJECT_FILE_VERSION = 0;
+/**
+ * Project fields that came after the checksum. An unversioned file that has
+ * them is a newer file with its version and checksum removed, so it is refused.
+ */
+const VERSIONED_ONLY_FIELDS = ['sourceImage', 'referenceImages', 'eras', 'subject', 'filmSettings'];
+
+const PROJECT_FILE_FORMAT = 'past-forward-project';
+const PROJECT_FILE_TYPE = 'application/json';
+// Generous enough for six eras with several candidates each, small enough to refuse anything absurd.
+const MAX_PROJECT_FILE_BYTES = 200 * 1024 * 1024;
+
+const IMAGE_DATA_URL = /^data:image\/(jpeg|png|webp|gif);base64,[A-Za-z0-9+/]+=*$/;
+const IMAGE_STATUSES: ImageStatus[] = ['pending', 'done', 'error', 'cancelled'];
+
+/** A project file that can't be opened. The message is written for the user. */
+export class ProjectFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectFileError';
+    }
+}
+
+/** Everything needed to reopen an album, as written to a project file. */
+export interface ProjectContents {
+    name: string;
+    createdAt: number;
+    /** The photo that gets restyled, after any crop. */
+    uploadedImage: string;
+    /** The upload before any crop, when it differs from `uploadedImage`. */
+    sourceImage?: string;
+    referenceImages: string[];
+    eras: Era[];
+    subject: PhotoSubject;
+    /** Every era's attempts, including alternates and refinements, with the prompt and model behind each. */
+    generatedImages: Record<string, GeneratedImage>;
+    customCaptions: Record<string, string>;
+    orderedDecades: string[];
+    filmSettings: Record<string, FilmSettings>;
+}
+
+interface ProjectFile {
+    format: typeof PROJECT_FILE_FORMAT;
+    version: number;
+    savedAt: string;
+    /** The image model configured when the file was saved. Each attempt also records its own. */
+    model: string | null;
+    /**
+     * SHA-256 of the serialized project, so truncated or otherwise damaged files
+     * are caught. It sits in the file it covers, so anyone editing the file on
+     * purpose can update it too; it is not a signature.
+     */
+    checksum: string;
+    project: ProjectContents;
+}
+
+/**
+ * Upgrades a file's project from the version it names to the next one. Add one
+ * here whenever PROJECT_FILE_VERSION goes up.
+ */
+const MIGRATIONS: Record<number, (project: Record<string, unknown>) => Record<string, unknown>> = {
+    // Unversioned files predate reference photos, custom eras, group photos and
+    // film looks, and only recorded the card order. Their images may still be
+    // single-URL records from before version histories.
+    [UNVERSIONED_PROJECT_FILE_VERSION]: project => ({
+        ...project,
+        referenceImages: [],
+        eras: Array.isArray(project.orderedDecades) && project.orderedDecades.every(isString)
+            ? project.orderedDecades.map(id => createEra(id))
+            : undefined,
+        subject: SINGLE_SUBJECT,
+        filmSettings: {},
+        generatedImages: isRecord(project.generatedImages)
+            ? Object.fromEntries(Object.entries(project.generatedImages).map(([decade, image]) => [
+                decade,
+                isLegacyImage(image) ? normalizeGeneratedImage(image, isTimestamp(project.createdAt) ? project.createdAt : 0) : image,
+            ]))
+            : project.generatedImages,
+    }),
+};
+
+async function sha256(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Writes an album to a project file.
+ * @param project The album.
+ * @param model The image model currently configured.
+ * @returns The file contents, ready to download.
+ */
+export async function createProjectFile(project: ProjectContents, model?: string): Promise<Blob> {
+    const file: ProjectFile = {
+        format: PROJECT_FILE_FORMAT,
+        version: PROJECT_FILE_VERSION,
+        savedAt: new Date().toISOString(),
+        model: model ?? null,
+        checksum: await sha256(JSON.stringify(project)),
+        project,
+    };
+    return new Blob([JSON.stringify(file)], { type: PROJECT_FILE_TYPE });
+}
+
+/**
+ * Builds a file name for a project from the album's name.
+ * @param name The album name.
+ * @returns A file name ending in .pastforward.
+ */
+export function projectFileName(name: string): string {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${slug || 'past-forward'}${PROJECT_FILE_EXTENSION}`;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isTimestamp = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isImageDataUrl = (value: unknown): value is string => isString(value) && IMAGE_DATA_URL.test(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+// A record from before version histories: a status and at most one URL.
+function isLegacyImage(value: unknown): value is { status: ImageStatus; url?: string } {
+    return isRecord(value) && value.attempts === undefined && IMAGE_STATUSES.includes(value.status as ImageStatus) && isOptional(value.url, isString);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+    return isRecord(value) && Object.values(value).every(isString);
+}
+
+function isEra(value: unknown): value is Era {
+    return isRecord(value) && isString(value.id) && value.id.trim() !== '' && isString(value.period) && isOptional(value.region, isString);
+}
+
+function isSubject(value: unknown): value is PhotoSubject {
+    if (!isRecord(value) || (value.mode !== 'single' && value.mode !== 'group')) return false;
+    const isHeadCount = (count: unknown) => Number.isInteger(count) && (count as number) > 0;
+    return isOptional(value.headCount, isHeadCount) && isOptional(value.groupName, isString);
+}
+
+function isFilmSettings(value: unknown): value is FilmSettings {
+    return isRecord(value) && typeof value.enabled === 'boolean'
+        && typeof value.strength === 'number' && value.strength >= 0 && value.strength <= 1;
+}
+
+/**
+ * Checks one era's image state, describing the first problem found.
+ * @returns The problem, or null if the state is sound.
+ */
+function findImageProblem(image: unknown): string | null {
+    if (!isRecord(image)) return 'is not an image record';
+    if (!IMAGE_STATUSES.includes(image.status as ImageStatus)) return 'has an unknown status';
+    if (!Array.isArray(image.attempts)) return 'has no list of attempts';
+    const attemptCount = image.attempts.length;
+    for (const [index, attempt] of image.attempts.entries()) {
+        if (!isRecord(attempt) || !isImageDataUrl(attempt.url)) return `has an attempt (#${index + 1}) that isn't an embedded image`;
+        if (!isTimestamp(attempt.createdAt)) return `has an attempt (#${index + 1}) with no creation time`;
+        const refinedFrom = attempt.refinedFrom;
+        if (refinedFrom !== undefined && !(Number.isInteger(refinedFrom) && (refinedFrom as number) >= 0 && (refinedFrom as number) < attemptCount)) {
+            return `has an attempt (#${index + 1}) refined from one that doesn't exist`;
+        }
+        for (const key of ['prompt', 'promptTemplateId', 'model', 'instruction']) {
+            if (!isOptional(attempt[key], isString)) return `has an attempt (#${index + 1}) with an invalid ${key}`;
+        }
+    }
+    if (!Number.isInteger(image.selectedIndex) || (image.selectedIndex as number) < 0 || (attemptCount > 0 && (image.selectedIndex as number) >= attemptCount)) {
+        return 'selects an attempt that doesn\'t exist';
+    }
+    return null;
+}
+
+/**
+ * Checks the shape of a project, describing the first problem found.
+ * @returns The problem, or null if the project is sound.
+ */
+function findProjectProblem(project: Record<string, unknown>): string | null {
+    if (!isString(project.name)) return 'The album has no name.';
+    if (!isTimestamp(project.createdAt)) return 'The album has no creation time.';
+    if (!isImageDataUrl(project.uploadedImage)) return 'The photo is missing or is not an embedded image.';
+    if (!isOptional(project.sourceImage, isImageDataUrl)) return 'The uncropped photo is not an embedded image.';
+    if (!Array.isArray(project.referenceImages) || !project.referenceImages.every(isImageDataUrl)) {
+        return 'The reference photos are not embedded images.';
+    }
+    if (!Array.isArray(project.eras) || !project.eras.every(isEra)) return 'The list of eras is invalid.';
+    if (!isSubject(project.subject)) return 'The description of who is in the photo is invalid.';
+    if (!isStringRecord(project.customCaptions)) return 'The captions are invalid.';
+    if (!isRecord(project.filmSettings) || !Object.values(project.filmSettings).every(isFilmSettings)) {
+        return 'The film look settings are invalid.';
+    }
+
+    const eraIds = new Set((project.eras as Era[]).map(era => era.id));
+    if (eraIds.size !== project.eras.length) return 'The same era appears more than once.';
+    const order = project.orderedDecades;
+    if (!Array.isArray(order) || !order.every(isString) || new Set(order).size !== order.length || order.some(id => !eraIds.has(id))) {
+        return 'The card order doesn\'t match the eras.';
+    }
+
+    if (!isRecord(project.generatedImages)) return 'The generated images are missing.';
+    for (const [decade, image] of Object.entries(project.generatedImages)) {
+        if (!eraIds.has(decade)) return `There are images for "${decade}", which isn't one of the album's eras.`;
+        const problem = findImageProblem(image);
+        if (problem) return `The images for ${decade} are damaged: the record ${problem}.`;
+    }
+    return null;
+}
+
+/**
+ * Reads and checks a project file. Files from older versions, including ones
+ * with no version number, are migrated; damaged, invalid or unrecognized files
+ * are rejected, as are newer files whose version and checksum were removed.
+ * @param file The file the user picked.
+ * @returns The album, ready to open.
+ * @throws ProjectFileError explaining why the file can't be opened.
+ */
+export async function readProjectFile(file: Blob): Promise<ProjectContents> {
+    if (file.size > MAX_PROJECT_FILE_BYTES) {
+        throw new ProjectFileError(`This file is too large to be a Past Forward project (the limit is ${MAX_PROJECT_FILE_BYTES / 1024 / 1024} MB).`);
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new ProjectFileError('This file isn\'t a Past Forward project, or it has been damaged.');
+    }
+    if (!isRecord(parsed) || parsed.format !== PROJECT_FILE_FORMAT) {
+        throw new ProjectFileError('This file isn\'t a Past Forward project.');
+    }
+
+    const { checksum, project } = parsed;
+    const version = parsed.version ?? UNVERSIONED_PROJECT_FILE_VERSION;
+    if (!Number.isInteger(version) || (version as number) < UNVERSIONED_PROJECT_FILE_VERSION) {
+        throw new ProjectFileError('This project file has no valid version number.');
+    }
+    if ((version as number) > PROJECT_FILE_VERSION) {
+        throw new ProjectFileError('This project was saved by a newer version of Past Forward. Please update the app to open it.');
+    }
+    const hasChecksum = version !== UNVERSIONED_PROJECT_FILE_VERSION;
+    if (!isRecord(project) || (hasChecksum && !isString(checksum))) {
+        throw new ProjectFileError('This project file is incomplete.');
+    }
+    if (!hasChecksum && (checksum !== undefined || VERSIONED_ONLY_FIELDS.some(key => key in project))) {
+        throw new ProjectFileError('This project file is missing its version number and checksum, so it can\'t be checked for damage.');
+    }
+    // The checksum covers the project as it was written, before any migration.
+    if (hasChecksum && await sha256(JSON.stringify(project)) !== checksum) {
+        throw new ProjectFileError('This project file was damaged after it was saved, for example by an incomplete download or copy.');
+    }
+
+    let migrated = project;
+    for (let from = version as number; from < PROJECT_FILE_VERSION; from++) {
+        const migrate = MIGRATIONS[from];
+        if (!migrate) {
+            throw new ProjectFileError(`Project files from version ${from} can no longer be opened.`);
+        }
+        migrated = migrate(migrated);
+    }
+
+    const problem = findProjectProblem(migrated);
+    if (problem) {
+        throw new ProjectFileError(`This project file can't be opened. ${problem}`);
+    }
+
+    const contents = migrated as unknown as ProjectContents;
+    const generatedImages: Record<string, GeneratedImage> = {};
+    for (const [decade, image] of Object.entries(contents.generatedImages)) {
+        generatedImages[decade] = normalizeGeneratedImage(image, contents.createdAt);
+    }
+    return { ...contents, generatedImages };
+}
+
+/**
+ * Turns an opened project into a new saved session, so it shows up in My
+ * Albums without replacing the album it was saved from.
+ * @param project The project.
+ * @param id The new session's id.
+ * @returns The session.
+ */
+export function projectToSession(project: ProjectContents, id: string): SavedSession {
+    return {
+        id,
+        name: project.name,
+        createdAt: project.createdAt,
+        updatedAt: Date.now(),
+        uploadedImage: project.uploadedImage,
+        sourceImage: project.sourceImage,
+        referenceImages: project.referenceImages,
+        eras: project.eras,
+        subject: project.subject,
+        generatedImages: project.generatedImages,
+        customCaptions: project.customCaptions,
+        orderedDecades: project.orderedDecades,
+        filmSettings: project.filmSettings,
+    };
+}
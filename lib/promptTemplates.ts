@@ -0,0 +1,313 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describeEra, eraDecade, type Era } from './eras';
+import type { PhotoSubject } from '../types';
+
+export interface PromptVariables {
+    /** Prompt-ready era description, e.g. "the 1970s in Tokyo". Always derived from the era. */
+    era: string;
+    /** Who is in the photo, e.g. "person" or "4 people". Always derived from the photo subject. */
+    people: string;
+    style: string;
+    setting: string;
+    photoQuality: string;
+}
+
+type VariableOverrides = Partial<Omit<PromptVariables, 'era' | 'people'>>;
+
+export interface PromptTemplate {
+    id: string;
+    /** Bumped whenever the wording changes, so results can be traced to the exact text. */
+    version: number;
+    name: string;
+    description: string;
+    template: string;
+    /** Softer wording used when the model refuses the main prompt. */
+    fallbackTemplate: string;
+    /** Used instead of the two above for group photos, so nobody is dropped or merged. */
+    groupTemplate: string;
+    groupFallbackTemplate: string;
+    defaults: VariableOverrides;
+    /** Keyed by era id ("1970s Tokyo") or decade ("1970s"); an era id match wins. */
+    eraOverrides?: Record<string, VariableOverrides>;
+}
+
+export interface RenderedPrompt {
+    templateId: string;
+    templateVersion: number;
+    text: string;
+    fallbackText: string;
+    /**
+     * Group photos only: stronger wording for a single re-prompt when the result
+     * looks like a portrait of one person.
+     */
+    groupRetryText?: string;
+}
+
+export interface PromptSelection {
+    templateId: string;
+    /** Omit to always use the newest version of the template. */
+    templateVersion?: number;
+}
+
+const PERIOD_DETAILS: Record<string, VariableOverrides> = {
+    '1950s': { photoQuality: 'a black-and-white medium-format print with soft contrast' },
+    '1960s': { photoQuality: 'a saturated Kodachrome color slide' },
+    '1970s': { photoQuality: 'a warm, slightly faded color print' },
+    '1980s': { photoQuality: 'a glossy, flash-lit color snapshot' },
+    '1990s': { photoQuality: 'a 35mm disposable camera print' },
+    '2000s': { photoQuality: 'an early consumer digital camera photo' },
+};
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+    {
+        id: 'classic',
+        version: 1,
+        name: 'Classic',
+        description: 'The original Past Forward prompt. Leaves the details of the era up to the model.',
+        template: 'Reimagine the person in this photo in the style of {era}. This includes clothing, hairstyle, photo quality, and the overall aesthetic of that era. The output must be a photorealistic image showing the person clearly.',
+        fallbackTemplate: 'Create a photograph of the person in this image as if they were living in {era}. The photograph should capture the distinct fashion, hairstyles, and overall atmosphere of that time period. Ensure the final image is a clear photograph that looks authentic to the era.',
+        groupTemplate: 'Reimagine the {people} in this photo in the style of {era}. This includes clothing, hairstyles, photo quality, and the overall aesthetic of that era. Keep every person from the original photo in the picture as a separate, recognizable individual; do not drop, merge or add anyone. The output must be a photorealistic group photo showing everyone clearly.',
+        groupFallbackTemplate: 'Create a group photograph of the {people} in this image as if they were living in {era}. The photograph should capture the distinct fashion, hairstyles, and overall atmosphere of that time period. Everyone from the original photo must appear together in the frame. Ensure the final image is a clear photograph that looks authentic to the era.',
+        defaults: {},
+    },
+    {
+        id: 'detailed',
+        version: 1,
+        name: 'Detailed',
+        description: 'Spells out the styling, setting and photo process for each era.',
+        template: 'Reimagine the person in this photo as they would have looked in {era}. Dress them in {style}, place them in {setting}, and make the result look like {photoQuality}. Keep their face and identity recognizable. The output must be a photorealistic image showing the person clearly.',
+        fallbackTemplate: 'Create a photograph of the person in this image as if they were living in {era}, wearing {style}. The photograph should look like {photoQuality}. Ensure the final image is a clear photograph that looks authentic to the era.',
+        groupTemplate: 'Reimagine the {people} in this photo as they would have looked in {era}. Dress them in {style}, place them together in {setting}, and make the result look like {photoQuality}. Keep every person in the frame with their face and identity recognizable; do not drop, merge or add anyone. The output must be a photorealistic group photo showing everyone clearly.',
+        groupFallbackTemplate: 'Create a group photograph of the {people} in this image as if they were living in {era}, wearing {style}. The photograph should look like {photoQuality}. Everyone from the original photo must appear together in the frame. Ensure the final image is a clear photograph that looks authentic to the era.',
+        defaults: {
+            style: 'the clothing, hairstyle and accessories typical of the time',
+            setting: 'an everyday scene from that time and place',
+            photoQuality: 'an authentic photograph from that period',
+        },
+        eraOverrides: PERIOD_DETAILS,
+    },
+];
+
+// Appended to the group prompt when the first result only showed one person.
+const GROUP_RETRY_SUFFIX = 'Important: the original photo shows {people}. The result must show all of them together in one frame, not a portrait of a single person.';
+
+export const DEFAULT_PROMPT_SELECTION: PromptSelection = { templateId: 'classic' };
+
+export const SINGLE_SUBJECT: PhotoSubject = { mode: 'single' };
+
+const SELECTION_STORAGE_KEY = 'past-forward-prompt-template';
+
+/**
+ * Looks up a template by id and, optionally, version.
+ * @param templateId The template id.
+ * @param version The version; the newest one is used when omitted.
+ * @returns The template, or undefined if no such template exists.
+ */
+export function getPromptTemplate(templateId: string, version?: number): PromptTemplate | undefined {
+    const candidates = PROMPT_TEMPLATES.filter(template => template.id === templateId);
+    if (version !== undefined) {
+        return candidates.find(template => template.version === version);
+    }
+    return candidates.reduce<PromptTemplate | undefined>(
+        (latest, template) => (!latest || template.version > latest.version ? template : latest),
+        undefined
+    );
+}
+
+function describePeople(subject: PhotoSubject): string {
+    if (subject.mode === 'single') return 'person';
+    return subject.headCount && subject.headCount > 1 ? `${subject.headCount} people` : 'people';
+}
+
+/**
+ * Resolves the variables for a template and era: template defaults, then the
+ * decade override, then the era-specific override.
+ * @param template The prompt template.
+ * @param era The era being generated.
+ * @param subject Who is in the photo.
+ * @returns The full variable set.
+ */
+export function resolvePromptVariables(template: PromptTemplate, era: Era, subject: PhotoSubject = SINGLE_SUBJECT): PromptVariables {
+    const decade = eraDecade(era);
+    return {
+        style: '',
+        setting: '',
+        photoQuality: '',
+        ...template.defaults,
+        ...(decade ? template.eraOverrides?.[decade] : undefined),
+        ...template.eraOverrides?.[era.id],
+        era: describeEra(era),
+        people: describePeople(subject),
+    };
+}
+
+function fillTemplate(text: string, variables: PromptVariables): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        if (!(name in variables)) {
+            throw new Error(`Unknown prompt variable ${placeholder}`);
+        }
+        return variables[name as keyof PromptVariables];
+    });
+}
+
+/**
+ * Renders a template's main and fallback prompts for an era, using the group
+ * wording when the photo has more than one person in it.
+ * @param template The prompt template.
+ * @param era The era being generated.
+ * @param subject Who is in the photo.
+ * @returns The rendered prompts along with the template id and version.
+ */
+export function renderPrompt(template: PromptTemplate, era: Era, subject: PhotoSubject = SINGLE_SUBJECT): RenderedPrompt {
+    const variables = resolvePromptVariables(template, era, subject);
+    const rendered = {
+        templateId: template.id,
+        templateVersion: template.version,
+    };
+    if (subject.mode === 'single') {
+        return {
+            ...rendered,
+            text: fillTemplate(template.template, variables),
+            fallbackText: fillTemplate(template.fallbackTemplate, variables),
+        };
+    }
+    const text = fillTemplate(template.groupTemplate, variables);
+    return {
+        ...rendered,
+        text,
+        fallbackText: fillTemplate(template.groupFallbackTemplate, variables),
+        groupRetryText: `${text} ${fillTemplate(GROUP_RETRY_SUFFIX, variables)}`,
+    };
+}
+
+/** The most photos of the same person that can be sent with a generation, the main one included. */
+export const MAX_REFERENCE_PHOTOS = 5;
+
+/**
+ * Adds a note explaining the extra images sent after the main photo: more
+ * photos of the same people, and optionally their result from a neighbouring
+ * era. The note is appended to every wording of the prompt.
+ * @param prompt The rendered prompt.
+ * @param referenceCount How many extra photos of the people are sent.
+ * @param hasChainImage Whether a neighbouring era's result is sent last.
+ * @param subject Who is in the photo.
+ * @returns The prompt with the note, or the same prompt if nothing extra is sent.
+ */
+export function withReferenceNote(prompt: RenderedPrompt, referenceCount: number, hasChainImage: boolean, subject: PhotoSubject = SINGLE_SUBJECT): RenderedPrompt {
+    const isGroup = subject.mode === 'group';
+    const people = describePeople(subject);
+    const faces = isGroup ? 'every face' : 'the face';
+    const notes: string[] = [];
+    if (referenceCount > 0) {
+        notes.push(`The next ${referenceCount === 1 ? 'image is another photo' : `${referenceCount} images are other photos`} of the same ${people}; use them all to keep ${faces} recognizable.`);
+    }
+    if (hasChainImage) {
+        notes.push(`The last image shows ${isGroup ? 'these' : 'this'} ${people} reimagined in a neighbouring era; keep ${faces} consistent with it, but not its clothing or styling.`);
+    }
+    if (notes.length === 0) return prompt;
+    const note = ` ${notes.join(' ')}`;
+    return {
+        ...prompt,
+        text: prompt.text + note,
+        fallbackText: prompt.fallbackText + note,
+        groupRetryText: prompt.groupRetryText && prompt.groupRetryText + note,
+    };
+}
+
+/**
+ * Adds an insistent note for a second try after a result came back unchanged,
+ * blank or the same as another era's. The note is appended to every wording
+ * of the prompt.
+ * @param prompt The rendered prompt.
+ * @param era The era being generated.
+ * @param subject Who is in the photo.
+ * @returns The prompt with the note.
+ */
+export function withStrongerWording(prompt: RenderedPrompt, era: Era, subject: PhotoSubject = SINGLE_SUBJECT): RenderedPrompt {
+    const keepEveryone = subject.mode === 'group' ? `, and keep all of the ${describePeople(subject)} in the frame` : '';
+    const note = ` Important: the result must be a new, full-size photograph that clearly looks like it was taken in ${describeEra(era)}. Do not return the original photo unchanged or a blank image; change the clothing, hair, setting and photo quality to match the era${keepEveryone}.`;
+    return {
+        ...prompt,
+        text: prompt.text + note,
+        fallbackText: prompt.fallbackText + note,
+        groupRetryText: prompt.groupRetryText && prompt.groupRetryText + note,
+    };
+}
+
+/** The longest refinement instruction accepted, in characters. */
+export const MAX_REFINEMENT_LENGTH = 300;
+
+/** How many earlier instructions are repeated in a refinement prompt; older ones are dropped. */
+export const MAX_REFINEMENT_HISTORY = 10;
+
+/**
+ * Renders the prompt for a follow-up edit of a generated image. Earlier
+ * instructions are repeated so the model keeps them while making the new one.
+ * @param era The era the image shows.
+ * @param instruction What to change, e.g. "make the hair shorter".
+ * @param history Earlier instructions for this image, oldest first.
+ * @param withSource Whether the original photo is sent along for likeness.
+ * @param subject Who is in the photo.
+ * @returns The prompt text.
+ */
+export function renderRefinementPrompt(era: Era, instruction: string, history: string[] = [], withSource = false, subject: PhotoSubject = SINGLE_SUBJECT): string {
+    // Instructions are sentence fragments inside the prompt, so drop any closing punctuation.
+    const clean = (text: string) => text.trim().replace(/[.!;\s]+$/, '');
+    const isGroup = subject.mode === 'group';
+    const who = isGroup ? `a group of ${describePeople(subject)}` : 'a person';
+    const parts = [`This is a photograph of ${who} in the style of ${describeEra(era)}. Edit it: ${clean(instruction)}.`];
+    if (history.length > 0) {
+        parts.push(`Keep the earlier changes: ${history.map(clean).join('; ')}.`);
+    }
+    if (withSource) {
+        parts.push(`The second image is the original photo; keep ${isGroup ? "everyone's face and identity" : 'the face and identity'} matching it.`);
+    }
+    if (isGroup) {
+        parts.push('Keep everyone in the frame; do not drop, merge or add anyone.');
+    }
+    parts.push('Change nothing else, keep the look of the era and return a photorealistic image.');
+    return parts.join(' ');
+}
+
+/**
+ * Resolves a selection to a template, falling back to the default if the
+ * selected template or version no longer exists.
+ * @param selection The saved selection.
+ * @returns The template to render with.
+ */
+export function resolvePromptSelection(selection: PromptSelection): PromptTemplate {
+    return getPromptTemplate(selection.templateId, selection.templateVersion)
+        ?? getPromptTemplate(DEFAULT_PROMPT_SELECTION.templateId)!;
+}
+
+/**
+ * Reads the user's template choice from localStorage.
+ * @returns The saved selection, or the default.
+ */
+export function loadPromptSelection(): PromptSelection {
+    try {
+        const stored = localStorage.getItem(SELECTION_STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as PromptSelection;
+            if (typeof parsed.templateId === 'string') return parsed;
+        }
+    } catch (error) {
+        console.warn("Could not read saved prompt template:", error);
+    }
+    return DEFAULT_PROMPT_SELECTION;
+}
+
+/**
+ * Saves the user's template choice to localStorage.
+ * @param selection The selection to save.
+ */
+export function savePromptSelection(selection: PromptSelection): void {
+    try {
+        localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+    } catch (error) {
+        console.warn("Could not save prompt template:", error);
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zipWriter';
+
+interface ReadEntry {
+    name: string;
+    data: Uint8Array;
+    crc: number;
+    flags: number;
+    date: number;
+    time: number;
+}
+
+/** Reads an archive through its central directory, the way unzip tools do. */
+async function readZip(blob: Blob): Promise<ReadEntry[]> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const decoder = new TextDecoder();
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    expect(offset + view.getUint32(end + 12, true)).toBe(end);
+
+    const entries: ReadEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(offset, true)).toBe(0x02014b50);
+        const nameLength = view.getUint16(offset + 28, true);
+        const size = view.getUint32(offset + 20, true);
+        const local = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+        expect(view.getUint32(local, true)).toBe(0x04034b50);
+        expect(view.getUint32(local + 14, true)).toBe(view.getUint32(offset + 16, true));
+        expect(decoder.decode(bytes.subarray(local + 30, local + 30 + nameLength))).toBe(name);
+        const start = local + 30 + nameLength + view.getUint16(local + 28, true);
+
+        entries.push({
+            name,
+            data: bytes.slice(start, start + size),
+            crc: view.getUint32(offset + 16, true),
+            flags: view.getUint16(offset + 8, true),
+            time: view.getUint16(offset + 12, true),
+            date: view.getUint16(offset + 14, true),
+        });
+        offset += 46 + nameLength;
+    }
+    return entries;
+}
+
+describe('crc32', () => {
+    it('matches the standard check value', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+        expect(crc32(new Uint8Array())).toBe(0);
+    });
+});
+
+describe('createZip', () => {
+    it('stores every file with its name, contents and checksum', async () => {
+        const photo = new Uint8Array([0xff, 0xd8, 0x00, 0x7f, 0xff, 0xd9]);
+        const entries = await readZip(createZip([
+            { name: 'manifest.json', data: '{"eras":["1970s"]}' },
+            { name: 'images/01-1970s.jpg', data: photo },
+        ]));
+
+        expect(entries.map(entry => entry.name)).toEqual(['manifest.json', 'images/01-1970s.jpg']);
+        expect(new TextDecoder().decode(entries[0].data)).toBe('{"eras":["1970s"]}');
+        expect(Array.from(entries[1].data)).toEqual(Array.from(photo));
+        entries.forEach(entry => expect(entry.crc).toBe(crc32(entry.data)));
+    });
+
+    it('marks names as UTF-8 so non-ASCII names survive', async () => {
+        const [entry] = await readZip(createZip([{ name: 'Café Müller/1970s.txt', data: 'x' }]));
+        expect(entry.name).toBe('Café Müller/1970s.txt');
+        expect(entry.flags & 0x0800).toBe(0x0800);
+    });
+
+    it('records the modification time in MS-DOS format', async () => {
+        const [entry] = await readZip(createZip([{ name: 'a.txt', data: '', modified: new Date(2024, 4, 17, 13, 45, 31) }]));
+        expect(entry.date).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+        expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+    });
+
+    it('writes a valid empty archive', async () => {
+        expect(await readZip(createZip([]))).toEqual([]);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ZipEntry {
+    /** Path inside the archive, using forward slashes. */
+    name: string;
+    data: Uint8Array | string;
+    modified?: Date;
+}
+
+// Bit 11 of the general purpose flags: file names are UTF-8.
+const UTF8_FLAG = 0x0800;
+// Entries are stored uncompressed; photos are already compressed and JSON is tiny.
+const METHOD_STORE = 0;
+const VERSION = 20;
+
+const encoder = new TextEncoder();
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    return crcTable;
+}
+
+/**
+ * Computes the CRC-32 checksum ZIP uses to verify each file.
+ * @param data The file contents.
+ * @returns The checksum.
+ */
+export function crc32(data: Uint8Array): number {
+    const table = getCrcTable();
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Packs a date into the MS-DOS time and date fields ZIP uses (local time, 2-second steps). */
+function toDosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+/**
+ * Writes a ZIP archive. Works entirely in the browser, with no network access.
+ * @param entries The files to include, in order.
+ * @returns The archive.
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+    const parts: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+        const name = encoder.encode(entry.name);
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        const checksum = crc32(data);
+        const { time, date } = toDosDateTime(entry.modified ?? new Date());
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, VERSION, true);
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, METHOD_STORE, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, checksum, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, VERSION, true);
+        central.setUint16(6, VERSION, true);
+        central.setUint16(8, UTF8_FLAG, true);
+        central.setUint16(10, METHOD_STORE, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, checksum, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+
+        parts.push(new Uint8Array(local.buffer), name, data);
+        centralDirectory.push(new Uint8Array(central.buffer), name);
+        offset += 30 + name.length + data.length;
+    });
+
+    const directorySize = centralDirectory.reduce((total, part) => total + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+}
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { config } from '../services/config';
+import { QuotaExceededError } from '../services/errors';
+import { setImageProvider } from '../services/providers';
+import { MAX_REFINEMENT_HISTORY, MAX_REFINEMENT_LENGTH } from '../lib/promptTemplates';
+import { CLIENT_RATE_LIMIT_HEADER, GENERATE_ROUTE, HEALTH_ROUTE, REFINE_ROUTE, type GenerateApiError, type GenerateApiResponse, type HealthApiResponse, type RefineApiResponse } from '../services/generationApi';
+import { createRequestHandler } from './app';
+import { createRateLimiter } from './rateLimiter';
+import { createStandInProvider, STAND_IN_MODEL } from './standInProvider';
+
+const RATE_LIMIT = 3;
+const MAX_REQUEST_BYTES = 4096;
+// A 1x1 PNG.
+const PHOTO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+let server: Server;
+let baseUrl: string;
+let previousProvider: typeof config.provider;
+
+function post(path: string, body: unknown, clientId = 'client'): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': clientId },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+}
+
+// Every test gets its own client id, so the rate limit only bites where it's being tested.
+let clientCounter = 0;
+let clientId: string;
+
+beforeAll(async () => {
+    // The browser bundle's provider doesn't apply on the server; run against the stand-in upstream.
+    previousProvider = config.provider;
+    config.provider = 'local';
+    setImageProvider(createStandInProvider());
+    server = createServer(createRequestHandler({
+        providerId: 'local',
+        rateLimiter: createRateLimiter(RATE_LIMIT, 60000),
+        maxRequestBytes: MAX_REQUEST_BYTES,
+        trustProxy: true,
+    }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    config.provider = previousProvider;
+    setImageProvider(null);
+    await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+    clientId = `client-${++clientCounter}`;
+});
+
+describe('POST /api/generate', () => {
+    it('returns the stand-in image with the template and model used', async () => {
+        const response = await post(GENERATE_ROUTE, { image: PHOTO, era: { period: '1970s' }, templateId: 'classic' }, clientId);
+        expect(response.status).toBe(200);
+        const body = await response.json() as GenerateApiResponse;
+        expect(body.image).toMatch(/^data:image\//);
+        expect(body.model).toBe(STAND_IN_MODEL);
+        expect(body.skipResultValidation).toBe(true);
+        expect(body.templateId).toBe('classic');
+        expect(body.templateVersion).toBeGreaterThan(0);
+    });
+
+    it('asks clients to check results from a provider that does not opt out', async () => {
+        setImageProvider({ id: 'gemini', model: 'test-model', generate: async ({ image }) => ({ image }) });
+        try {
+            const response = await post(GENERATE_ROUTE, { image: PHOTO, era: { period: '1970s' } }, clientId);
+            expect(await response.json()).toMatchObject({ model: 'test-model', skipResultValidation: false });
+        } finally {
+            setImageProvider(createStandInProvider());
+        }
+    });
+
+    it('rejects a request without a valid image', async () => {
+        const response = await post(GENERATE_ROUTE, { image: 'https://example.com/photo.jpg', era: { period: '1970s' } }, clientId);
+        expect(response.status).toBe(400);
+        const { error } = await response.json() as GenerateApiError;
+        expect(error.kind).toBe('invalid-input');
+        expect(error.message).toContain('data URL');
+    });
+
+    it('rejects an era it cannot read', async () => {
+        const response = await post(GENERATE_ROUTE, { image: PHOTO, era: { period: 'the future' } }, clientId);
+        expect(response.status).toBe(400);
+        expect((await response.json() as GenerateApiError).error.kind).toBe('invalid-input');
+    });
+
+    it('rejects an unknown prompt template', async () => {
+        const response = await post(GENERATE_ROUTE, { image: PHOTO, era: { period: '1970s' }, templateId: 'no-such-template' }, clientId);
+        expect(response.status).toBe(400);
+        expect((await response.json() as GenerateApiError).error.message).toContain('no-such-template');
+    });
+
+    it('answers a body that is not JSON as a bad request, not a problem with the photo', async () => {
+        const response = await post(GENERATE_ROUTE, '{ not json', clientId);
+        expect(response.status).toBe(400);
+        const { error } = await response.json() as GenerateApiError;
+        expect(error.title).toBe('Bad request');
+        expect(error.suggestion).not.toContain('photo');
+    });
+
+    it('rejects a body over the size limit', async () => {
+        const response = await post(GENERATE_ROUTE, { image: PHOTO, padding: 'x'.repeat(MAX_REQUEST_BYTES) }, clientId);
+        expect(response.status).toBe(413);
+    });
+
+    it('only accepts POST', async () => {
+        const response = await fetch(`${baseUrl}${GENERATE_ROUTE}`);
+        expect(response.status).toBe(405);
+        expect(response.headers.get('allow')).toBe('POST');
+        expect((await response.json() as GenerateApiError).error.kind).toBe('invalid-input');
+    });
+
+    it('rate limits each client separately', async () => {
+        const request = { image: PHOTO, era: { period: '1980s' } };
+        for (let i = 0; i < RATE_LIMIT; i++) {
+            expect((await post(GENERATE_ROUTE, request, clientId)).status).toBe(200);
+        }
+
+        const limited = await post(GENERATE_ROUTE, request, clientId);
+        expect(limited.status).toBe(429);
+        expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+        expect(limited.headers.has(CLIENT_RATE_LIMIT_HEADER)).toBe(true);
+        const { error } = await limited.json() as GenerateApiError;
+        expect(error.kind).toBe('quota-exceeded');
+        expect(error.retryable).toBe(true);
+
+        expect((await post(GENERATE_ROUTE, request, `${clientId}-other`)).status).toBe(200);
+    });
+
+    it('tells the upstream quota apart from its own rate limit', async () => {
+        let calls = 0;
+        setImageProvider({
+            id: 'local',
+            model: STAND_IN_MODEL,
+            async generate() {
+                calls++;
+                throw new QuotaExceededError(1);
+            },
+        });
+        try {
+            const response = await post(GENERATE_ROUTE, { image: PHOTO, era: { period: '1970s' } }, clientId);
+            expect(response.status).toBe(429);
+            expect(response.headers.has(CLIENT_RATE_LIMIT_HEADER)).toBe(false);
+            expect((await response.json() as GenerateApiError).error.kind).toBe('quota-exceeded');
+            expect(calls).toBeGreaterThan(1); // Already retried by the server
+        } finally {
+            setImageProvider(createStandInProvider());
+        }
+    });
+});
+
+describe('POST /api/refine', () => {
+    const refinement = { image: PHOTO, era: { period: '1970s' }, instruction: 'make the hair shorter' };
+
+    it('returns the edited image with the model used', async () => {
+        const response = await post(REFINE_ROUTE, { ...refinement, history: ['add glasses'], sourceImage: PHOTO }, clientId);
+        expect(response.status).toBe(200);
+        const body = await response.json() as RefineApiResponse;
+        expect(body.image).toMatch(/^data:image\//);
+        expect(body.model).toBe(STAND_IN_MODEL);
+    });
+
+    it('rejects a missing or overlong instruction', async () => {
+        for (const instruction of [undefined, '   ', 'x'.repeat(MAX_REFINEMENT_LENGTH + 1)]) {
+            const response = await post(REFINE_ROUTE, { ...refinement, instruction }, clientId);
+            expect(response.status).toBe(400);
+            expect((await response.json() as GenerateApiError).error.message).toContain('instruction');
+        }
+    });
+
+    it('rejects a history that is too long or not all instructions', async () => {
+        for (const history of [Array(MAX_REFINEMENT_HISTORY + 1).fill('add a hat'), ['add a hat', 42], 'add a hat']) {
+            const response = await post(REFINE_ROUTE, { ...refinement, history }, clientId);
+            expect(response.status).toBe(400);
+            expect((await response.json() as GenerateApiError).error.message).toContain('history');
+        }
+    });
+
+    it('rejects a source image that is not an embedded image', async () => {
+        const response = await post(REFINE_ROUTE, { ...refinement, sourceImage: 'https://example.com/photo.jpg' }, clientId);
+        expect(response.status).toBe(400);
+        expect((await response.json() as GenerateApiError).error.kind).toBe('invalid-input');
+    });
+
+    it('rejects a body over the size limit', async () => {
+        const response = await post(REFINE_ROUTE, { ...refinement, padding: 'x'.repeat(MAX_REQUEST_BYTES) }, clientId);
+        expect(response.status).toBe(413);
+        expect((await response.json() as GenerateApiError).error.kind).toBe('invalid-input');
+    });
+
+    it('only accepts POST', async () => {
+        const response = await fetch(`${baseUrl}${REFINE_ROUTE}`);
+        expect(response.status).toBe(405);
+        expect(response.headers.get('allow')).toBe('POST');
+    });
+});
+
+describe('other routes', () => {
+    it('reports health with the provider and model', async () => {
+        const response = await fetch(`${baseUrl}${HEALTH_ROUTE}`);
+        expect(response.status).toBe(200);
+        const body = await response.json() as HealthApiResponse;
+        expect(body).toMatchObject({ status: 'ok', provider: 'local', model: STAND_IN_MODEL, skipResultValidation: true });
+    });
+
+    it('returns 404 for unknown API routes', async () => {
+        const response = await fetch(`${baseUrl}/api/unknown`);
+        expect(response.status).toBe(404);
+        expect((await response.json() as GenerateApiError).error).toMatchObject({ kind: 'invalid-input', title: 'Not found' });
+    });
+
+    it('returns 400 for a malformed path', async () => {
+        const response = await fetch(`${baseUrl}/%E0%A4%A`);
+        expect(response.status).toBe(400);
+        expect((await response.json() as GenerateApiError).error.kind).toBe('invalid-input');
+    });
+});
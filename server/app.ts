@@ -0,0 +1,267 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { generateDecadeImage, getActiveModel, refineDecadeImage, shouldValidateResults } from '../services/geminiService';
+import { InvalidInputError, toGenerationError, UnknownGenerationError } from '../services/errors';
+import { CLIENT_RATE_LIMIT_HEADER, GENERATE_ROUTE, HEALTH_ROUTE, REFINE_ROUTE, type GenerateApiError, type GenerateApiResponse, type HealthApiResponse, type RefineApiResponse } from '../services/generationApi';
+import { isAbortError } from '../lib/utils';
+import { parseGenerateRequest, parseRefineRequest } from './generateRequest';
+import type { RateLimiter } from './rateLimiter';
+import type { GenerationErrorKind, GenerationFailure } from '../types';
+
+export interface RequestHandlerOptions {
+    providerId: string;
+    rateLimiter: RateLimiter;
+    maxRequestBytes: number;
+    trustProxy: boolean;
+    /** Serve the built client from here, if it exists. */
+    staticDir?: string;
+}
+
+const STATUS_BY_KIND: Record<GenerationErrorKind, number> = {
+    'invalid-input': 400,
+    'safety-blocked': 422,
+    'quota-exceeded': 429,
+    'model-text-only': 502,
+    'network-unavailable': 502,
+    'unknown': 500,
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.ico': 'image/x-icon',
+};
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * A request the app itself got wrong, rather than a problem with the photo,
+ * e.g. a body that isn't JSON or a route that doesn't exist.
+ */
+function badRequestFailure(message: string, title = 'Bad request'): GenerationFailure {
+    return {
+        kind: 'invalid-input',
+        title,
+        message,
+        suggestion: 'Reload the page and try again.',
+        retryable: false,
+    };
+}
+
+/**
+ * Decodes a request's path.
+ * @returns The path, or null if it is malformed, e.g. a broken percent escape.
+ */
+function parsePathname(url: string | undefined): string | null {
+    try {
+        return decodeURIComponent(new URL(url ?? '/', 'http://localhost').pathname);
+    } catch {
+        return null;
+    }
+}
+
+function sendFailure(res: ServerResponse, failure: GenerationFailure, status = STATUS_BY_KIND[failure.kind], headers: Record<string, string> = {}) {
+    const retryAfter: Record<string, string> = failure.retryAfterMs ? { 'Retry-After': String(Math.ceil(failure.retryAfterMs / 1000)) } : {};
+    sendJson(res, status, { error: failure } satisfies GenerateApiError, { ...retryAfter, ...headers });
+}
+
+/**
+ * Reads the request body, giving up as soon as it passes the size limit.
+ * @returns The body, or null if it was too large.
+ */
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+        if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+            resolve(null);
+            return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                req.removeAllListeners('data');
+                req.resume();
+                resolve(null);
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+function getClientId(req: IncomingMessage, trustProxy: boolean): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+}
+
+/** Serves a file from the built client, falling back to index.html for app routes. */
+function serveStatic(res: ServerResponse, pathname: string, staticDir: string): boolean {
+    const root = path.resolve(staticDir);
+    if (!existsSync(root)) return false;
+
+    let file = path.resolve(root, `.${pathname}`);
+    if (!file.startsWith(root + path.sep) || !existsSync(file) || statSync(file).isDirectory()) {
+        file = path.join(root, 'index.html');
+    }
+    if (!existsSync(file)) return false;
+
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+    res.end(readFileSync(file));
+    return true;
+}
+
+/**
+ * Handles a generation-style route: applies the rate limit and size limit,
+ * parses the JSON body and runs the job, cancelling it if the client goes away.
+ * Errors are sent as structured failures.
+ */
+async function handleJob(
+    req: IncomingMessage,
+    res: ServerResponse,
+    options: RequestHandlerOptions,
+    run: (body: unknown, signal: AbortSignal) => Promise<GenerateApiResponse | RefineApiResponse>
+) {
+    const limit = options.rateLimiter.take(getClientId(req, options.trustProxy));
+    if (!limit.allowed) {
+        const failure: GenerationFailure = {
+            kind: 'quota-exceeded',
+            title: 'Slow down',
+            message: 'Too many generations from this device. Please wait before trying again.',
+            suggestion: `Wait ${Math.ceil(limit.retryAfterMs / 1000)}s, then try again.`,
+            retryable: true,
+            retryAfterMs: limit.retryAfterMs,
+        };
+        sendFailure(res, failure, 429, { [CLIENT_RATE_LIMIT_HEADER]: '1' });
+        return;
+    }
+
+    const raw = await readBody(req, options.maxRequestBytes);
+    if (raw === null) {
+        const megabytes = Number((options.maxRequestBytes / (1024 * 1024)).toFixed(1));
+        sendFailure(res, new InvalidInputError(`The request is larger than ${megabytes} MB.`).toFailure(), 413);
+        return;
+    }
+
+    let body: unknown;
+    try {
+        body = JSON.parse(raw);
+    } catch {
+        sendFailure(res, badRequestFailure('The request body is not valid JSON.'));
+        return;
+    }
+
+    // Stop generating if the client goes away.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+        sendJson(res, 200, await run(body, controller.signal));
+    } catch (error) {
+        if (controller.signal.aborted || isAbortError(error)) {
+            console.log('Client disconnected; generation cancelled.');
+            return;
+        }
+        const failure = toGenerationError(error).toFailure();
+        console.error(`Generation failed (${failure.kind}):`, failure.message);
+        sendFailure(res, failure);
+    }
+}
+
+async function runGenerate(body: unknown, signal: AbortSignal): Promise<GenerateApiResponse> {
+    const job = parseGenerateRequest(body);
+    const references = job.referenceImages.length + (job.chainImage ? 1 : 0);
+    console.log(`Generating ${job.era.id} with "${job.prompt.templateId}" v${job.prompt.templateVersion}${references ? ` and ${references} reference image(s)` : ''}${job.strongerPrompt ? ' (stronger prompt)' : ''}...`);
+    const image = await generateDecadeImage(job.image, job.prompt, job.era, {
+        referenceImages: job.referenceImages,
+        chainImage: job.chainImage,
+        strongerPrompt: job.strongerPrompt,
+        subject: job.subject,
+        signal,
+    });
+    return {
+        image,
+        model: getActiveModel(),
+        skipResultValidation: !shouldValidateResults(),
+        templateId: job.prompt.templateId,
+        templateVersion: job.prompt.templateVersion,
+    };
+}
+
+async function runRefine(body: unknown, signal: AbortSignal): Promise<RefineApiResponse> {
+    const job = parseRefineRequest(body);
+    console.log(`Refining ${job.era.id} (step ${job.history.length + 1})...`);
+    const image = await refineDecadeImage(job.image, job.instruction, job.era, {
+        history: job.history,
+        sourceImage: job.sourceImage,
+        subject: job.subject,
+        signal,
+    });
+    return { image, model: getActiveModel(), skipResultValidation: !shouldValidateResults() };
+}
+
+/**
+ * Creates the HTTP handler for the generation server: `POST /api/generate`,
+ * `POST /api/refine`, `GET /api/health` and, optionally, the built client.
+ * @param options Rate limiting, size limits and where the client is.
+ * @returns A handler for `http.createServer`.
+ */
+export function createRequestHandler(options: RequestHandlerOptions) {
+    const startedAt = Date.now();
+
+    return async (req: IncomingMessage, res: ServerResponse) => {
+        const pathname = parsePathname(req.url);
+        if (pathname === null) {
+            sendFailure(res, badRequestFailure('The URL is malformed.'));
+            return;
+        }
+        try {
+            if (pathname === HEALTH_ROUTE) {
+                const health: HealthApiResponse = {
+                    status: 'ok',
+                    provider: options.providerId,
+                    model: getActiveModel(),
+                    skipResultValidation: !shouldValidateResults(),
+                    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+                };
+                sendJson(res, 200, health);
+                return;
+            }
+            if (pathname === GENERATE_ROUTE || pathname === REFINE_ROUTE) {
+                if (req.method !== 'POST') {
+                    sendFailure(res, badRequestFailure(`${pathname} only accepts POST.`, 'Method not allowed'), 405, { Allow: 'POST' });
+                    return;
+                }
+                await handleJob(req, res, options, pathname === GENERATE_ROUTE ? runGenerate : runRefine);
+                return;
+            }
+            if (!pathname.startsWith('/api/') && req.method === 'GET' && options.staticDir && serveStatic(res, pathname, options.staticDir)) {
+                return;
+            }
+            sendFailure(res, badRequestFailure(`There is nothing at ${pathname}.`, 'Not found'), 404);
+        } catch (error) {
+            console.error('Unhandled server error:', error);
+            if (!res.headersSent) sendFailure(res, new UnknownGenerationError('Internal server error.').toFailure(), 500);
+        }
+    };
+}
@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const serverConfig = {
+    port: Number(process.env.PORT || 8787),
+    /** Requests larger than this are rejected before they're parsed. Uploads are scaled down well below it. */
+    maxRequestBytes: Number(process.env.MAX_REQUEST_BYTES || 8 * 1024 * 1024),
+    /** How many generations each client may request per window. */
+    rateLimit: Number(process.env.RATE_LIMIT_PER_MINUTE || 20),
+    rateLimitWindowMs: 60000,
+    /** Use the X-Forwarded-For header to identify clients. Only enable behind a proxy you trust. */
+    trustProxy: process.env.TRUST_PROXY === 'true',
+    /** The built client, served alongside the API when present. */
+    staticDir: process.env.STATIC_DIR || 'dist',
+};
@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { existsSync } from 'node:fs';
+
+// Imported first by the server entry point, so the same .env.local the Vite dev
+// server reads is in place before services/config.ts looks at process.env.
+for (const file of ['.env.local', '.env']) {
+    if (existsSync(file)) {
+        process.loadEnvFile(file);
+    }
+}
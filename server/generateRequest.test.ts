@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { InvalidInputError } from '../services/errors';
+import { MAX_REFERENCE_PHOTOS } from '../lib/promptTemplates';
+import { parseGenerateRequest, parseRefineRequest } from './generateRequest';
+
+const PHOTO = 'data:image/png;base64,iVBORw0KGgo=';
+
+describe('parseGenerateRequest', () => {
+    it('renders the prompt from the server\'s own template', () => {
+        const job = parseGenerateRequest({ image: PHOTO, era: { period: '1970s', region: 'Tokyo' }, templateId: 'classic' });
+        expect(job.era).toEqual({ id: '1970s Tokyo', period: '1970s', region: 'Tokyo' });
+        expect(job.prompt).toMatchObject({ templateId: 'classic', templateVersion: 1 });
+        expect(job.prompt.text).toContain('the 1970s in Tokyo');
+        expect(job).toMatchObject({ subject: { mode: 'single' }, referenceImages: [], strongerPrompt: false });
+    });
+
+    it('normalizes the era the way the era picker does', () => {
+        expect(parseGenerateRequest({ image: PHOTO, era: { period: ' Early  1980s' } }).era.id).toBe('early 1980s');
+        expect(parseGenerateRequest({ image: PHOTO, era: { period: '1965 - 1972' } }).era.id).toBe('1965-1972');
+    });
+
+    it('uses group wording for a group subject', () => {
+        const job = parseGenerateRequest({ image: PHOTO, era: { period: '1980s' }, subject: { mode: 'group', headCount: 4 } });
+        expect(job.prompt.text).toContain('4 people');
+        expect(job.prompt.groupRetryText).toBeDefined();
+    });
+
+    it.each([
+        ['a missing image', { era: { period: '1970s' } }],
+        ['an image that is not a data URL', { image: 'https://example.com/a.png', era: { period: '1970s' } }],
+        ['a missing era', { image: PHOTO }],
+        ['an era out of range', { image: PHOTO, era: { period: '1700s' } }],
+        ['a region that is too long', { image: PHOTO, era: { period: '1970s', region: 'x'.repeat(31) } }],
+        ['an unknown template version', { image: PHOTO, era: { period: '1970s' }, templateId: 'classic', templateVersion: 99 }],
+        ['an unknown subject mode', { image: PHOTO, era: { period: '1970s' }, subject: { mode: 'crowd' } }],
+        ['a head count out of range', { image: PHOTO, era: { period: '1970s' }, subject: { mode: 'group', headCount: 21 } }],
+        ['too many reference photos', { image: PHOTO, era: { period: '1970s' }, referenceImages: Array(MAX_REFERENCE_PHOTOS).fill(PHOTO) }],
+        ['a chained image that is not a data URL', { image: PHOTO, era: { period: '1970s' }, chainImage: 'photo.jpg' }],
+        ['a strongerPrompt that is not a boolean', { image: PHOTO, era: { period: '1970s' }, strongerPrompt: 'yes' }],
+        ['a body that is not an object', 'photo'],
+    ])('rejects %s', (_, body) => {
+        expect(() => parseGenerateRequest(body)).toThrow(InvalidInputError);
+    });
+});
+
+describe('parseRefineRequest', () => {
+    it('keeps the instruction, history and source photo', () => {
+        const job = parseRefineRequest({ image: PHOTO, era: { period: '1990s' }, instruction: 'add a hat', history: ['shorter hair'], sourceImage: PHOTO });
+        expect(job).toMatchObject({ instruction: 'add a hat', history: ['shorter hair'], sourceImage: PHOTO, subject: { mode: 'single' } });
+    });
+
+    it('rejects an empty instruction', () => {
+        expect(() => parseRefineRequest({ image: PHOTO, era: { period: '1990s' }, instruction: ' ' })).toThrow(InvalidInputError);
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createEra, parsePeriod, type Era } from '../lib/eras';
+import { DEFAULT_PROMPT_SELECTION, getPromptTemplate, MAX_REFERENCE_PHOTOS, MAX_REFINEMENT_HISTORY, MAX_REFINEMENT_LENGTH, renderPrompt, SINGLE_SUBJECT, type RenderedPrompt } from '../lib/promptTemplates';
+import { InvalidInputError } from '../services/errors';
+import type { GenerateApiRequest, RefineApiRequest } from '../services/generationApi';
+import type { PhotoSubject } from '../types';
+
+// Match the limits of the era picker and subject picker in the app.
+const MAX_REGION_LENGTH = 30;
+const MAX_HEAD_COUNT = 20;
+const MAX_GROUP_NAME_LENGTH = 40;
+const IMAGE_DATA_URL = /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+export interface GenerationJob {
+    image: string;
+    era: Era;
+    prompt: RenderedPrompt;
+    subject: PhotoSubject;
+    referenceImages: string[];
+    chainImage?: string;
+    strongerPrompt: boolean;
+}
+
+export interface RefinementJob {
+    image: string;
+    era: Era;
+    instruction: string;
+    history: string[];
+    sourceImage?: string;
+    subject: PhotoSubject;
+}
+
+function parseEra(value: unknown): Era {
+    const era = value as Partial<Era> | undefined;
+    if (typeof era?.period !== 'string') {
+        throw new InvalidInputError('The request needs an era with a period, e.g. { "period": "1970s" }.');
+    }
+    const parsed = parsePeriod(era.period);
+    if ('error' in parsed) {
+        throw new InvalidInputError(parsed.error);
+    }
+    if (era.region !== undefined && (typeof era.region !== 'string' || era.region.length > MAX_REGION_LENGTH)) {
+        throw new InvalidInputError(`An era's region must be text of at most ${MAX_REGION_LENGTH} characters.`);
+    }
+    return createEra(parsed.period, era.region);
+}
+
+function isImageDataUrl(value: unknown): value is string {
+    return typeof value === 'string' && IMAGE_DATA_URL.test(value);
+}
+
+function isInstruction(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_REFINEMENT_LENGTH;
+}
+
+function parseSubject(value: unknown): PhotoSubject {
+    if (value === undefined || value === null) return SINGLE_SUBJECT;
+    const subject = value as Partial<PhotoSubject>;
+    if (subject.mode !== 'single' && subject.mode !== 'group') {
+        throw new InvalidInputError('The subject mode must be "single" or "group".');
+    }
+    const { headCount, groupName } = subject;
+    if (headCount !== undefined && (!Number.isInteger(headCount) || headCount < 1 || headCount > MAX_HEAD_COUNT)) {
+        throw new InvalidInputError(`The head count must be a whole number from 1 to ${MAX_HEAD_COUNT}.`);
+    }
+    if (groupName !== undefined && (typeof groupName !== 'string' || groupName.length > MAX_GROUP_NAME_LENGTH)) {
+        throw new InvalidInputError(`The group name must be text of at most ${MAX_GROUP_NAME_LENGTH} characters.`);
+    }
+    return { mode: subject.mode, headCount, groupName };
+}
+
+/**
+ * Validates a `POST /api/generate` body and renders its prompt. Prompts are only
+ * ever built from the server's own templates.
+ * @param body The parsed JSON body.
+ * @returns The image, era and rendered prompt to generate with.
+ * @throws InvalidInputError if anything is missing or malformed.
+ */
+export function parseGenerateRequest(body: unknown): GenerationJob {
+    if (typeof body !== 'object' || body === null) {
+        throw new InvalidInputError('The request body must be a JSON object.');
+    }
+    const request = body as Partial<GenerateApiRequest>;
+    if (!isImageDataUrl(request.image)) {
+        throw new InvalidInputError('The image must be a base64 JPEG, PNG or WebP data URL.');
+    }
+
+    const templateId = request.templateId ?? DEFAULT_PROMPT_SELECTION.templateId;
+    if (typeof templateId !== 'string' || (request.templateVersion !== undefined && !Number.isInteger(request.templateVersion))) {
+        throw new InvalidInputError('The prompt template must be given as an id and an optional whole-number version.');
+    }
+    const template = getPromptTemplate(templateId, request.templateVersion);
+    if (!template) {
+        throw new InvalidInputError(`Unknown prompt template "${templateId}"${request.templateVersion ? ` version ${request.templateVersion}` : ''}.`);
+    }
+
+    const referenceImages = request.referenceImages ?? [];
+    if (!Array.isArray(referenceImages) || referenceImages.length > MAX_REFERENCE_PHOTOS - 1 || !referenceImages.every(isImageDataUrl)) {
+        throw new InvalidInputError(`Reference images must be a list of at most ${MAX_REFERENCE_PHOTOS - 1} image data URLs.`);
+    }
+    if (request.chainImage !== undefined && !isImageDataUrl(request.chainImage)) {
+        throw new InvalidInputError('The chained image must be a base64 JPEG, PNG or WebP data URL.');
+    }
+    if (request.strongerPrompt !== undefined && typeof request.strongerPrompt !== 'boolean') {
+        throw new InvalidInputError('strongerPrompt must be true or false.');
+    }
+
+    const era = parseEra(request.era);
+    const subject = parseSubject(request.subject);
+    return {
+        image: request.image,
+        era,
+        prompt: renderPrompt(template, era, subject),
+        subject,
+        referenceImages,
+        chainImage: request.chainImage,
+        strongerPrompt: request.strongerPrompt ?? false,
+    };
+}
+
+/**
+ * Validates a `POST /api/refine` body. The prompt around the instruction is
+ * rendered later, by refineDecadeImage.
+ * @param body The parsed JSON body.
+ * @returns The images, era and instructions to refine with.
+ * @throws InvalidInputError if anything is missing or malformed.
+ */
+export function parseRefineRequest(body: unknown): RefinementJob {
+    if (typeof body !== 'object' || body === null) {
+        throw new InvalidInputError('The request body must be a JSON object.');
+    }
+    const request = body as Partial<RefineApiRequest>;
+    if (!isImageDataUrl(request.image)) {
+        throw new InvalidInputError('The image must be a base64 JPEG, PNG or WebP data URL.');
+    }
+    if (request.sourceImage !== undefined && !isImageDataUrl(request.sourceImage)) {
+        throw new InvalidInputError('The source image must be a base64 JPEG, PNG or WebP data URL.');
+    }
+    if (!isInstruction(request.instruction)) {
+        throw new InvalidInputError(`The instruction must be text of 1 to ${MAX_REFINEMENT_LENGTH} characters.`);
+    }
+    const history = request.history ?? [];
+    if (!Array.isArray(history) || history.length > MAX_REFINEMENT_HISTORY || !history.every(isInstruction)) {
+        throw new InvalidInputError(`The history must be a list of at most ${MAX_REFINEMENT_HISTORY} earlier instructions.`);
+    }
+
+    const era = parseEra(request.era);
+    return {
+        image: request.image,
+        era,
+        instruction: request.instruction,
+        history,
+        sourceImage: request.sourceImage,
+        subject: parseSubject(request.subject),
+    };
+}
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import './env';
+import { createServer } from 'node:http';
+import { config } from '../services/config';
+import { setImageProvider } from '../services/providers';
+import { createRequestHandler } from './app';
+import { serverConfig } from './config';
+import { createRateLimiter } from './rateLimiter';
+import { createStandInProvider } from './standInProvider';
+
+// The server is the one place that talks to the model, so 'server' makes no sense here.
+if (config.provider === 'server') {
+    throw new Error("IMAGE_PROVIDER=server only applies to the browser. Use 'gemini' or 'local' for the server.");
+}
+// The browser's local provider draws on a canvas, which Node doesn't have.
+if (config.provider === 'local') {
+    setImageProvider(createStandInProvider(config.localProviderDelayMs));
+}
+
+const handler = createRequestHandler({
+    providerId: config.provider,
+    rateLimiter: createRateLimiter(serverConfig.rateLimit, serverConfig.rateLimitWindowMs),
+    maxRequestBytes: serverConfig.maxRequestBytes,
+    trustProxy: serverConfig.trustProxy,
+    staticDir: serverConfig.staticDir,
+});
+
+createServer(handler).listen(serverConfig.port, () => {
+    console.log(`Past Forward generation server listening on http://localhost:${serverConfig.port} (${config.provider} provider).`);
+});
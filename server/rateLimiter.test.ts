@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+describe('createRateLimiter', () => {
+    it('allows the limit within a window, then says how long to wait', () => {
+        const limiter = createRateLimiter(2, 60000);
+        expect(limiter.take('a', 1000)).toEqual({ allowed: true, retryAfterMs: 0, remaining: 1 });
+        expect(limiter.take('a', 2000)).toEqual({ allowed: true, retryAfterMs: 0, remaining: 0 });
+        expect(limiter.take('a', 3000)).toEqual({ allowed: false, retryAfterMs: 58000, remaining: 0 });
+    });
+
+    it('slides the window instead of resetting it all at once', () => {
+        const limiter = createRateLimiter(2, 60000);
+        limiter.take('a', 0);
+        limiter.take('a', 30000);
+        expect(limiter.take('a', 59999).allowed).toBe(false);
+        expect(limiter.take('a', 60000).allowed).toBe(true);
+        expect(limiter.take('a', 60001).allowed).toBe(false);
+        expect(limiter.take('a', 90000).allowed).toBe(true);
+    });
+
+    it('does not count refused requests against the client', () => {
+        const limiter = createRateLimiter(1, 1000);
+        limiter.take('a', 0);
+        for (let now = 100; now < 1000; now += 100) {
+            expect(limiter.take('a', now).allowed).toBe(false);
+        }
+        expect(limiter.take('a', 1000).allowed).toBe(true);
+    });
+
+    it('counts each client separately', () => {
+        const limiter = createRateLimiter(1, 1000);
+        expect(limiter.take('a', 0).allowed).toBe(true);
+        expect(limiter.take('b', 0).allowed).toBe(true);
+        expect(limiter.take('a', 500).allowed).toBe(false);
+    });
+});
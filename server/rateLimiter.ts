@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** How long until the client may try again; 0 when allowed. */
+    retryAfterMs: number;
+    remaining: number;
+}
+
+export interface RateLimiter {
+    /**
+     * Records a request from a client, unless it's over its limit.
+     * @param clientId Identifies the client, e.g. its IP address.
+     * @param now The current time, for tests.
+     */
+    take(clientId: string, now?: number): RateLimitResult;
+}
+
+/**
+ * Creates a sliding-window rate limiter that allows each client `limit`
+ * requests in any `windowMs` period.
+ * @param limit Requests allowed per window.
+ * @param windowMs The window length in milliseconds.
+ * @returns The rate limiter.
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+    const requests = new Map<string, number[]>();
+    let lastSweep = 0;
+
+    // Forget clients that haven't been seen for a whole window, so memory stays bounded.
+    const sweep = (now: number) => {
+        if (now - lastSweep < windowMs) return;
+        lastSweep = now;
+        requests.forEach((times, clientId) => {
+            if (times[times.length - 1] <= now - windowMs) requests.delete(clientId);
+        });
+    };
+
+    return {
+        take(clientId, now = Date.now()) {
+            sweep(now);
+            const recent = (requests.get(clientId) ?? []).filter(time => time > now - windowMs);
+            if (recent.length >= limit) {
+                requests.set(clientId, recent);
+                return { allowed: false, retryAfterMs: recent[0] + windowMs - now, remaining: 0 };
+            }
+            recent.push(now);
+            requests.set(clientId, recent);
+            return { allowed: true, retryAfterMs: 0, remaining: limit - recent.length };
+        },
+    };
+}
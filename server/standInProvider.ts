@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { delay } from '../lib/utils';
+import type { ImageProvider } from '../services/providers';
+
+/** The model name the stand-in reports. */
+export const STAND_IN_MODEL = 'local-stand-in';
+
+/**
+ * Creates a stand-in for the upstream model that runs in Node: it returns the
+ * source photo unchanged. The browser's local provider needs a canvas, so the
+ * server uses this one when `IMAGE_PROVIDER=local` and in tests. Like the
+ * local provider, it opts out of the client's result checks.
+ * @param delayMs Artificial latency, so clients see realistic timings.
+ * @returns An ImageProvider that never touches the network.
+ */
+export function createStandInProvider(delayMs = 0): ImageProvider {
+    return {
+        id: 'local',
+        model: STAND_IN_MODEL,
+        skipResultValidation: true,
+        async generate({ image }, signal) {
+            await delay(delayMs, signal);
+            return { image };
+        },
+    };
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 'server' sends each generation to the generation server (see server/), which
+ * holds the API key. It's what the browser uses unless it's running offline.
+ */
+export type ProviderId = 'gemini' | 'local' | 'server';
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'local', 'server'];
+
+/**
+ * Picks the image provider from the IMAGE_PROVIDER environment variable.
+ * In the browser bundle vite.config.ts always sets it, to 'local' when that
+ * was asked for and to 'server' otherwise, so the browser never calls Gemini
+ * itself. The generation server and the batch CLI read it at runtime: when it
+ * isn't set they use Gemini if a key is available, and the offline local
+ * provider otherwise, so they always start.
+ */
+function resolveProvider(requested: string | undefined, hasApiKey: boolean): ProviderId {
+    if (requested) {
+        if ((PROVIDER_IDS as string[]).includes(requested)) {
+            return requested as ProviderId;
+        }
+        console.warn(`Unknown IMAGE_PROVIDER "${requested}". Expected one of: ${PROVIDER_IDS.join(', ')}.`);
+    }
+    if (!hasApiKey) {
+        console.warn("API_KEY is not set. Falling back to the offline local image provider.");
+        return 'local';
+    }
+    return 'gemini';
+}
+
+const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY || undefined;
+
+export const config = {
+    provider: resolveProvider(process.env.IMAGE_PROVIDER || undefined, Boolean(apiKey)),
+    apiKey,
+    geminiModel: 'gemini-2.5-flash-image',
+    /** Used to check results, such as counting the people in a group photo. */
+    geminiVisionModel: 'gemini-2.5-flash',
+    localProviderDelayMs: Number(process.env.LOCAL_PROVIDER_DELAY_MS || 800),
+    /** Where the 'server' provider sends generations. */
+    generationEndpoint: process.env.GENERATION_ENDPOINT || '/api/generate',
+    /** Cached generation results are evicted, least recently used first, beyond this size. */
+    generationCacheMaxBytes: 200 * 1024 * 1024,
+    /** How many generations may run at once across the whole app. */
+    generationConcurrency: 2,
+    /** Uploads are scaled down so their longest side is at most this many pixels. */
+    maxUploadDimension: Number(process.env.MAX_UPLOAD_DIMENSION || 1536),
+    /** Uploads with a shorter side below this are rejected; the model can't do much with them. */
+    minUploadDimension: 256,
+    /**
+     * Checks applied to each generated image (see lib/imageValidation.ts). A
+     * result that fails is generated once more with stronger wording, then
+     * marked low confidence. Distances are in bits of a 64-bit perceptual hash.
+     */
+    resultValidation: {
+        minDimension: 256,
+        maxSourceDistance: 5,
+        maxDuplicateDistance: 3,
+        minContrast: 6,
+    },
+};
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerationErrorKind, GenerationFailure } from '../types';
+
+// How long to suggest waiting after a quota error that didn't say.
+const DEFAULT_QUOTA_WAIT_MS = 60000;
+
+/**
+ * Base class for every error a generation can end with. Each subclass carries
+ * a user-facing title and next step, and whether trying again could help.
+ */
+export abstract class GenerationError extends Error {
+    abstract readonly kind: GenerationErrorKind;
+    abstract readonly title: string;
+    abstract readonly retryable: boolean;
+
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+
+    /** What the user should do next. */
+    abstract get suggestion(): string;
+
+    /**
+     * Converts the error to a plain object that can be kept in state and IndexedDB.
+     * @returns The serializable failure.
+     */
+    toFailure(): GenerationFailure {
+        return {
+            kind: this.kind,
+            title: this.title,
+            message: this.message,
+            suggestion: this.suggestion,
+            retryable: this.retryable,
+        };
+    }
+}
+
+export class SafetyBlockedError extends GenerationError {
+    readonly kind = 'safety-blocked';
+    readonly title = 'Blocked by safety filters';
+    readonly retryable = false;
+
+    constructor(readonly reason?: string) {
+        super(`The model declined to create this image${reason ? ` (${reason})` : ''}.`);
+    }
+
+    get suggestion() {
+        return 'Try a different photo, era or prompt template.';
+    }
+}
+
+export class QuotaExceededError extends GenerationError {
+    readonly kind = 'quota-exceeded';
+    readonly title = 'Usage limit reached';
+    readonly retryable = true;
+
+    /**
+     * @param retryAfterMs The delay the API asked for, if it gave one.
+     * @param options The original error, as the cause.
+     */
+    constructor(readonly retryAfterMs?: number, options?: { cause?: unknown }) {
+        super('The image model is rate limiting us or the quota has run out.', options);
+    }
+
+    get suggestion() {
+        return `Wait ${Math.ceil((this.retryAfterMs ?? DEFAULT_QUOTA_WAIT_MS) / 1000)}s, then try again.`;
+    }
+
+    toFailure(): GenerationFailure {
+        return { ...super.toFailure(), retryAfterMs: this.retryAfterMs ?? DEFAULT_QUOTA_WAIT_MS };
+    }
+}
+
+export class InvalidInputError extends GenerationError {
+    readonly kind = 'invalid-input';
+    readonly title = "Photo couldn't be used";
+    readonly retryable = false;
+
+    get suggestion() {
+        return 'Try a different photo (JPEG, PNG or WebP).';
+    }
+}
+
+export class NetworkUnavailableError extends GenerationError {
+    readonly kind = 'network-unavailable';
+    readonly title = 'No connection';
+    readonly retryable = true;
+
+    constructor(options?: { cause?: unknown }) {
+        super("Couldn't reach the image service.", options);
+    }
+
+    get suggestion() {
+        return 'Check your internet connection, then try again.';
+    }
+}
+
+export class ModelTextOnlyError extends GenerationError {
+    readonly kind = 'model-text-only';
+    readonly title = 'No image returned';
+    readonly retryable = true;
+
+    constructor(readonly modelText?: string) {
+        super(`The model replied with text instead of an image: "${modelText || 'No text response received.'}"`);
+    }
+
+    get suggestion() {
+        return 'Try again. Results vary from one attempt to the next.';
+    }
+}
+
+export class UnknownGenerationError extends GenerationError {
+    readonly kind = 'unknown';
+    readonly title = 'Something went wrong';
+
+    /**
+     * @param message Details of the failure.
+     * @param retryable Whether it looked transient, e.g. an internal server error.
+     */
+    constructor(message: string, readonly retryable = true, options?: { cause?: unknown }) {
+        super(message, options);
+    }
+
+    get suggestion() {
+        return this.retryable ? 'Try again in a moment.' : 'Try a different photo or era.';
+    }
+}
+
+/**
+ * Reads the retry delay the API suggests in a rate-limit error, e.g. `"retryDelay": "34s"`.
+ * @param errorMessage The error message, which usually embeds the JSON error body.
+ * @returns The delay in milliseconds, or undefined if none was given.
+ */
+function parseRetryDelay(errorMessage: string): number | undefined {
+    const match = errorMessage.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? errorMessage.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Maps anything a provider or the network can throw onto the error taxonomy.
+ * GenerationErrors pass through unchanged.
+ * @param error The caught error.
+ * @returns The typed generation error.
+ */
+export function toGenerationError(error: unknown): GenerationError {
+    if (error instanceof GenerationError) return error;
+
+    const message = error instanceof Error ? error.message : JSON.stringify(error);
+
+    if (/"code":\s*429|RESOURCE_EXHAUSTED|\b429\b/.test(message)) {
+        return new QuotaExceededError(parseRetryDelay(message), { cause: error });
+    }
+    if (/"code":\s*400|INVALID_ARGUMENT|unsupported (mime|image)|invalid image/i.test(message)) {
+        return new InvalidInputError(message, { cause: error });
+    }
+    if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST/.test(message)) {
+        return new SafetyBlockedError();
+    }
+    // fetch() rejects with a TypeError when the network is down or the connection drops.
+    if (error instanceof TypeError || /failed to fetch|fetch failed|network ?error|ECONNRESET|ETIMEDOUT|EAI_AGAIN/i.test(message)) {
+        return new NetworkUnavailableError({ cause: error });
+    }
+    const isServerError = /"code":\s*50[03]|INTERNAL|UNAVAILABLE/.test(message);
+    return new UnknownGenerationError(message, isServerError, { cause: error });
+}
+
+/**
+ * Rebuilds a typed error from a serialized failure, e.g. one returned by the
+ * generation server, so callers can handle it like a local one.
+ * @param failure The serialized failure.
+ * @returns The typed generation error.
+ */
+export function fromFailure(failure: GenerationFailure): GenerationError {
+    switch (failure.kind) {
+        case 'safety-blocked':
+            return new SafetyBlockedError();
+        case 'quota-exceeded':
+            return new QuotaExceededError(failure.retryAfterMs);
+        case 'invalid-input':
+            return new InvalidInputError(failure.message);
+        case 'network-unavailable':
+            return new NetworkUnavailableError();
+        case 'model-text-only':
+            return new ModelTextOnlyError();
+        case 'unknown':
+        default:
+            return new UnknownGenerationError(failure.message, failure.retryable);
+    }
+}
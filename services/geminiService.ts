@@ -2,144 +2,429 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI } from "@google/genai";
-import type { GenerateContentResponse } from "@google/genai";
+import { config } from "./config";
+import { getImageProvider } from "./providers";
+import type { ImageGenerationRequest, ImageGenerationResponse, InlineImage } from "./providers";
+import type { Era } from "../lib/eras";
+import { MAX_REFINEMENT_HISTORY, renderRefinementPrompt, withReferenceNote, withStrongerWording, type RenderedPrompt } from "../lib/promptTemplates";
+import { delay, isAbortError } from "../lib/utils";
+import { backoffWithJitter, generationScheduler, type JobPriority } from "./generationScheduler";
+import { CLIENT_RATE_LIMIT_HEADER, type GenerateApiError, type GenerateApiRequest, type GenerateApiResponse, type HealthApiResponse, type RefineApiRequest, type RefineApiResponse } from "./generationApi";
+import type { PhotoSubject } from "../types";
+import {
+    fromFailure,
+    GenerationError,
+    InvalidInputError,
+    ModelTextOnlyError,
+    NetworkUnavailableError,
+    QuotaExceededError,
+    SafetyBlockedError,
+    UnknownGenerationError,
+    toGenerationError,
+} from "./errors";
 
-const API_KEY = process.env.API_KEY;
+export interface GenerateOptions {
+    /** Aborts the request, including any retry back-off that is in progress. */
+    signal?: AbortSignal;
+    /** User-triggered work should use 'high' so it jumps the generation queue. */
+    priority?: JobPriority;
+    /** Who is in the photo, for the wording added around the rendered prompt. */
+    subject?: PhotoSubject;
+    /** More photos of the same person, sent after the main one to keep the likeness. */
+    referenceImages?: string[];
+    /** The person's accepted result from a neighbouring era, so the face stays consistent across eras. */
+    chainImage?: string;
+    /** Adds insistent wording, for a second try after a result failed validation. */
+    strongerPrompt?: boolean;
+}
+
+export interface RefineOptions {
+    /** Aborts the request, including any retry back-off that is in progress. */
+    signal?: AbortSignal;
+    /** Earlier instructions for this image, oldest first, so the model keeps them. */
+    history?: string[];
+    /** The original photo, sent along so the face stays recognizable. */
+    sourceImage?: string;
+    /** Who is in the photo, so group edits keep everyone. */
+    subject?: PhotoSubject;
+}
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+interface RetryDecision {
+    retry: boolean;
+    delayMs: number;
+    /** The model asked us to slow down, so the whole queue should wait. */
+    rateLimited: boolean;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const MAX_ATTEMPTS = 4;
 
 
 // --- Helper Functions ---
 
 /**
- * Creates a fallback prompt to use when the primary one is blocked.
- * @param decade The decade string (e.g., "1950s").
- * @returns The fallback prompt string.
+ * Processes the provider response, extracting the image or throwing an error if none is found.
+ * @param response The response from the active image provider.
+ * @returns A data URL string for the generated image.
  */
-function getFallbackPrompt(decade: string): string {
-    return `Create a photograph of the person in this image as if they were living in the ${decade}. The photograph should capture the distinct fashion, hairstyles, and overall atmosphere of that time period. Ensure the final image is a clear photograph that looks authentic to the era.`;
+function processGeminiResponse(response: ImageGenerationResponse): string {
+    if (response.image) {
+        const { mimeType, data } = response.image;
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    if (response.blockReason) {
+        console.error("API blocked the request. Reason:", response.blockReason);
+        throw new SafetyBlockedError(response.blockReason);
+    }
+    const textResponse = response.text;
+    console.error("API did not return an image. Response:", textResponse);
+    throw new ModelTextOnlyError(textResponse);
 }
 
 /**
- * Extracts the decade (e.g., "1950s") from a prompt string.
- * @param prompt The original prompt.
- * @returns The decade string or null if not found.
+ * Decides whether a failed call is worth retrying, and after how long.
+ * @param error The classified error.
+ * @param attempt The attempt that just failed, starting at 1.
+ * @returns The retry decision.
  */
-function extractDecade(prompt: string): string | null {
-    const match = prompt.match(/(\d{4}s)/);
-    return match ? match[1] : null;
+function getRetryDecision(error: GenerationError, attempt: number): RetryDecision {
+    if (error instanceof QuotaExceededError) {
+        const delayMs = error.retryAfterMs ?? backoffWithJitter(attempt, 5000, 60000);
+        return { retry: true, delayMs, rateLimited: true };
+    }
+    if (error instanceof NetworkUnavailableError) {
+        return { retry: true, delayMs: backoffWithJitter(attempt, 2000), rateLimited: false };
+    }
+    if (error instanceof UnknownGenerationError && error.retryable) {
+        return { retry: true, delayMs: backoffWithJitter(attempt, 1000), rateLimited: false };
+    }
+    return { retry: false, delayMs: 0, rateLimited: false };
 }
 
 /**
- * Processes the Gemini API response, extracting the image or throwing an error if none is found.
- * @param response The response from the generateContent call.
- * @returns A data URL string for the generated image.
+ * A wrapper for the image provider call that retries rate limits (honoring the
+ * suggested delay), internal server errors and network failures.
+ * @param request The image and prompt to send to the active provider.
+ * @param signal Aborts the call and any pending retry.
+ * @returns The provider's response.
  */
-function processGeminiResponse(response: GenerateContentResponse): string {
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+async function callGeminiWithRetry(request: ImageGenerationRequest, signal?: AbortSignal): Promise<ImageGenerationResponse> {
+    const provider = getImageProvider();
 
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        return `data:${mimeType};base64,${data}`;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        signal?.throwIfAborted();
+        try {
+            return await provider.generate(request, signal);
+        } catch (error) {
+            if (signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            console.error(`Error calling ${provider.id} provider (Attempt ${attempt}/${MAX_ATTEMPTS}):`, error);
+            const generationError = toGenerationError(error);
+            const decision = getRetryDecision(generationError, attempt);
+
+            if (decision.retry && attempt < MAX_ATTEMPTS) {
+                if (decision.rateLimited) {
+                    // Don't let queued jobs start (and get rate limited too) while we wait.
+                    generationScheduler.pauseFor(decision.delayMs);
+                }
+                console.log(`Retryable error detected. Retrying in ${decision.delayMs}ms...`);
+                await delay(decision.delayMs, signal);
+                continue;
+            }
+            throw generationError; // Re-throw if not a retriable error or if max retries are reached.
+        }
     }
+    // This should be unreachable due to the loop and throw logic above.
+    throw new UnknownGenerationError("Image provider call failed after all retries.");
+}
 
-    const textResponse = response.text;
-    console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+
+/**
+ * Splits an image data URL into the inline payload providers expect.
+ * @param imageDataUrl A data URL string (e.g., 'data:image/png;base64,...').
+ * @returns The mime type and base64 data.
+ */
+function parseImageDataUrl(imageDataUrl: string): InlineImage {
+  const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
+  if (!match) {
+    throw new InvalidInputError("Invalid image data URL format. Expected 'data:image/...;base64,...'");
+  }
+  const [, mimeType, base64Data] = match;
+  return { mimeType, data: base64Data };
+}
+
+/**
+ * For group photos, checks that the result still shows more than one person and
+ * re-prompts once with stronger wording if it doesn't. The check is best-effort:
+ * if it can't be made, or the re-prompt fails, the first result is kept.
+ * @param resultUrl The generated image.
+ * @param request The source image and any references, as first sent.
+ * @param prompt The rendered prompt; only group prompts carry retry wording.
+ * @param era The era being generated.
+ * @param signal Aborts the check and the re-prompt.
+ * @returns The image to use.
+ */
+async function ensureGroupResult(resultUrl: string, request: Omit<ImageGenerationRequest, 'prompt'>, prompt: RenderedPrompt, era: Era, signal?: AbortSignal): Promise<string> {
+    const provider = getImageProvider();
+    if (!prompt.groupRetryText || !provider.countPeople) return resultUrl;
+
+    try {
+        const count = await provider.countPeople(parseImageDataUrl(resultUrl), signal);
+        if (count === undefined || count > 1) return resultUrl;
+
+        console.warn(`Group result for ${era.id} shows ${count} people. Re-prompting once with stronger wording...`);
+        const response = await callGeminiWithRetry({ ...request, prompt: prompt.groupRetryText }, signal);
+        return processGeminiResponse(response);
+    } catch (error) {
+        if (signal?.aborted || isAbortError(error)) {
+            throw error;
+        }
+        console.warn(`Group check for ${era.id} failed; keeping the first result.`, error);
+        return resultUrl;
+    }
 }
 
+// The generation server reports its model, and whether to check its results, with each result.
+let serverModel: string | undefined;
+let serverSkipsValidation = false;
+
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors.
- * @param imagePart The image part of the request payload.
- * @param textPart The text part of the request payload.
- * @returns The GenerateContentResponse from the API.
+ * The URL of another generation server route. The configured endpoint is the
+ * generate route, and the others sit next to it.
+ * @param name The route's last path segment, e.g. "health".
+ * @returns The URL.
  */
-async function callGeminiWithRetry(imagePart: object, textPart: object): Promise<GenerateContentResponse> {
-    const maxRetries = 3;
-    const initialDelay = 1000;
+function serverRoute(name: string): string {
+    return config.generationEndpoint.replace(/\/generate$/, `/${name}`);
+}
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+/**
+ * Sends one job to the generation server and waits for the resulting image. The
+ * server does its own retries and fallbacks, so only failures to reach it, or
+ * its rate limit, are retried here.
+ * @param url The route to post to.
+ * @param body The request body.
+ * @param signal Aborts the request and any pending retry.
+ * @returns The image as a data URL.
+ */
+async function postToServer(url: string, body: GenerateApiRequest | RefineApiRequest, signal?: AbortSignal): Promise<string> {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        signal?.throwIfAborted();
+        let generationError: GenerationError;
+        let canRetry = true;
         try {
-            return await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [imagePart, textPart] },
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+                signal,
             });
+            if (response.ok) {
+                const result = await response.json() as GenerateApiResponse | RefineApiResponse;
+                serverModel = result.model;
+                serverSkipsValidation = result.skipResultValidation === true;
+                return result.image;
+            }
+            const payload = await response.json().catch(() => null) as GenerateApiError | null;
+            generationError = payload?.error
+                ? fromFailure(payload.error)
+                : toGenerationError(new Error(`Generation server responded with ${response.status}`));
+            // Anything but the server's own rate limit has already been retried by the server.
+            canRetry = response.headers.has(CLIENT_RATE_LIMIT_HEADER);
         } catch (error) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-            const isInternalError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL');
-
-            if (isInternalError && attempt < maxRetries) {
-                const delay = initialDelay * Math.pow(2, attempt - 1);
-                console.log(`Internal error detected. Retrying in ${delay}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                continue;
+            if (signal?.aborted || isAbortError(error)) {
+                throw error;
             }
-            throw error; // Re-throw if not a retriable error or if max retries are reached.
+            generationError = toGenerationError(error);
+        }
+
+        console.error(`Generation server call failed (Attempt ${attempt}/${MAX_ATTEMPTS}):`, generationError);
+        const decision = getRetryDecision(generationError, attempt);
+        if (!canRetry || !decision.retry || attempt === MAX_ATTEMPTS) {
+            throw generationError;
+        }
+        if (decision.rateLimited) {
+            generationScheduler.pauseFor(decision.delayMs);
         }
+        console.log(`Retryable error detected. Retrying in ${decision.delayMs}ms...`);
+        await delay(decision.delayMs, signal);
     }
-    // This should be unreachable due to the loop and throw logic above.
-    throw new Error("Gemini API call failed after all retries.");
+    throw new UnknownGenerationError("Generation server call failed after all retries.");
+}
+
+/**
+ * Sends one generation to the generation server.
+ * @param imageDataUrl The source image.
+ * @param prompt The rendered prompt; only its template is sent.
+ * @param era The era to generate.
+ * @param options Who is in the photo, and any extra reference images.
+ * @param signal Aborts the request and any pending retry.
+ * @returns The generated image as a data URL.
+ */
+function requestServerGeneration(imageDataUrl: string, prompt: RenderedPrompt, era: Era, options: GenerateOptions, signal?: AbortSignal): Promise<string> {
+    const body: GenerateApiRequest = {
+        image: imageDataUrl,
+        era,
+        templateId: prompt.templateId,
+        templateVersion: prompt.templateVersion,
+        subject: options.subject,
+        referenceImages: options.referenceImages,
+        chainImage: options.chainImage,
+        strongerPrompt: options.strongerPrompt,
+    };
+    return postToServer(config.generationEndpoint, body, signal);
+}
+
+/**
+ * The image model new generations will use, for recording alongside each result.
+ * @returns The active provider's model name, or the one the generation server last reported.
+ */
+export function getActiveModel(): string {
+    if (config.provider === 'server') {
+        return serverModel ?? 'server';
+    }
+    return getImageProvider().model;
+}
+
+/**
+ * Whether results from the active provider should go through the client's
+ * result checks. Providers can opt out, like the offline stand-ins.
+ * @returns False if the active provider, or the generation server's, opts out.
+ */
+export function shouldValidateResults(): boolean {
+    if (config.provider === 'server') {
+        return !serverSkipsValidation;
+    }
+    return !getImageProvider().skipResultValidation;
 }
 
+/**
+ * Like getActiveModel, but asks the generation server for its model if no
+ * generation has reported it yet, e.g. straight after a page load.
+ * @param signal Aborts the request.
+ * @returns The model name.
+ */
+export async function resolveActiveModel(signal?: AbortSignal): Promise<string> {
+    if (config.provider === 'server' && !serverModel) {
+        try {
+            const response = await fetch(serverRoute('health'), { signal });
+            if (response.ok) {
+                const health = await response.json() as HealthApiResponse;
+                serverModel = health.model;
+                serverSkipsValidation = health.skipResultValidation === true;
+            }
+        } catch (error) {
+            if (signal?.aborted || isAbortError(error)) {
+                throw error;
+            }
+            console.warn("Could not ask the generation server for its model:", error);
+        }
+    }
+    return getActiveModel();
+}
 
 /**
- * Generates a decade-styled image from a source image and a prompt.
- * It includes a fallback mechanism for prompts that might be blocked in certain regions.
+ * Generates an era-styled image from a source image and a prompt.
+ * Every call is queued on the shared generation scheduler, which limits how many
+ * run at once. It includes a fallback mechanism for prompts that might be blocked in certain regions,
+ * and re-prompts once when a group photo comes back as a single-person portrait.
+ * Extra photos of the person, and a neighbouring era's result in chain mode, are
+ * sent as further image parts on every call.
+ * With the 'server' provider all of that happens on the generation server instead.
  * @param imageDataUrl A data URL string of the source image (e.g., 'data:image/png;base64,...').
- * @param prompt The prompt to guide the image generation.
+ * @param prompt The rendered prompt template, including the fallback wording.
+ * @param era The era the prompt targets.
+ * @param options Optional settings, such as an AbortSignal to cancel the generation.
  * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
+ *     It rejects with a GenerationError subclass, or an AbortError if the generation was cancelled.
  */
-export async function generateDecadeImage(imageDataUrl: string, prompt: string): Promise<string> {
-  const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-  if (!match) {
-    throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
-  }
-  const [, mimeType, base64Data] = match;
+export function generateDecadeImage(imageDataUrl: string, prompt: RenderedPrompt, era: Era, options: GenerateOptions = {}): Promise<string> {
+    return generationScheduler.schedule(
+        signal => config.provider === 'server'
+            ? requestServerGeneration(imageDataUrl, prompt, era, options, signal)
+            : runDecadeGeneration(imageDataUrl, prompt, era, options, signal),
+        { priority: options.priority, signal: options.signal, label: era.id }
+    );
+}
 
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
+async function runDecadeGeneration(imageDataUrl: string, basePrompt: RenderedPrompt, era: Era, options: GenerateOptions, signal?: AbortSignal): Promise<string> {
+    const { referenceImages = [], chainImage, strongerPrompt, subject } = options;
+    const request = {
+        image: parseImageDataUrl(imageDataUrl),
+        // The chained result goes last, as the prompt note says.
+        referenceImages: [...referenceImages, ...(chainImage ? [chainImage] : [])].map(parseImageDataUrl),
+        era: era.id,
     };
+    const notedPrompt = withReferenceNote(basePrompt, referenceImages.length, Boolean(chainImage), subject);
+    const prompt = strongerPrompt ? withStrongerWording(notedPrompt, era, subject) : notedPrompt;
 
     // --- First attempt with the original prompt ---
     try {
         console.log("Attempting generation with original prompt...");
-        const textPart = { text: prompt };
-        const response = await callGeminiWithRetry(imagePart, textPart);
-        return processGeminiResponse(response);
+        const response = await callGeminiWithRetry({ ...request, prompt: prompt.text }, signal);
+        return await ensureGroupResult(processGeminiResponse(response), request, prompt, era, signal);
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-        const isNoImageError = errorMessage.includes("The AI model responded with text instead of an image");
-
-        if (isNoImageError) {
-            console.warn("Original prompt was likely blocked. Trying a fallback prompt.");
-            const decade = extractDecade(prompt);
-            if (!decade) {
-                console.error("Could not extract decade from prompt, cannot use fallback.");
-                throw error; // Re-throw the original "no image" error.
-            }
+        // Cancellation isn't a failure; let the caller see the AbortError as-is.
+        if (signal?.aborted || isAbortError(error)) {
+            throw error;
+        }
+        const generationError = toGenerationError(error);
+        const isNoImageError = generationError instanceof ModelTextOnlyError || generationError instanceof SafetyBlockedError;
 
-            // --- Second attempt with the fallback prompt ---
-            try {
-                const fallbackPrompt = getFallbackPrompt(decade);
-                console.log(`Attempting generation with fallback prompt for ${decade}...`);
-                const fallbackTextPart = { text: fallbackPrompt };
-                const fallbackResponse = await callGeminiWithRetry(imagePart, fallbackTextPart);
-                return processGeminiResponse(fallbackResponse);
-            } catch (fallbackError) {
-                console.error("Fallback prompt also failed.", fallbackError);
-                const finalErrorMessage = fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
-                throw new Error(`The AI model failed with both original and fallback prompts. Last error: ${finalErrorMessage}`);
-            }
-        } else {
+        if (!isNoImageError) {
             // This is for other errors, like a final internal server error after retries.
-            console.error("An unrecoverable error occurred during image generation.", error);
-            throw new Error(`The AI model failed to generate an image. Details: ${errorMessage}`);
+            console.error("An unrecoverable error occurred during image generation.", generationError);
+            throw generationError;
+        }
+        console.warn("Original prompt was likely blocked. Trying a fallback prompt.");
+
+        // --- Second attempt with the fallback prompt ---
+        try {
+            console.log(`Attempting generation with fallback prompt for ${era.id}...`);
+            const fallbackResponse = await callGeminiWithRetry({ ...request, prompt: prompt.fallbackText }, signal);
+            return await ensureGroupResult(processGeminiResponse(fallbackResponse), request, prompt, era, signal);
+        } catch (fallbackError) {
+            if (signal?.aborted || isAbortError(fallbackError)) {
+                throw fallbackError;
+            }
+            console.error("Fallback prompt also failed.", fallbackError);
+            throw toGenerationError(fallbackError);
         }
     }
 }
+
+/**
+ * Edits a generated era image with a follow-up instruction, e.g. "make the hair
+ * shorter". The current image goes back to the model with the instruction, any
+ * earlier instructions and, optionally, the original photo. Refinements are
+ * user-triggered, so they jump the generation queue.
+ * @param imageDataUrl The image to edit.
+ * @param instruction What to change.
+ * @param era The era the image shows.
+ * @param options Earlier instructions, the source photo and an AbortSignal.
+ * @returns A promise that resolves to the edited image as a data URL. It rejects
+ *     like generateDecadeImage.
+ */
+export function refineDecadeImage(imageDataUrl: string, instruction: string, era: Era, options: RefineOptions = {}): Promise<string> {
+    const { sourceImage, subject, signal } = options;
+    const history = (options.history ?? []).slice(-MAX_REFINEMENT_HISTORY);
+    return generationScheduler.schedule(
+        async jobSignal => {
+            if (config.provider === 'server') {
+                const body: RefineApiRequest = { image: imageDataUrl, era, instruction, history, sourceImage, subject };
+                return postToServer(serverRoute('refine'), body, jobSignal);
+            }
+            const prompt = renderRefinementPrompt(era, instruction, history, Boolean(sourceImage), subject);
+            console.log(`Refining ${era.id}: "${instruction}"`);
+            const response = await callGeminiWithRetry({
+                image: parseImageDataUrl(imageDataUrl),
+                referenceImages: sourceImage ? [parseImageDataUrl(sourceImage)] : undefined,
+                prompt,
+                era: era.id,
+            }, jobSignal);
+            return processGeminiResponse(response);
+        },
+        { priority: 'high', signal, label: `${era.id} refinement` }
+    );
+}
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Era } from "../lib/eras";
+import type { GenerationFailure, PhotoSubject } from "../types";
+
+export const GENERATE_ROUTE = '/api/generate';
+export const REFINE_ROUTE = '/api/refine';
+export const HEALTH_ROUTE = '/api/health';
+
+/**
+ * The body of `POST /api/generate`. The server renders the prompt itself from
+ * the template, era and subject, so clients can't send arbitrary prompts.
+ */
+export interface GenerateApiRequest {
+    /** The source photo as a data URL. */
+    image: string;
+    era: Era;
+    templateId: string;
+    /** Omit to use the newest version of the template. */
+    templateVersion?: number;
+    subject?: PhotoSubject;
+    /** More photos of the same person, as data URLs. */
+    referenceImages?: string[];
+    /** The person's result from a neighbouring era, as a data URL. */
+    chainImage?: string;
+    /** Adds insistent wording, for a second try after a result failed the client's checks. */
+    strongerPrompt?: boolean;
+}
+
+export interface GenerateApiResponse {
+    /** The generated image as a data URL. */
+    image: string;
+    model: string;
+    /** The server's provider opts out of result checks, so clients should skip theirs. */
+    skipResultValidation: boolean;
+    templateId: string;
+    templateVersion: number;
+}
+
+/**
+ * The body of `POST /api/refine`: a follow-up edit of a generated image. Like
+ * generation, the server writes the prompt around the user's instruction.
+ */
+export interface RefineApiRequest {
+    /** The image to edit, as a data URL. */
+    image: string;
+    era: Era;
+    instruction: string;
+    /** Earlier instructions for this image, oldest first. */
+    history?: string[];
+    /** The original photo, sent along so the face stays recognizable. */
+    sourceImage?: string;
+    subject?: PhotoSubject;
+}
+
+export interface RefineApiResponse {
+    /** The edited image as a data URL. */
+    image: string;
+    model: string;
+    skipResultValidation: boolean;
+}
+
+/**
+ * Sent with a 429 from the server's own per-client rate limit. A 429 without it
+ * is the upstream model's quota, which the server has already retried.
+ */
+export const CLIENT_RATE_LIMIT_HEADER = 'X-Client-Rate-Limit';
+
+/** Returned with any non-2xx status. */
+export interface GenerateApiError {
+    error: GenerationFailure;
+}
+
+export interface HealthApiResponse {
+    status: 'ok';
+    provider: string;
+    model: string;
+    skipResultValidation: boolean;
+    uptimeSeconds: number;
+}
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { dataUrlToBytes } from '../lib/albumUtils';
+import type { Era } from '../lib/eras';
+import type { RenderedPrompt } from '../lib/promptTemplates';
+import { config } from './config';
+import { generateDecadeImage, getActiveModel, resolveActiveModel, type GenerateOptions } from './geminiService';
+
+// Kept apart from the sessions database so it can be cleared or versioned on its own.
+const DB_NAME = 'past-forward-cache';
+const DB_VERSION = 1;
+const RESULTS_STORE = 'results';
+const LAST_USED_INDEX = 'lastUsedAt';
+
+interface CacheEntry {
+    key: string;
+    image: string;
+    model: string;
+    /** Roughly how much storage the entry takes, in bytes. */
+    size: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface CachedGenerateOptions extends GenerateOptions {
+    /** Always generate, e.g. when the user asks for a new version. The result still refreshes the cache. */
+    bypassCache?: boolean;
+    /**
+     * Which candidate this is when several are generated for an era. Each slot
+     * is cached separately, so three candidates don't all return the same image.
+     */
+    slot?: number;
+    /** Leave a new result out of the cache until commitToCache is called, e.g. once it has passed validation. */
+    deferCacheWrite?: boolean;
+}
+
+export interface CachedGenerationResult {
+    url: string;
+    model: string;
+    /** True when the image came from the cache and no generation was paid for. */
+    cached: boolean;
+    /** Where the result is, or would be, cached. Missing when the cache couldn't be used. */
+    cacheKey?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(RESULTS_STORE, { keyPath: 'key' });
+                store.createIndex(LAST_USED_INDEX, 'lastUsedAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to try again if opening failed.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+    });
+}
+
+/**
+ * Builds the cache key: a SHA-256 hash of the source image's bytes, any
+ * reference images' bytes, the final prompt text, whether the stronger wording
+ * was added, the model and the candidate slot. The source image is already normalized (straightened, scaled and
+ * re-encoded) by the upload step, so uploading the same photo again gives the same key.
+ * @param imageDataUrl The source image.
+ * @param promptText The main prompt text.
+ * @param model The model id.
+ * @param slot The candidate slot.
+ * @param referenceImages Extra images sent with the source, in order.
+ * @param strongerPrompt Whether the stronger retry wording was added to the prompt.
+ * @returns The key as a hex string.
+ */
+export async function createCacheKey(imageDataUrl: string, promptText: string, model: string, slot = 0, referenceImages: string[] = [], strongerPrompt = false): Promise<string> {
+    const variant = strongerPrompt ? 'stronger' : 'standard';
+    const header = new TextEncoder().encode(`${model}\n${slot}\n${referenceImages.length}\n${variant}\n${promptText}\n`);
+    const images = [imageDataUrl, ...referenceImages].map(url => dataUrlToBytes(url).bytes);
+    const input = new Uint8Array(header.length + images.reduce((total, bytes) => total + bytes.length, 0));
+    input.set(header);
+    let offset = header.length;
+    images.forEach(bytes => {
+        input.set(bytes, offset);
+        offset += bytes.length;
+    });
+    const digest = await crypto.subtle.digest('SHA-256', input);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function readEntry(key: string): Promise<CacheEntry | undefined> {
+    const db = await openDatabase();
+    const tx = db.transaction(RESULTS_STORE, 'readwrite');
+    const store = tx.objectStore(RESULTS_STORE);
+    const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+    if (entry) {
+        // Touch it, so it's the last to be evicted.
+        store.put({ ...entry, lastUsedAt: Date.now() });
+    }
+    await transactionDone(tx);
+    return entry;
+}
+
+/**
+ * Stores a result, then evicts the least recently used entries until the cache
+ * fits in its size limit again.
+ */
+async function writeEntry(key: string, image: string, model: string): Promise<void> {
+    const db = await openDatabase();
+    const now = Date.now();
+    const tx = db.transaction(RESULTS_STORE, 'readwrite');
+    const store = tx.objectStore(RESULTS_STORE);
+    store.put({ key, image, model, size: image.length, createdAt: now, lastUsedAt: now } satisfies CacheEntry);
+
+    const entries = await requestToPromise<CacheEntry[]>(store.index(LAST_USED_INDEX).getAll());
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    // The index is sorted oldest first.
+    for (const entry of entries) {
+        if (total <= config.generationCacheMaxBytes) break;
+        if (entry.key === key) continue;
+        store.delete(entry.key);
+        total -= entry.size;
+    }
+    await transactionDone(tx);
+}
+
+async function deleteEntry(key: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(RESULTS_STORE, 'readwrite');
+    tx.objectStore(RESULTS_STORE).delete(key);
+    await transactionDone(tx);
+}
+
+/**
+ * Caches a result generated with `deferCacheWrite`. Results that came from the
+ * cache, or couldn't be given a key, are left alone.
+ * @param result The result to keep.
+ */
+export function commitToCache(result: CachedGenerationResult): void {
+    if (result.cached || !result.cacheKey) return;
+    writeEntry(result.cacheKey, result.url, result.model).catch(error => console.warn("Could not write to the generation cache:", error));
+}
+
+/**
+ * Removes a cached result that turned out to be bad, so the same request
+ * generates afresh next time.
+ * @param result The result, as returned from the cache.
+ */
+export function evictFromCache(result: CachedGenerationResult): void {
+    if (!result.cached || !result.cacheKey) return;
+    deleteEntry(result.cacheKey).catch(error => console.warn("Could not remove an entry from the generation cache:", error));
+}
+
+/**
+ * Generates an era image, reusing an earlier identical generation from the
+ * IndexedDB cache when there is one. The cache is best-effort: if it can't be
+ * read or written, the generation goes ahead as normal.
+ * @param imageDataUrl The source image.
+ * @param prompt The rendered prompt.
+ * @param era The era to generate.
+ * @param options Generation options, plus the cache bypass, candidate slot and deferred write.
+ * @returns The image, the model that made it, whether it came from the cache and its cache key.
+ */
+export async function generateWithCache(imageDataUrl: string, prompt: RenderedPrompt, era: Era, options: CachedGenerateOptions = {}): Promise<CachedGenerationResult> {
+    const { bypassCache = false, slot = 0, deferCacheWrite = false, ...generateOptions } = options;
+
+    let key: string | undefined;
+    try {
+        const model = await resolveActiveModel(options.signal);
+        const references = [...(options.referenceImages ?? []), ...(options.chainImage ? [options.chainImage] : [])];
+        key = await createCacheKey(imageDataUrl, prompt.text, model, slot, references, options.strongerPrompt);
+        if (!bypassCache) {
+            const entry = await readEntry(key);
+            if (entry) {
+                console.log(`Using cached result for ${era.id}.`);
+                return { url: entry.image, model: entry.model, cached: true, cacheKey: key };
+            }
+        }
+    } catch (error) {
+        options.signal?.throwIfAborted();
+        console.warn("Could not read the generation cache:", error);
+    }
+
+    const url = await generateDecadeImage(imageDataUrl, prompt, era, generateOptions);
+    const result: CachedGenerationResult = { url, model: getActiveModel(), cached: false, cacheKey: key };
+    if (!deferCacheWrite) {
+        commitToCache(result);
+    }
+    return result;
+}
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { config } from './config';
+
+export type JobPriority = 'normal' | 'high';
+
+export interface ScheduleOptions {
+    /** High-priority jobs (user-triggered regenerations) start before any normal ones. */
+    priority?: JobPriority;
+    /** Removes the job from the queue, or is passed on to it once it's running. */
+    signal?: AbortSignal;
+    /** Used in logs only. */
+    label?: string;
+}
+
+export interface SchedulerSnapshot {
+    queued: number;
+    running: number;
+    /** Jobs that finished (successfully or not) since the scheduler was last idle. */
+    completed: number;
+    /** Every job scheduled since the scheduler was last idle, minus ones cancelled before starting. */
+    total: number;
+    /** Set while new jobs are held back because the model asked us to slow down. */
+    pausedUntil: number | null;
+    /** Rough time until the queue drains, or null until a job has finished to measure by. */
+    estimatedMsRemaining: number | null;
+}
+
+export type SchedulerListener = (snapshot: SchedulerSnapshot) => void;
+
+interface QueuedJob {
+    run: () => void;
+    priority: JobPriority;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+export interface GenerationScheduler {
+    schedule<T>(task: (signal?: AbortSignal) => Promise<T>, options?: ScheduleOptions): Promise<T>;
+    /** Holds back queued jobs for a while, e.g. after a 429 with a retry delay. */
+    pauseFor(ms: number): void;
+    /** Changes how many jobs may run at once, e.g. from a command-line option. */
+    setConcurrency(limit: number): void;
+    subscribe(listener: SchedulerListener): () => void;
+    getSnapshot(): SchedulerSnapshot;
+}
+
+// Weight of the newest sample in the running average of job durations.
+const DURATION_SMOOTHING = 0.3;
+
+/**
+ * Creates a scheduler that runs async jobs with a global concurrency limit,
+ * lets high-priority jobs jump the queue and reports progress to subscribers.
+ * @param concurrency The maximum number of jobs running at once.
+ * @returns The scheduler.
+ */
+export function createGenerationScheduler(initialConcurrency: number): GenerationScheduler {
+    let concurrency = initialConcurrency;
+    const queue: QueuedJob[] = [];
+    const listeners = new Set<SchedulerListener>();
+    let running = 0;
+    let completed = 0;
+    let total = 0;
+    let pausedUntil: number | null = null;
+    let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+    let averageDurationMs: number | null = null;
+
+    const getSnapshot = (): SchedulerSnapshot => {
+        const now = Date.now();
+        const pauseRemaining = pausedUntil && pausedUntil > now ? pausedUntil - now : 0;
+        const outstanding = queue.length + running;
+        return {
+            queued: queue.length,
+            running,
+            completed,
+            total,
+            pausedUntil: pauseRemaining > 0 ? pausedUntil : null,
+            estimatedMsRemaining: averageDurationMs === null
+                ? null
+                : Math.round((outstanding * averageDurationMs) / concurrency + pauseRemaining),
+        };
+    };
+
+    const emit = () => {
+        const snapshot = getSnapshot();
+        listeners.forEach(listener => listener(snapshot));
+    };
+
+    const pump = () => {
+        if (pausedUntil && pausedUntil > Date.now()) return;
+        pausedUntil = null;
+        while (running < concurrency && queue.length > 0) {
+            const job = queue.shift()!;
+            if (job.onAbort) job.signal?.removeEventListener('abort', job.onAbort);
+            running++;
+            job.run();
+        }
+        emit();
+    };
+
+    const pauseFor = (ms: number) => {
+        const until = Date.now() + ms;
+        if (pausedUntil && pausedUntil >= until) return;
+        pausedUntil = until;
+        if (resumeTimer) clearTimeout(resumeTimer);
+        resumeTimer = setTimeout(() => {
+            resumeTimer = null;
+            pump();
+        }, ms);
+        console.warn(`Generation queue paused for ${Math.round(ms / 1000)}s.`);
+        emit();
+    };
+
+    const schedule = <T>(task: (signal?: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+        const { priority = 'normal', signal, label } = options;
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
+
+        // A fresh batch starts once everything from the previous one has finished.
+        if (running === 0 && queue.length === 0) {
+            completed = 0;
+            total = 0;
+        }
+        total++;
+
+        return new Promise<T>((resolve, reject) => {
+            const job: QueuedJob = {
+                priority,
+                signal,
+                run: () => {
+                    const startedAt = Date.now();
+                    task(signal)
+                        .then(resolve, reject)
+                        .finally(() => {
+                            const duration = Date.now() - startedAt;
+                            averageDurationMs = averageDurationMs === null
+                                ? duration
+                                : averageDurationMs * (1 - DURATION_SMOOTHING) + duration * DURATION_SMOOTHING;
+                            running--;
+                            completed++;
+                            pump();
+                        });
+                },
+            };
+
+            if (signal) {
+                job.onAbort = () => {
+                    const index = queue.indexOf(job);
+                    if (index === -1) return;
+                    queue.splice(index, 1);
+                    total--;
+                    console.log(`Removed ${label ?? 'job'} from the generation queue.`);
+                    reject(signal.reason);
+                    emit();
+                };
+                signal.addEventListener('abort', job.onAbort, { once: true });
+            }
+
+            if (priority === 'high') {
+                // Ahead of every normal job, but behind earlier high-priority ones.
+                const firstNormal = queue.findIndex(queued => queued.priority !== 'high');
+                queue.splice(firstNormal === -1 ? queue.length : firstNormal, 0, job);
+            } else {
+                queue.push(job);
+            }
+            pump();
+        });
+    };
+
+    return {
+        schedule,
+        pauseFor,
+        getSnapshot,
+        setConcurrency(limit) {
+            concurrency = Math.max(1, Math.floor(limit));
+            pump();
+        },
+        subscribe(listener) {
+            listeners.add(listener);
+            listener(getSnapshot());
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, half is random,
+ * so many clients that failed together don't all retry at the same moment.
+ * @param attempt The attempt that just failed, starting at 1.
+ * @param baseMs The delay after the first failure, before jitter.
+ * @param maxMs The upper bound for the delay.
+ * @returns The delay in milliseconds.
+ */
+export function backoffWithJitter(attempt: number, baseMs: number, maxMs = 30000): number {
+    const exponential = Math.min(maxMs, baseMs * Math.pow(2, attempt - 1));
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/** The shared scheduler every image generation goes through. */
+export const generationScheduler = createGenerationScheduler(config.generationConcurrency);
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI } from "@google/genai";
+import type { ImageProvider } from "./types";
+
+// Finish reasons that mean the candidate was withheld by a safety or policy filter.
+const BLOCKED_FINISH_REASONS = new Set([
+    'SAFETY',
+    'IMAGE_SAFETY',
+    'PROHIBITED_CONTENT',
+    'IMAGE_PROHIBITED_CONTENT',
+    'BLOCKLIST',
+    'SPII',
+]);
+
+const COUNT_PEOPLE_PROMPT = 'How many people are visible in this photo? Answer with a single number only.';
+
+/**
+ * Creates a provider backed by the Gemini image model.
+ * @param apiKey The Gemini API key.
+ * @param model The model identifier to generate with.
+ * @param visionModel The text model used to check results, e.g. count people.
+ * @returns An ImageProvider that calls the Gemini API.
+ */
+export function createGeminiProvider(apiKey: string, model: string, visionModel: string): ImageProvider {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        id: 'gemini',
+        model,
+        async generate({ image, prompt, referenceImages = [] }, signal) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: [{ inlineData: image }, ...referenceImages.map(inlineData => ({ inlineData })), { text: prompt }] },
+                config: { abortSignal: signal },
+            });
+            signal?.throwIfAborted();
+
+            const candidate = response.candidates?.[0];
+            const imagePart = candidate?.content?.parts?.find(part => part.inlineData);
+            const inlineData = imagePart?.inlineData;
+            if (inlineData?.mimeType && inlineData.data) {
+                return { image: { mimeType: inlineData.mimeType, data: inlineData.data } };
+            }
+
+            const finishReason = candidate?.finishReason;
+            const blockReason = response.promptFeedback?.blockReason
+                ?? (finishReason && BLOCKED_FINISH_REASONS.has(finishReason) ? finishReason : undefined);
+            return { text: response.text, blockReason };
+        },
+        async countPeople(image, signal) {
+            const response = await ai.models.generateContent({
+                model: visionModel,
+                contents: { parts: [{ inlineData: image }, { text: COUNT_PEOPLE_PROMPT }] },
+                config: { abortSignal: signal },
+            });
+            signal?.throwIfAborted();
+            const count = parseInt(response.text?.match(/\d+/)?.[0] ?? '', 10);
+            return Number.isNaN(count) ? undefined : count;
+        },
+    };
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { config, type ProviderId } from "../config";
+import { createGeminiProvider } from "./geminiProvider";
+import { createLocalProvider } from "./localProvider";
+import type { ImageProvider } from "./types";
+
+export type { ImageProvider, ImageGenerationRequest, ImageGenerationResponse, InlineImage } from "./types";
+
+let activeProvider: ImageProvider | null = null;
+
+function createProvider(id: ProviderId): ImageProvider {
+    switch (id) {
+        case 'gemini':
+            if (!config.apiKey) {
+                throw new Error("API_KEY environment variable is not set");
+            }
+            return createGeminiProvider(config.apiKey, config.geminiModel, config.geminiVisionModel);
+        case 'local':
+            return createLocalProvider(config.localProviderDelayMs);
+        case 'server':
+            // The server builds the prompt itself, so it isn't a drop-in provider.
+            throw new Error("The 'server' provider is called through generateDecadeImage, not getImageProvider.");
+    }
+}
+
+/**
+ * Returns the configured image provider, creating it on first use.
+ * @returns The active ImageProvider.
+ */
+export function getImageProvider(): ImageProvider {
+    if (!activeProvider) {
+        activeProvider = createProvider(config.provider);
+        console.log(`Using "${activeProvider.id}" image provider (${activeProvider.model}).`);
+    }
+    return activeProvider;
+}
+
+/**
+ * Replaces the active provider, e.g. with a stub in tests. Pass null to go back
+ * to the configured one.
+ * @param provider The provider to use for subsequent generations.
+ */
+export function setImageProvider(provider: ImageProvider | null): void {
+    activeProvider = provider;
+}
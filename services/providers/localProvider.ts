@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from "../../lib/albumUtils";
+import { delay } from "../../lib/utils";
+import type { ImageProvider } from "./types";
+
+// Canvas filter strings that give each decade a recognisable, repeatable look.
+const PERIOD_FILTERS: Record<string, string> = {
+    '1950s': 'grayscale(1) contrast(1.2) brightness(0.95)',
+    '1960s': 'saturate(1.6) contrast(1.1)',
+    '1970s': 'sepia(0.5) saturate(1.3) hue-rotate(-10deg)',
+    '1980s': 'contrast(1.3) saturate(1.5) brightness(1.1)',
+    '1990s': 'sepia(0.2) contrast(0.95) brightness(1.05)',
+    '2000s': 'saturate(0.85) contrast(1.05) brightness(1.1)',
+};
+const DEFAULT_FILTER = 'sepia(0.6) contrast(1.1)';
+
+const OUTPUT_SIZE = 1024;
+
+/**
+ * Renders the "generated" image: the source photo center-cropped to a square,
+ * run through the era's filter and stamped with a label in the corner.
+ */
+async function renderPeriodImage(sourceDataUrl: string, label: string): Promise<string> {
+    const img = await loadImage(sourceDataUrl);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = OUTPUT_SIZE;
+    canvas.height = OUTPUT_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    const side = Math.min(img.naturalWidth, img.naturalHeight);
+    const sx = (img.naturalWidth - side) / 2;
+    const sy = (img.naturalHeight - side) / 2;
+
+    // Custom eras ("late 1960s", "1969", "1970s Tokyo") borrow their decade's look.
+    const year = label.match(/\d{3}/);
+    ctx.filter = (year && PERIOD_FILTERS[`${year[0]}0s`]) || DEFAULT_FILTER;
+    ctx.drawImage(img, sx, sy, side, side, 0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+    ctx.filter = 'none';
+
+    // Date-stamp style label, like a disposable camera print.
+    ctx.font = `bold 56px 'Courier New', monospace`;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillText(label, OUTPUT_SIZE - 30, OUTPUT_SIZE - 26);
+    ctx.fillStyle = '#ff8c1a';
+    ctx.fillText(label, OUTPUT_SIZE - 32, OUTPUT_SIZE - 28);
+
+    return canvas.toDataURL('image/jpeg', 0.9);
+}
+
+/**
+ * Creates an offline provider that never touches the network. It applies a
+ * deterministic period filter to the source photo, so the same input and era
+ * always produce the same output. Useful for UI work, demos and tests.
+ * @param delayMs Artificial latency so loading states remain visible.
+ * @returns An ImageProvider that renders locally on a canvas.
+ */
+export function createLocalProvider(delayMs = 0): ImageProvider {
+    return {
+        id: 'local',
+        model: 'local-period-filter',
+        skipResultValidation: true,
+        async generate({ image, era }, signal) {
+            await delay(delayMs, signal);
+            const resultUrl = await renderPeriodImage(`data:${image.mimeType};base64,${image.data}`, era ?? 'LOCAL');
+            signal?.throwIfAborted();
+            const [, data] = resultUrl.split(',');
+            return { image: { mimeType: 'image/jpeg', data } };
+        },
+    };
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A base64-encoded image payload, as sent to or received from a model. */
+export interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+export interface ImageGenerationRequest {
+    image: InlineImage;
+    prompt: string;
+    /** The era being generated (e.g. "1970s"), when known. Providers may use it as a hint. */
+    era?: string;
+    /** Further images sent after `image`, e.g. the original photo when refining a result. */
+    referenceImages?: InlineImage[];
+}
+
+/**
+ * A provider-neutral view of a model response. A successful generation carries an
+ * `image`; a model that declined to draw usually only returns `text`.
+ */
+export interface ImageGenerationResponse {
+    image?: InlineImage;
+    text?: string;
+    /** Set when the model's safety filters stopped the request, e.g. "IMAGE_SAFETY". */
+    blockReason?: string;
+}
+
+/**
+ * Anything that can turn a source photo and a prompt into a new image.
+ * `generateDecadeImage` talks to the active provider only through this interface.
+ */
+export interface ImageProvider {
+    /** Short identifier used in config and logs (e.g. "gemini", "local"). */
+    readonly id: string;
+    /** The model identifier the provider generates with. */
+    readonly model: string;
+    /**
+     * Generates an image. Implementations should stop work and reject with an
+     * AbortError as soon as `signal` is aborted.
+     */
+    generate(request: ImageGenerationRequest, signal?: AbortSignal): Promise<ImageGenerationResponse>;
+    /**
+     * Counts the people in an image, used to check group results. Optional:
+     * providers that can't tell return nothing and results go unchecked.
+     * @returns The number of people, or undefined if the answer was unclear.
+     */
+    countPeople?(image: InlineImage, signal?: AbortSignal): Promise<number | undefined>;
+    /**
+     * Set by offline stand-ins whose output keeps the source photo's structure
+     * on purpose. The client's result checks would flag every one of their
+     * results as unchanged, so they are skipped.
+     */
+    readonly skipResultValidation?: boolean;
+}
@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from '../lib/albumUtils';
+import type { Era } from '../lib/eras';
+import { normalizeGeneratedImage } from '../lib/generatedImages';
+import type { FilmSettings, GeneratedImage, PhotoSubject } from '../types';
+
+const DB_NAME = 'past-forward';
+const DB_VERSION = 1;
+// Full sessions (with every image) and lightweight summaries live in separate
+// stores so the gallery can list albums without loading every photo.
+const SESSIONS_STORE = 'sessions';
+const SUMMARIES_STORE = 'summaries';
+
+const THUMBNAIL_SIZE = 240;
+
+export interface SavedSession {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    uploadedImage: string;
+    /** The upload before any crop. Missing on sessions saved before it was kept, and when there was no crop. */
+    sourceImage?: string;
+    /** More photos of the same person. Missing on sessions saved before they were supported. */
+    referenceImages?: string[];
+    /** Missing on sessions saved before custom eras were supported. */
+    eras?: Era[];
+    /** Missing on sessions saved before group photos were supported. */
+    subject?: PhotoSubject;
+    generatedImages: Record<string, GeneratedImage>;
+    customCaptions: Record<string, string>;
+    orderedDecades: string[];
+    /** Per-card film looks. Missing on sessions saved before they were supported. */
+    filmSettings?: Record<string, FilmSettings>;
+}
+
+export interface SessionSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail: string;
+    completedCount: number;
+}
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+                    db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to try again if opening failed.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+    });
+}
+
+/**
+ * Scales an image down to a small JPEG suitable for the album gallery.
+ * @param dataUrl The full-size image data URL.
+ * @returns A promise that resolves to the thumbnail data URL.
+ */
+async function createThumbnail(dataUrl: string): Promise<string> {
+    const img = await loadImage(dataUrl);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+/**
+ * Generates a new unique session id.
+ * @returns The session id.
+ */
+export function createSessionId(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Builds the default name for a new session from its creation time.
+ * @param createdAt The creation timestamp in milliseconds.
+ * @returns A human-readable album name.
+ */
+export function defaultSessionName(createdAt: number): string {
+    return `Album – ${new Date(createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+}
+
+/**
+ * Inserts or updates a session. An existing session keeps its name (it may have
+ * been renamed from the gallery) and creation time, read in the same transaction
+ * as the write so a rename or delete can't be overwritten. The gallery thumbnail
+ * is only rendered the first time, since the source photo never changes afterwards.
+ * @param session The full session to persist.
+ */
+export async function saveSession(session: SavedSession): Promise<void> {
+    const db = await openDatabase();
+
+    // Rendering waits on an image load, which would let the write transaction
+    // commit early, so a new session's thumbnail is made before it starts.
+    const isNew = await requestToPromise(
+        db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).count(session.id)
+    ) === 0;
+    const newThumbnail = isNew ? await createThumbnail(session.uploadedImage) : null;
+
+    const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+    const summaries = tx.objectStore(SUMMARIES_STORE);
+    const existing = await requestToPromise<SessionSummary | undefined>(summaries.get(session.id));
+    const thumbnail = existing?.thumbnail ?? newThumbnail;
+    if (!thumbnail) {
+        // Deleted from the gallery while this save was under way; don't bring it back.
+        await transactionDone(tx);
+        return;
+    }
+
+    const record: SavedSession = {
+        ...session,
+        name: existing?.name ?? session.name,
+        createdAt: existing?.createdAt ?? session.createdAt,
+    };
+    const summary: SessionSummary = {
+        id: record.id,
+        name: record.name,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        thumbnail,
+        completedCount: Object.values(record.generatedImages).filter(image => image.attempts.length > 0).length,
+    };
+
+    tx.objectStore(SESSIONS_STORE).put(record);
+    summaries.put(summary);
+    await transactionDone(tx);
+}
+
+/**
+ * Loads a full session. Images are normalized to the current shape, which also
+ * settles generations that were still pending when the session was saved.
+ * @param id The session id.
+ * @returns The session, or undefined if it doesn't exist.
+ */
+export async function getSession(id: string): Promise<SavedSession | undefined> {
+    const db = await openDatabase();
+    const session = await requestToPromise<SavedSession | undefined>(
+        db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).get(id)
+    );
+    if (!session) return undefined;
+
+    const generatedImages: Record<string, GeneratedImage> = {};
+    for (const [decade, image] of Object.entries(session.generatedImages)) {
+        generatedImages[decade] = normalizeGeneratedImage(image, session.updatedAt);
+    }
+    return { ...session, generatedImages };
+}
+
+/**
+ * Lists every saved session, most recently updated first.
+ * @returns A promise that resolves to the session summaries.
+ */
+export async function listSessions(): Promise<SessionSummary[]> {
+    const db = await openDatabase();
+    const summaries = await requestToPromise<SessionSummary[]>(
+        db.transaction(SUMMARIES_STORE, 'readonly').objectStore(SUMMARIES_STORE).getAll()
+    );
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Renames a saved session.
+ * @param id The session id.
+ * @param name The new name.
+ */
+export async function renameSession(id: string, name: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+    const sessions = tx.objectStore(SESSIONS_STORE);
+    const summaries = tx.objectStore(SUMMARIES_STORE);
+
+    const [session, summary] = await Promise.all([
+        requestToPromise<SavedSession | undefined>(sessions.get(id)),
+        requestToPromise<SessionSummary | undefined>(summaries.get(id)),
+    ]);
+    if (session) sessions.put({ ...session, name });
+    if (summary) summaries.put({ ...summary, name });
+    await transactionDone(tx);
+}
+
+/**
+ * Permanently deletes a saved session.
+ * @param id The session id.
+ */
+export async function deleteSession(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(id);
+    tx.objectStore(SUMMARIES_STORE).delete(id);
+    await transactionDone(tx);
+}
+
+/**
+ * Reports how much of the browser's storage quota this origin is using.
+ * @returns The usage and quota in bytes, or null if the browser can't tell us.
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    if (usage === undefined || quota === undefined) return null;
+    return { usage, quota };
+}
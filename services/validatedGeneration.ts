@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Era } from "../lib/eras";
+import { computeImageSignature, validateSignature, type ImageSignature, type ValidationResult } from "../lib/imageValidation";
+import type { RenderedPrompt } from "../lib/promptTemplates";
+import { config } from "./config";
+import { shouldValidateResults } from "./geminiService";
+import { commitToCache, evictFromCache, generateWithCache, type CachedGenerateOptions, type CachedGenerationResult } from "./generationCache";
+import type { ValidationIssue } from "../types";
+
+export interface ValidatedGenerateOptions extends CachedGenerateOptions {
+    /**
+     * Other eras' current results, to catch the same image coming back for
+     * several eras. Called once the image is ready, so it sees the latest ones.
+     */
+    compareWith?: () => string[];
+}
+
+export interface ValidatedGenerationResult extends CachedGenerationResult {
+    /** The result still failed validation after the second try. */
+    lowConfidence: boolean;
+    /** What was wrong with it, if anything. */
+    issues: ValidationIssue[];
+}
+
+async function checkResult(url: string, source: ImageSignature, others: string[]): Promise<ValidationResult> {
+    const [result, ...otherSignatures] = await Promise.all([url, ...others].map(computeImageSignature));
+    return validateSignature(result, source, otherSignatures, config.resultValidation);
+}
+
+/**
+ * Generates an era image and checks it for the quiet failures the model
+ * sometimes produces: the source photo sent back unchanged, a blank or tiny
+ * image, or the same image as another era. A result that fails is generated
+ * once more with stronger wording; if that fails too, the better of the two
+ * is returned marked low confidence. Only results that pass are cached, and a
+ * cached result that fails is evicted. If the checks themselves can't run,
+ * the result is returned unchecked and uncached. Results from providers that
+ * opt out of validation, like the offline stand-ins, aren't checked.
+ * @param imageDataUrl The source image.
+ * @param prompt The rendered prompt.
+ * @param era The era to generate.
+ * @param options Generation and cache options, plus the other eras' results.
+ * @returns The image, its model, whether it was cached and the validation outcome.
+ */
+export async function generateValidated(imageDataUrl: string, prompt: RenderedPrompt, era: Era, options: ValidatedGenerateOptions = {}): Promise<ValidatedGenerationResult> {
+    const { compareWith, ...generateOptions } = options;
+    const first = await generateWithCache(imageDataUrl, prompt, era, { ...generateOptions, deferCacheWrite: true });
+    if (!shouldValidateResults()) {
+        commitToCache(first);
+        return { ...first, lowConfidence: false, issues: [] };
+    }
+
+    let source: ImageSignature;
+    let firstCheck: ValidationResult;
+    try {
+        source = await computeImageSignature(imageDataUrl);
+        firstCheck = await checkResult(first.url, source, (compareWith?.() ?? []).filter(url => url !== first.url));
+    } catch (error) {
+        options.signal?.throwIfAborted();
+        console.warn(`Could not validate the result for ${era.id}:`, error);
+        return { ...first, lowConfidence: false, issues: [] };
+    }
+    if (firstCheck.ok) {
+        commitToCache(first);
+        return { ...first, lowConfidence: false, issues: [] };
+    }
+    evictFromCache(first);
+
+    console.warn(`Result for ${era.id} failed validation (${firstCheck.issues.join(', ')}); retrying with a stronger prompt.`, { thresholds: config.resultValidation, metrics: firstCheck.metrics });
+    const second = await generateWithCache(imageDataUrl, prompt, era, { ...generateOptions, strongerPrompt: true, deferCacheWrite: true });
+
+    let secondCheck: ValidationResult;
+    try {
+        secondCheck = await checkResult(second.url, source, (compareWith?.() ?? []).filter(url => url !== second.url));
+    } catch (error) {
+        options.signal?.throwIfAborted();
+        console.warn(`Could not validate the retried result for ${era.id}:`, error);
+        return { ...second, lowConfidence: false, issues: [] };
+    }
+    if (secondCheck.ok) {
+        commitToCache(second);
+        console.log(`Retried result for ${era.id} passed validation.`, { metrics: secondCheck.metrics });
+        return { ...second, lowConfidence: false, issues: [] };
+    }
+
+    evictFromCache(second);
+
+    // Both failed: keep whichever has fewer problems, preferring the newer one on a tie.
+    const [kept, keptCheck] = firstCheck.issues.length < secondCheck.issues.length ? [first, firstCheck] : [second, secondCheck];
+    console.warn(`Result for ${era.id} still failed validation (${keptCheck.issues.join(', ')}); marking it low confidence.`, { thresholds: config.resultValidation, metrics: keptCheck.metrics });
+    return { ...kept, lowConfidence: true, issues: keptCheck.issues };
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Who is in the uploaded photo. Group photos get prompts that keep everyone in the frame. */
+export interface PhotoSubject {
+    mode: 'single' | 'group';
+    /** How many people are in the photo, if the user said. */
+    headCount?: number;
+    /** Used in album captions, e.g. "The Smiths, 1970s". */
+    groupName?: string;
+}
+
+export type ImageStatus = 'pending' | 'done' | 'error' | 'cancelled';
+
+export type GenerationErrorKind =
+    | 'safety-blocked'
+    | 'quota-exceeded'
+    | 'invalid-input'
+    | 'network-unavailable'
+    | 'model-text-only'
+    | 'unknown';
+
+/** Why a generation failed, in a form that can be saved with the session and shown on the card. */
+export interface GenerationFailure {
+    kind: GenerationErrorKind;
+    /** Short, readable reason, e.g. "Usage limit reached". */
+    title: string;
+    /** The underlying error details. */
+    message: string;
+    /** What the user can do about it, e.g. "Wait 60s, then try again." */
+    suggestion: string;
+    /** Whether trying again as-is could succeed. */
+    retryable: boolean;
+    retryAfterMs?: number;
+}
+
+/** A card's era film look (see lib/filmEffects.ts), applied to its downloads and the album. */
+export interface FilmSettings {
+    enabled: boolean;
+    /** From 0 (no effect) to 1 (full effect). */
+    strength: number;
+}
+
+/** Ways a generated image can quietly fail. See lib/imageValidation.ts. */
+export type ValidationIssue = 'too-small' | 'flat' | 'unchanged' | 'duplicate';
+
+/** One generated candidate for an era. Every attempt is kept so users can go back to it. */
+export interface ImageAttempt {
+    url: string;
+    createdAt: number;
+    /** The prompt template that produced this result. */
+    promptTemplateId?: string;
+    promptTemplateVersion?: number;
+    /** The rendered main prompt (the fallback wording may have been used instead if it was refused). */
+    prompt?: string;
+    /** The image model that produced this result. */
+    model?: string;
+    /** Served from the generation cache, so it cost nothing. */
+    cached?: boolean;
+    /** Still failed the unchanged/blank/duplicate checks after a second try. */
+    lowConfidence?: boolean;
+    /** Which checks it failed, e.g. 'unchanged'. */
+    validationIssues?: ValidationIssue[];
+    /** For refinements: the attempt this one was edited from, by index. */
+    refinedFrom?: number;
+    /** For refinements: the follow-up instruction, e.g. "make the hair shorter". */
+    instruction?: string;
+}
+
+export interface GeneratedImage {
+    status: ImageStatus;
+    /** Every candidate generated for this era, oldest first. */
+    attempts: ImageAttempt[];
+    /** The attempt shown on the card and used for downloads and albums. */
+    selectedIndex: number;
+    /** Candidates still being generated. */
+    pendingCount: number;
+    /** Whether a refinement of one of the attempts is running. */
+    refining?: boolean;
+    /** Why the most recent candidate failed, if it did. */
+    error?: GenerationFailure;
+}
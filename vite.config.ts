@@ -2,17 +2,27 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The generation server (npm run server) holds the API key.
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The generation server reads its environment at runtime; only the browser bundle gets these.
+      // The API key is deliberately left empty so it never ships to the browser.
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': JSON.stringify(''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(''),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER === 'local' ? 'local' : 'server'),
+        'process.env.GENERATION_ENDPOINT': JSON.stringify(env.GENERATION_ENDPOINT ?? ''),
+        'process.env.LOCAL_PROVIDER_DELAY_MS': JSON.stringify(env.LOCAL_PROVIDER_DELAY_MS ?? ''),
+        'process.env.MAX_UPLOAD_DIMENSION': JSON.stringify(env.MAX_UPLOAD_DIMENSION ?? '')
       },
       resolve: {
         alias: {